@@ -6,7 +6,7 @@ import { assertEquals, assertStringIncludes } from '$std/assert';
 import { join } from '$std/path';
 import { executeCd } from './cd.ts';
 import { GitTestRepo } from '../test-utils/git-test-repo.ts';
-import { TempCwd } from '../test-utils/temp-env.ts';
+import { TempCwd, TempHome } from '../test-utils/temp-env.ts';
 import { withMockedExit } from '../test-utils/mock-exit.ts';
 
 Deno.test('cd command - errors when no pattern given', async () => {
@@ -120,3 +120,123 @@ Deno.test('cd command - errors when no match found', async () => {
     await repo.cleanup();
   }
 });
+
+Deno.test('cd command - outputs matched worktree as JSON with --json', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createWorktree('feat-wt', 'feat-branch');
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { exitCode, stdout } = await withMockedExit(
+        async () => {
+          await executeCd(['feat', '--json']);
+        },
+        { captureOutput: true },
+      );
+
+      assertEquals(exitCode, undefined);
+      const result = JSON.parse(stdout!);
+      assertEquals(result.schemaVersion, 1);
+      assertEquals(result.command, 'cd');
+      assertEquals(result.pattern, 'feat');
+      assertEquals(result.path, join(repo.path, 'feat-wt'));
+      assertEquals(result.branch, 'feat-branch');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('cd command - prefers the most frecent of multiple matches', async () => {
+  const repo = new GitTestRepo();
+  const home = new TempHome();
+  try {
+    await repo.init();
+    await repo.createWorktree('api-refactor', 'api-refactor');
+    await repo.createWorktree('graphql-api', 'graphql-api');
+    const graphqlPath = join(repo.path, 'graphql-api');
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await withMockedExit(
+        async () => {
+          await executeCd(['graphql']);
+        },
+        { captureOutput: true },
+      );
+
+      const { exitCode, stdout } = await withMockedExit(
+        async () => {
+          await executeCd(['api']);
+        },
+        { captureOutput: true },
+      );
+
+      assertEquals(exitCode, undefined);
+      assertEquals(stdout?.trim(), graphqlPath);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await home.cleanup();
+    await repo.cleanup();
+  }
+});
+
+Deno.test('cd command - "-" goes back to the previous worktree', async () => {
+  const repo = new GitTestRepo();
+  const home = new TempHome();
+  try {
+    await repo.init();
+    await repo.createWorktree('feat-a', 'feat-a');
+    await repo.createWorktree('feat-b', 'feat-b');
+    const featAPath = join(repo.path, 'feat-a');
+    const featBPath = join(repo.path, 'feat-b');
+
+    const rootCwd = new TempCwd(repo.path);
+    try {
+      const { exitCode, stderr } = await withMockedExit(
+        async () => {
+          await executeCd(['-']);
+        },
+        { captureOutput: true },
+      );
+      assertEquals(exitCode, 1);
+      assertStringIncludes(stderr ?? '', 'No previous worktree');
+
+      for (const pattern of ['feat-a', 'feat-b']) {
+        await withMockedExit(
+          async () => {
+            await executeCd([pattern]);
+          },
+          { captureOutput: true },
+        );
+      }
+    } finally {
+      rootCwd.restore();
+    }
+
+    // From feat-b, the previous worktree is feat-a
+    const cwd = new TempCwd(featBPath);
+    try {
+      const { exitCode, stdout } = await withMockedExit(
+        async () => {
+          await executeCd(['-']);
+        },
+        { captureOutput: true },
+      );
+
+      assertEquals(exitCode, undefined);
+      assertEquals(stdout?.trim(), featAPath);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await home.cleanup();
+    await repo.cleanup();
+  }
+});
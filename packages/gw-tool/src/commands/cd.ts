@@ -3,7 +3,19 @@
  * Outputs the path to a worktree for use with cd command
  */
 
+import { loadConfig } from '../lib/config.ts';
+import {
+  findPreviousWorktree,
+  frecencyScore,
+  readFrecencyDatabase,
+  recordNavigation,
+  sortByFrecency,
+} from '../lib/frecency.ts';
+import { getCurrentWorktreePath } from '../lib/git-utils.ts';
+import { JSON_SCHEMA_VERSION, printJson } from '../lib/json-output.ts';
 import * as output from '../lib/output.ts';
+import { isInteractive, PICKER_CANCELLED_EXIT_CODE, pickWorktree } from '../lib/picker.ts';
+import type { CdJsonOutput } from '../lib/types.ts';
 
 /**
  * Execute the cd command
@@ -17,9 +29,11 @@ export async function executeCd(args: string[]): Promise<void> {
     Deno.exit(0);
   }
 
-  // Get worktree pattern from arguments
-  const pattern = args[0];
-  if (!pattern) {
+  const json = args.includes('--json');
+
+  // Get worktree pattern from arguments (picked interactively when omitted in a terminal)
+  const pattern = args.filter((arg) => arg !== '--json')[0] ?? '';
+  if (!pattern && !isInteractive()) {
     output.error('Error: Worktree name or pattern required');
     console.error('\nUsage: gw cd <worktree>');
     console.error('Then: cd $(gw cd <worktree>)');
@@ -44,20 +58,23 @@ export async function executeCd(args: string[]): Promise<void> {
   // Parse worktree list
   const outputText = new TextDecoder().decode(stdout);
   const lines = outputText.trim().split('\n');
-  const worktrees: Array<{ path: string; branch: string }> = [];
+  const worktrees: Array<{ path: string; branch: string; bare: boolean }> = [];
 
-  let currentWorktree: { path?: string; branch?: string } = {};
+  let currentWorktree: { path?: string; branch?: string; bare?: boolean } = {};
 
   for (const line of lines) {
     if (line.startsWith('worktree ')) {
       currentWorktree.path = line.substring('worktree '.length);
     } else if (line.startsWith('branch ')) {
       currentWorktree.branch = line.substring('branch '.length).split('/').pop() || '';
+    } else if (line === 'bare') {
+      currentWorktree.bare = true;
     } else if (line === '') {
       if (currentWorktree.path) {
         worktrees.push({
           path: currentWorktree.path,
           branch: currentWorktree.branch || '',
+          bare: currentWorktree.bare === true,
         });
       }
       currentWorktree = {};
@@ -69,11 +86,29 @@ export async function executeCd(args: string[]): Promise<void> {
     worktrees.push({
       path: currentWorktree.path,
       branch: currentWorktree.branch || '',
+      bare: currentWorktree.bare === true,
     });
   }
 
-  // Find matching worktrees
-  const matches = worktrees.filter((wt) => {
+  const frecency = await readFrecencyDatabase();
+
+  // '-' goes back to the previous worktree
+  if (pattern === '-') {
+    const previous = findPreviousWorktree(
+      worktrees,
+      frecency,
+      await getCurrentWorktreePath(),
+    );
+    if (!previous) {
+      output.error('No previous worktree to go back to');
+      Deno.exit(1);
+    }
+    await outputWorktree(previous, pattern, json);
+    return;
+  }
+
+  // Find matching worktrees (all of them without a pattern)
+  const matches = !pattern ? worktrees : worktrees.filter((wt) => {
     // Match against branch name or path
     const pathMatch = wt.path.toLowerCase().includes(pattern.toLowerCase());
     const branchMatch = wt.branch.toLowerCase().includes(pattern.toLowerCase());
@@ -96,6 +131,29 @@ export async function executeCd(args: string[]): Promise<void> {
     }
   }
 
+  // Rank the remaining matches by frecency: the worktree navigated to most
+  // often and most recently wins (without a pattern, it is only listed first)
+  if (resolved.length > 1) {
+    resolved = sortByFrecency(resolved, frecency);
+    if (pattern && frecencyScore(frecency[resolved[0].path]) > 0) {
+      resolved = [resolved[0]];
+    }
+  }
+
+  // Let the user choose between several matches in a terminal (the bare repository can't be picked)
+  if (resolved.length > 1 && isInteractive()) {
+    const { gitRoot } = await loadConfig();
+    const picked = await pickWorktree(resolved.filter((wt) => !wt.bare), {
+      message: 'Navigate to which worktree?',
+      query: pattern,
+      gitRoot,
+    });
+    if (!picked) {
+      Deno.exit(PICKER_CANCELLED_EXIT_CODE);
+    }
+    resolved = [picked];
+  }
+
   if (resolved.length > 1) {
     output.error(`Multiple worktrees match "${pattern}":`);
     resolved.forEach((wt) => {
@@ -105,8 +163,33 @@ export async function executeCd(args: string[]): Promise<void> {
     Deno.exit(1);
   }
 
+  await outputWorktree(resolved[0], pattern, json);
+}
+
+/**
+ * Output the path of the worktree to navigate to, and record the navigation
+ */
+async function outputWorktree(
+  worktree: { path: string; branch: string },
+  pattern: string,
+  json: boolean,
+): Promise<void> {
+  if (json) {
+    const payload: CdJsonOutput = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      command: 'cd',
+      pattern,
+      path: worktree.path,
+      branch: worktree.branch || null,
+    };
+    printJson(payload);
+    return;
+  }
+
+  await recordNavigation(worktree.path);
+
   // Output the path to stdout (only thing that goes to stdout)
-  console.log(resolved[0].path);
+  console.log(worktree.path);
 }
 
 /**
@@ -117,12 +200,18 @@ function showCdHelp(): void {
 gw cd - Get the path to a worktree for directory navigation
 
 Usage:
-  gw cd <worktree>
+  gw cd [worktree] [options]
   cd $(gw cd <worktree>)
 
 Arguments:
-  <worktree>    Name or partial name of the worktree
+  [worktree]    Name or partial name of the worktree
                 Matches against branch name or path
+                (pick one interactively when omitted)
+                Use '-' to go back to the previous worktree
+
+Options:
+  --json        Output the matched worktree as JSON
+  -h, --help    Show this help message
 
 Description:
   Finds a worktree by name or partial match and outputs its absolute path.
@@ -130,8 +219,16 @@ Description:
 
   The command searches all worktrees and matches against both the branch
   name and the worktree path. If multiple matches are found, an exact
-  branch name match is preferred. Otherwise, it will error and show all
-  matches so you can be more specific.
+  branch name match is preferred. Otherwise, the match you navigated to most
+  often and most recently wins (frecency, like zoxide). Navigations are
+  recorded in ~/.gw/frecency.json, by 'gw cd' as well as by commands that
+  navigate for you (e.g., 'gw checkout'), and worktrees that no longer exist
+  are pruned from it automatically.
+
+  If none of the matches was navigated to before, a picker lets you choose
+  one (type to filter, arrow keys to move, Enter to select, Esc to cancel).
+  Without a terminal, it will error and show all matches so you can be more
+  specific.
 
 Examples:
   # Navigate to a worktree by exact name
@@ -140,7 +237,13 @@ Examples:
   # Navigate using partial match
   cd $(gw cd feat)
 
-  # List matching worktrees (if multiple matches)
+  # Pick a worktree interactively
+  gw cd
+
+  # Go back to the previous worktree
+  gw cd -
+
+  # List matching worktrees (if multiple matches, without a terminal)
   gw cd api
   # Output: Multiple worktrees match "api":
   #   api-refactor -> /path/to/repo/api-refactor
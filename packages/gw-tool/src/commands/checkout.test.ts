@@ -2,9 +2,11 @@
  * Tests for checkout.ts command
  */
 
-import { assertEquals } from '$std/assert';
+import { assertEquals, assertStringIncludes } from '$std/assert';
 import { join } from '$std/path';
 import { executeCheckout } from './checkout.ts';
+import { listWorktrees } from '../lib/git-utils.ts';
+import { getWorktreeMetadata } from '../lib/worktree-metadata.ts';
 import { GitTestRepo } from '../test-utils/git-test-repo.ts';
 import { TempCwd } from '../test-utils/temp-env.ts';
 import { createMinimalConfig, writeTestConfig } from '../test-utils/fixtures.ts';
@@ -366,3 +368,169 @@ Deno.test('checkout command - sets up tracking for truly new branches', async ()
     await repo.cleanup();
   }
 });
+
+Deno.test('checkout command - fork workflow creates from the base remote and tracks the push remote', async () => {
+  const repo = new GitTestRepo();
+  const upstream = new GitTestRepo();
+  try {
+    await repo.init();
+    await upstream.initBare();
+
+    // The base remote ("upstream") has a commit the local main doesn't have yet
+    await repo.runCommand('git', ['remote', 'add', 'upstream', upstream.path]);
+    await repo.createFile('upstream-file.txt', 'upstream content');
+    await repo.createCommit('Upstream change');
+    await repo.runCommand('git', ['push', 'upstream', 'main']);
+    await repo.runCommand('git', ['reset', '--hard', 'HEAD~1']);
+
+    const config = createMinimalConfig(repo.path);
+    config.remotes = { base: 'upstream', push: 'origin' };
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await executeCheckout(['fork-feature']);
+
+      const worktreePath = join(repo.path, 'fork-feature');
+      assertEquals(await Deno.readTextFile(join(worktreePath, 'upstream-file.txt')), 'upstream content');
+
+      const remoteCmd = new Deno.Command('git', {
+        args: ['-C', worktreePath, 'config', 'branch.fork-feature.remote'],
+        stdout: 'piped',
+      });
+      const remote = new TextDecoder().decode((await remoteCmd.output()).stdout).trim();
+      assertEquals(remote, 'origin', 'New branch should track the push remote');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+    await upstream.cleanup();
+  }
+});
+
+Deno.test('checkout command - --from a branch without a worktree does not stack on it', async () => {
+  const repo = new GitTestRepo();
+  const remote = new GitTestRepo();
+  try {
+    await repo.init();
+    await remote.initBare();
+    await repo.runCommand('git', ['remote', 'add', 'origin', remote.path]);
+    await repo.runCommand('git', ['push', '-u', 'origin', 'main']);
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    // develop only exists on the remote
+    await repo.runCommand('git', ['push', 'origin', 'main:develop']);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await withMockedExit(() => executeCheckout(['feat-x', '--from', 'develop']));
+
+      const metadata = await getWorktreeMetadata(repo.path, 'feat-x');
+      assertEquals(metadata.sourceBranch, 'develop');
+      assertEquals(metadata.parent, undefined);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+    await remote.cleanup();
+  }
+});
+
+Deno.test('checkout command - --from a branch in a worktree stacks on it without pushing it first', async () => {
+  const repo = new GitTestRepo();
+  const remote = new GitTestRepo();
+  try {
+    await repo.init();
+    await remote.initBare();
+    await repo.runCommand('git', ['remote', 'add', 'origin', remote.path]);
+    await repo.runCommand('git', ['push', '-u', 'origin', 'main']);
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    // feat-a only exists locally, so it can't be fetched
+    const parentPath = await repo.createWorktree('feat-a', 'feat-a');
+    await Deno.writeTextFile(join(parentPath, 'parent.txt'), 'parent');
+    await repo.runCommand('git', ['add', 'parent.txt'], parentPath);
+    await repo.runCommand('git', ['commit', '-m', 'Parent commit'], parentPath);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await withMockedExit(() => executeCheckout(['feat-b', '--from', 'feat-a']));
+
+      assertEquals(await Deno.readTextFile(join(repo.path, 'feat-b', 'parent.txt')), 'parent');
+      const metadata = await getWorktreeMetadata(repo.path, 'feat-b');
+      assertEquals(metadata.parent, 'feat-a');
+      assertEquals(metadata.sourceBranch, 'feat-a');
+      assertEquals(metadata.createdBy, 'checkout');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+    await remote.cleanup();
+  }
+});
+
+Deno.test('checkout command - --template names the branch, starts from the latest tag and locks it', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createFile('version.txt', '1.9.0');
+    await repo.createCommit('Release 1.9.0');
+    await repo.runCommand('git', ['tag', 'v1.9.0']);
+    await repo.createFile('version.txt', '1.10.0');
+    await repo.createCommit('Release 1.10.0');
+    await repo.runCommand('git', ['tag', 'v1.10.0']);
+    await repo.createFile('unreleased.txt', 'unreleased');
+    await repo.createCommit('Unreleased work');
+
+    await repo.createFile('.env', 'env');
+    await repo.createFile('.env.production', 'production');
+    await writeTestConfig(repo.path, {
+      ...createMinimalConfig(repo.path),
+      autoCopyFiles: ['.env'],
+      hooks: { checkout: { post: ['touch installed'] } },
+      templates: {
+        hotfix: {
+          from: 'v*',
+          branch: 'hotfix/{name}',
+          autoCopyFiles: ['.env.production'],
+          hooks: { post: [] },
+          lock: 'Hotfix in progress',
+        },
+      },
+    });
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await withMockedExit(() => executeCheckout(['login-bug', '--template', 'hotfix', '--no-cd']));
+
+      const worktreePath = join(repo.path, 'hotfix', 'login-bug');
+      assertEquals(await Deno.readTextFile(join(worktreePath, 'version.txt')), '1.10.0');
+      assertEquals(await repo.fileExists('hotfix/login-bug/unreleased.txt'), false);
+      assertEquals(await Deno.readTextFile(join(worktreePath, '.env')), 'env');
+      assertEquals(await Deno.readTextFile(join(worktreePath, '.env.production')), 'production');
+      assertEquals(await repo.fileExists('hotfix/login-bug/installed'), false, 'Template replaces the post hooks');
+
+      const worktree = (await listWorktrees()).find((wt) => wt.path === worktreePath);
+      assertEquals(worktree?.branch, 'hotfix/login-bug');
+      assertEquals(worktree?.locked, true);
+
+      const metadata = await getWorktreeMetadata(repo.path, 'hotfix/login-bug');
+      assertEquals(metadata.template, 'hotfix');
+      assertEquals(metadata.sourceBranch, 'v1.10.0');
+      assertEquals(metadata.parent, undefined);
+
+      const { exitCode, stderr } = await withMockedExit(() => executeCheckout(['other', '--template', 'spike']), {
+        captureOutput: true,
+      });
+      assertEquals(exitCode, 1);
+      assertStringIncludes(stderr ?? '', 'Unknown template: spike');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
@@ -3,14 +3,19 @@
  * Creates a new worktree and optionally copies files
  */
 
+import { relative } from '$std/path';
 import { promptAndRunAutoClean } from '../lib/auto-clean.ts';
-import { loadConfig } from '../lib/config.ts';
+import { applyWorktreeTemplate, loadConfig, resolveConfigForBranch } from '../lib/config.ts';
 import { copyFiles } from '../lib/file-ops.ts';
-import { fetchAndGetStartPoint, listWorktrees } from '../lib/git-utils.ts';
-import { executeHooks, type HookVariables } from '../lib/hooks.ts';
+import { fetchAndGetStartPoint, getLatestTag, getRemotes, listWorktrees, lockWorktree } from '../lib/git-utils.ts';
+import { buildHookVariables, executeHooks, substituteVariables } from '../lib/hooks.ts';
+import { allocatePorts } from '../lib/ports.ts';
 import { resolveWorktreePath } from '../lib/path-resolver.ts';
 import { signalNavigation } from '../lib/shell-navigation.ts';
+import { recordCopyResults } from '../lib/sync-state.ts';
+import { recordWorktreeCreation } from '../lib/worktree-metadata.ts';
 import * as output from '../lib/output.ts';
+import type { CopyFile, WorktreeTemplate } from '../lib/types.ts';
 
 /**
  * Check if a branch exists locally
@@ -26,20 +31,75 @@ async function branchExistsLocally(branchName: string): Promise<boolean> {
 }
 
 /**
- * Check if a branch exists (locally or remotely)
+ * Check if a branch exists (locally or on one of the given remotes)
  */
-async function branchExists(branchName: string): Promise<boolean> {
+async function branchExists(branchName: string, remotes: string[]): Promise<boolean> {
   // Check local branch
   if (await branchExistsLocally(branchName)) return true;
 
-  // Check remote branch
-  const remoteCheck = new Deno.Command('git', {
-    args: ['rev-parse', '--verify', `origin/${branchName}`],
+  // Check remote branches
+  for (const remote of new Set(remotes)) {
+    const remoteCheck = new Deno.Command('git', {
+      args: ['rev-parse', '--verify', `${remote}/${branchName}`],
+      stdout: 'null',
+      stderr: 'null',
+    });
+    const remoteResult = await remoteCheck.output();
+    if (remoteResult.code === 0) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Check if a ref resolves to a commit (e.g., a tag or a commit hash)
+ */
+async function refExists(ref: string): Promise<boolean> {
+  const cmd = new Deno.Command('git', {
+    args: ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`],
     stdout: 'null',
     stderr: 'null',
   });
-  const remoteResult = await remoteCheck.output();
-  return remoteResult.code === 0;
+  const result = await cmd.output();
+  return result.code === 0;
+}
+
+/**
+ * Resolve the source of a template: a branch (fetched like --from), or the ref of a
+ * tag or commit to start from as it is. A tag pattern (e.g., "v*") resolves to the
+ * latest matching tag, after fetching tags from the remote.
+ */
+async function resolveTemplateSource(
+  from: string,
+  remotes: { base: string; push: string }
+): Promise<{ branch?: string; ref?: string }> {
+  if (/[*?[]/.test(from)) {
+    // Best effort: without a remote (or offline) the local tags are used
+    await new Deno.Command('git', {
+      args: ['fetch', remotes.base, '--tags', '--quiet'],
+      stdout: 'null',
+      stderr: 'null',
+    }).output();
+
+    const tag = await getLatestTag(from);
+    if (!tag) {
+      output.error(`No tag matches ${output.bold(from)}`);
+      Deno.exit(1);
+    }
+    return { ref: tag };
+  }
+
+  const branchRefs = [
+    `refs/heads/${from}`,
+    ...new Set([remotes.base, remotes.push].map((r) => `refs/remotes/${r}/${from}`)),
+  ];
+  for (const ref of branchRefs) {
+    if (await branchExistsLocally(ref)) {
+      return { branch: from };
+    }
+  }
+
+  return (await refExists(from)) ? { ref: from } : { branch: from };
 }
 
 /**
@@ -130,6 +190,7 @@ function parseCheckoutArgs(args: string[]): {
   gitArgs: string[];
   noNavigate: boolean;
   fromBranch?: string;
+  template?: string;
 } {
   const result = {
     help: false,
@@ -138,6 +199,7 @@ function parseCheckoutArgs(args: string[]): {
     gitArgs: [] as string[],
     noNavigate: false,
     fromBranch: undefined as string | undefined,
+    template: undefined as string | undefined,
   };
 
   // Check for help flag
@@ -174,6 +236,19 @@ function parseCheckoutArgs(args: string[]): {
       continue;
     }
 
+    // Handle --template flag
+    if (arg === '--template' || arg === '-t') {
+      if (i + 1 < args.length) {
+        result.template = args[++i];
+      }
+      continue;
+    }
+
+    if (arg.startsWith('--template=')) {
+      result.template = arg.substring('--template='.length);
+      continue;
+    }
+
     // Git worktree flags that take a value
     if (arg === '-b' || arg === '-B' || arg === '--track') {
       result.gitArgs.push(arg);
@@ -239,6 +314,8 @@ Arguments:
 Options:
   --no-cd                 Don't navigate to the new worktree after creation
   --from <branch>         Create new branch from specified branch instead of defaultBranch
+  -t, --template <name>   Create the worktree from a template in .gw/config.json
+                          (its branch pattern, source, files, hooks, lock and clean policy)
 
   All git worktree add options are supported:
     -b <branch>           Create a new branch (explicit, overrides auto-create)
@@ -259,7 +336,7 @@ Examples:
   # Create worktree from a different branch
   gw checkout feat/new-feature --from develop
 
-  # Create child feature from parent feature
+  # Create child feature from parent feature (recorded as a stack, see 'gw stack')
   gw checkout feat/child-feature --from feat/parent-feature
 
   # Create worktree with explicit branch from specific start point
@@ -268,6 +345,9 @@ Examples:
   # Create worktree and copy specific files (overrides config)
   gw checkout feat/new-feature .env secrets/
 
+  # Create hotfix/login-bug from the "hotfix" template
+  gw checkout login-bug --template hotfix
+
 Aliases:
   gw co                   Short alias for checkout
   gw add                  Backwards-compatible alias
@@ -289,6 +369,7 @@ Network Behavior:
   With --from flag:
     - Requires successful fetch from remote (ensures fresh code)
     - Exits with error if fetch fails (network issues, auth problems)
+    - Uses the local branch without fetching if it's checked out in a worktree
 
   Remote fetch ensures your new branch is based on the latest remote code,
   not an outdated local branch.
@@ -308,6 +389,10 @@ Hooks:
     {worktreePath}  - Full absolute path to the worktree
     {gitRoot}       - The git repository root path
     {branch}        - The branch name
+    {baseBranch}    - The branch the worktree was created from (--from)
+    {defaultBranch}, {repoName}, {remote}, {worktreeSlug}, {prNumber}
+    {port}, {port:<name>} - The worktree's allocated ports (requires "ports")
+    (also exported as GW_WORKTREE, GW_WORKTREE_PATH, GW_BRANCH, ...)
 
   Pre-checkout hooks run before the worktree is created and abort on failure.
   Post-checkout hooks run in the new worktree directory after creation.
@@ -336,7 +421,21 @@ export async function executeCheckout(args: string[]): Promise<void> {
   }
 
   // Load config
-  const { config, gitRoot } = await loadConfig();
+  const { config: baseConfig, gitRoot } = await loadConfig();
+
+  // A template names the branch after its pattern (e.g., "hotfix/{name}")
+  let template: WorktreeTemplate | undefined;
+  if (parsed.template !== undefined) {
+    template = baseConfig.templates?.[parsed.template];
+    if (!template) {
+      const names = Object.keys(baseConfig.templates ?? {});
+      output.error(`Unknown template: ${parsed.template}`);
+      console.log(names.length > 0 ? `Available templates: ${names.join(', ')}` : 'No templates configured');
+      console.log(`Add one under ${output.bold('"templates"')} in .gw/config.json\n`);
+      Deno.exit(1);
+    }
+    parsed.worktreeName = (template.branch ?? '{name}').replaceAll('{name}', parsed.worktreeName);
+  }
 
   // Resolve worktree path (preserves full path including slashes like feat/foo-bar)
   const worktreePath = resolveWorktreePath(gitRoot, parsed.worktreeName);
@@ -350,6 +449,10 @@ export async function executeCheckout(args: string[]): Promise<void> {
     }
   }
 
+  // Apply the overrides matching the branch (e.g., release/* copying different files), then the template
+  const branchConfig = resolveConfigForBranch(baseConfig, branchName);
+  const config = template ? applyWorktreeTemplate(branchConfig, template) : branchConfig;
+
   const worktrees = await listWorktrees();
 
   // Check 1: Is this branch already checked out in a worktree?
@@ -407,13 +510,19 @@ export async function executeCheckout(args: string[]): Promise<void> {
     }
   }
 
+  // Reserve a port range for the new worktree (exposed as {port} variables)
+  if (config.ports) {
+    await allocatePorts(gitRoot, config.ports, relative(gitRoot, worktreePath));
+  }
+
   // Prepare hook variables
-  const hookVariables: HookVariables = {
+  const hookVariables = await buildHookVariables(config, {
     worktree: parsed.worktreeName,
     worktreePath,
     gitRoot,
     branch: branchName,
-  };
+    baseBranch: parsed.fromBranch || template?.from,
+  });
 
   // Get hooks config
   const hooksConfig = config.hooks?.checkout;
@@ -436,12 +545,14 @@ export async function executeCheckout(args: string[]): Promise<void> {
 
   // === Check if we're creating a new branch and handle ref conflicts ===
   const gitArgs = [...parsed.gitArgs];
+  const remotes = getRemotes(config);
   let startPoint: string | undefined;
+  let sourceBranch: string | undefined; // Branch a new branch is created from
   let needsTrackingSetup = false; // Track if we need to set up tracking (new branches AND remote-only branches)
 
   // Determine if we're creating a new branch
   const explicitCreate = hasBranchFlag(gitArgs);
-  const branchExistsAlready = await branchExists(parsed.worktreeName);
+  const branchExistsAlready = await branchExists(parsed.worktreeName, [remotes.push, remotes.base]);
   const willCreateBranch = explicitCreate || !branchExistsAlready;
 
   if (willCreateBranch) {
@@ -453,12 +564,15 @@ export async function executeCheckout(args: string[]): Promise<void> {
 
     // If auto-creating (no explicit -b flag), fetch and prepare
     if (!explicitCreate) {
-      // Auto-create branch from --from or defaultBranch
-      const sourceBranch = parsed.fromBranch || config.defaultBranch || 'main';
+      // Auto-create branch from --from, the template's source or defaultBranch
+      const templateSource =
+        !parsed.fromBranch && template?.from ? await resolveTemplateSource(template.from, remotes) : {};
+      const fromBranch = parsed.fromBranch || templateSource.branch;
+      sourceBranch = fromBranch || templateSource.ref || config.defaultBranch || 'main';
 
       // Validate source branch exists if --from was specified
-      if (parsed.fromBranch) {
-        const sourceBranchExists = await branchExists(sourceBranch);
+      if (fromBranch) {
+        const sourceBranchExists = await branchExists(sourceBranch, [remotes.base, remotes.push]);
         if (!sourceBranchExists) {
           console.log('');
           output.error(`Source branch ${output.bold(sourceBranch)} does not exist locally or remotely`);
@@ -476,66 +590,90 @@ export async function executeCheckout(args: string[]): Promise<void> {
       console.log(
         `Branch ${output.bold(parsed.worktreeName)} doesn't exist, creating from ${output.bold(sourceBranch)}...`
       );
-      console.log(output.dim('Fetching latest from remote to ensure fresh start point...'));
 
-      try {
-        const { startPoint: fetchedStartPoint, fetchSucceeded, message } = await fetchAndGetStartPoint(sourceBranch);
-
-        startPoint = fetchedStartPoint;
+      if (templateSource.ref) {
+        // Tags and commits are used as they are
+        startPoint = templateSource.ref;
         gitArgs.unshift('-b', parsed.worktreeName);
-        needsTrackingSetup = true; // New branch needs tracking setup
-
-        if (fetchSucceeded) {
-          console.log(output.dim('✓ Fetched successfully from remote'));
-          if (message) {
-            // There's a message even though fetch succeeded (e.g., using remote ref)
-            console.log(output.dim(message));
-          }
-          console.log(`Creating from ${output.bold(startPoint)} (latest from remote)`);
-          console.log('');
-        } else {
-          // Check if failure is due to no remote (acceptable) or fetch failure (problematic)
-          const noRemoteConfigured = message && message.includes('No remote');
-
-          // When --from is explicitly specified and remote exists but fetch failed
-          if (parsed.fromBranch && !noRemoteConfigured) {
-            console.log('');
-            output.error(message || 'Could not fetch from remote');
+        needsTrackingSetup = true;
+        console.log(`Creating from ${output.bold(startPoint)}`);
+        console.log('');
+      } else if (fromBranch && (await listWorktrees()).some((wt) => wt.branch === sourceBranch)) {
+        // A source branch checked out in another worktree is used as it is there: the local
+        // branch has the latest commits of a stack, which may not be pushed yet
+        startPoint = sourceBranch;
+        gitArgs.unshift('-b', parsed.worktreeName);
+        needsTrackingSetup = true;
+        console.log(`Creating from ${output.bold(startPoint)} (checked out in a worktree)`);
+        console.log('');
+      } else {
+        console.log(output.dim('Fetching latest from remote to ensure fresh start point...'));
+
+        try {
+          const {
+            startPoint: fetchedStartPoint,
+            fetchSucceeded,
+            message,
+          } = await fetchAndGetStartPoint(sourceBranch, remotes.base);
+
+          startPoint = fetchedStartPoint;
+          gitArgs.unshift('-b', parsed.worktreeName);
+          needsTrackingSetup = true; // New branch needs tracking setup
+
+          if (fetchSucceeded) {
+            console.log(output.dim('✓ Fetched successfully from remote'));
+            if (message) {
+              // There's a message even though fetch succeeded (e.g., using remote ref)
+              console.log(output.dim(message));
+            }
+            console.log(`Creating from ${output.bold(startPoint)} (latest from remote)`);
             console.log('');
-            console.log(`Cannot create branch from ${output.bold(sourceBranch)} because the remote fetch failed.`);
-            console.log('This would use a potentially outdated local branch.');
+          } else {
+            // Check if failure is due to no remote (acceptable) or fetch failure (problematic)
+            const noRemoteConfigured = message && message.includes('No remote');
+
+            // When --from is explicitly specified and remote exists but fetch failed
+            if (fromBranch && !noRemoteConfigured) {
+              console.log('');
+              output.error(message || 'Could not fetch from remote');
+              console.log('');
+              console.log(`Cannot create branch from ${output.bold(sourceBranch)} because the remote fetch failed.`);
+              console.log('This would use a potentially outdated local branch.');
+              console.log('');
+              console.log('Possible causes:');
+              console.log('  • Network connectivity issues');
+              console.log(`  • Branch ${output.bold(sourceBranch)} doesn't exist on remote`);
+              console.log('  • Authentication issues');
+              console.log('');
+              console.log('Options:');
+              console.log(`  1. Check your network connection and try again`);
+              console.log(
+                `  2. Verify the branch exists: ${output.bold(`git ls-remote ${remotes.base} ${sourceBranch}`)}`
+              );
+              console.log(
+                `  3. Use a different source branch: ${output.bold(`gw checkout ${parsed.worktreeName} --from <branch>`)}`
+              );
+              console.log(
+                `  4. Create without --from to use default branch: ${output.bold(`gw checkout ${parsed.worktreeName}`)}`
+              );
+              console.log('');
+              Deno.exit(1);
+            }
+
+            // For default branch (no --from specified) or no remote configured, warn but allow local fallback
             console.log('');
-            console.log('Possible causes:');
-            console.log('  • Network connectivity issues');
-            console.log(`  • Branch ${output.bold(sourceBranch)} doesn't exist on remote`);
-            console.log('  • Authentication issues');
+            output.warning(message || 'Could not fetch from remote');
             console.log('');
-            console.log('Options:');
-            console.log(`  1. Check your network connection and try again`);
-            console.log(`  2. Verify the branch exists: ${output.bold(`git ls-remote origin ${sourceBranch}`)}`);
-            console.log(
-              `  3. Use a different source branch: ${output.bold(`gw checkout ${parsed.worktreeName} --from <branch>`)}`
-            );
-            console.log(
-              `  4. Create without --from to use default branch: ${output.bold(`gw checkout ${parsed.worktreeName}`)}`
-            );
+            console.log(output.dim('Falling back to local branch. The start point may not be up-to-date with remote.'));
+            console.log(output.dim('This is acceptable for offline development or when remote is unavailable.'));
             console.log('');
-            Deno.exit(1);
+            console.log(`Creating from ${output.bold(startPoint)} (local branch)`);
           }
-
-          // For default branch (no --from specified) or no remote configured, warn but allow local fallback
-          console.log('');
-          output.warning(message || 'Could not fetch from remote');
-          console.log('');
-          console.log(output.dim('Falling back to local branch. The start point may not be up-to-date with remote.'));
-          console.log(output.dim('This is acceptable for offline development or when remote is unavailable.'));
-          console.log('');
-          console.log(`Creating from ${output.bold(startPoint)} (local branch)`);
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          output.error(`Failed to prepare branch: ${errorMsg}`);
+          Deno.exit(1);
         }
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        output.error(`Failed to prepare branch: ${errorMsg}`);
-        Deno.exit(1);
       }
     }
   } else {
@@ -567,10 +705,10 @@ export async function executeCheckout(args: string[]): Promise<void> {
   // Set up correct upstream tracking for new branches AND remote-only branches
   // - For local branches: keep existing tracking (don't overwrite)
   // - For remote-only branches: explicitly set tracking (git doesn't always do it reliably)
-  // - For new branches: set tracking to origin/<new-branch-name> so push works without -u
+  // - For new branches: set tracking to <push remote>/<new-branch-name> so push works without -u
   if (needsTrackingSetup && startPoint) {
     const configRemoteCmd = new Deno.Command('git', {
-      args: ['-C', worktreePath, 'config', `branch.${branchName}.remote`, 'origin'],
+      args: ['-C', worktreePath, 'config', `branch.${branchName}.remote`, remotes.push],
       stdout: 'null',
       stderr: 'null',
     });
@@ -585,8 +723,36 @@ export async function executeCheckout(args: string[]): Promise<void> {
     await configMergeCmd.output();
   }
 
+  // Remember how the worktree was created, and the parent of a branch stacked on
+  // another branch (see 'gw list' and 'gw stack')
+  await recordWorktreeCreation(gitRoot, relative(gitRoot, worktreePath), {
+    createdBy: 'checkout',
+    sourceBranch,
+    template: parsed.template,
+    // Only --from a branch checked out in another worktree stacks the branch (a template's source,
+    // or a branch like develop that only exists on the remote, is where it starts, not its parent)
+    parent:
+      sourceBranch === parsed.fromBranch &&
+      sourceBranch !== (config.defaultBranch || 'main') &&
+      worktrees.some((wt) => wt.branch === sourceBranch)
+        ? sourceBranch
+        : undefined,
+  });
+
+  // Lock the worktree if its template asks for it (e.g., read-only reviews)
+  if (template?.lock) {
+    const reason = typeof template.lock === 'string' ? template.lock : `Created with the "${parsed.template}" template`;
+    try {
+      await lockWorktree(worktreePath, reason);
+      console.log(`${output.checkmark()} Locked ${output.dim(`(${reason})`)}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      output.warning(message);
+    }
+  }
+
   // Determine which files to copy
-  let filesToCopy: string[] = [];
+  let filesToCopy: CopyFile[] = [];
 
   if (parsed.files.length > 0) {
     // Files explicitly passed as arguments - use those
@@ -611,22 +777,27 @@ export async function executeCheckout(args: string[]): Promise<void> {
     }
 
     try {
-      const results = await copyFiles(sourcePath, worktreePath, filesToCopy, false);
+      const results = await copyFiles(sourcePath, worktreePath, filesToCopy, false, (content) =>
+        substituteVariables(content, hookVariables)
+      );
+      await recordCopyResults(gitRoot, relative(gitRoot, worktreePath), worktreePath, results);
 
       // Display results
       console.log();
       for (const result of results) {
-        if (result.success) {
+        if (result.success && !result.skipped) {
           console.log(`  ${output.checkmark()} ${result.message}`);
         } else {
           console.log(`  ${output.warningSymbol()} ${result.message}`);
         }
       }
 
-      const successCount = results.filter((r) => r.success).length;
+      // Patterns that matched nothing are only a warning, not a file that failed to copy
+      const copyResults = results.filter((r) => !r.skipped);
+      const successCount = copyResults.filter((r) => r.success).length;
       const fileWord = successCount === 1 ? 'file' : 'files';
       console.log();
-      console.log(`  Copied ${output.bold(`${successCount}/${results.length}`)} ${fileWord}`);
+      console.log(`  Copied ${output.bold(`${successCount}/${copyResults.length}`)} ${fileWord}`);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       output.warning(`Failed to copy files - ${message}`);
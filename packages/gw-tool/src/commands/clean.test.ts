@@ -6,6 +6,7 @@
 import { assertEquals } from '$std/assert';
 import { join } from '$std/path';
 import { executeClean } from './clean.ts';
+import { recordWorktreeCreation } from '../lib/worktree-metadata.ts';
 import { GitTestRepo } from '../test-utils/git-test-repo.ts';
 import { TempCwd } from '../test-utils/temp-env.ts';
 import { createMinimalConfig, writeTestConfig } from '../test-utils/fixtures.ts';
@@ -177,6 +178,98 @@ Deno.test('clean command - with --use-autoclean-threshold only removes old workt
   }
 });
 
+Deno.test('clean command - uses the cleanThreshold of matching branch overrides', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const config = {
+      ...createMinimalConfig(repo.path),
+      overrides: [{ branch: 'spike/*', cleanThreshold: 30 }],
+    };
+    await writeTestConfig(repo.path, config);
+
+    // Both worktrees are 10 days old, but spikes are only stale after 30 days
+    const spikeWorktree = await repo.createWorktree('spike-idea', 'spike/idea');
+    await makeWorktreeOld(spikeWorktree, 10);
+    const featWorktree = await repo.createWorktree('feat-done', 'feat/done');
+    await makeWorktreeOld(featWorktree, 10);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await withMockedStdin('yes', async () => {
+        await withMockedExit(async () => {
+          await executeClean(['--use-autoclean-threshold']);
+        });
+      });
+
+      const worktrees = await repo.listWorktrees();
+      assertEquals(
+        worktrees.some((wt) => wt.includes('spike-idea')),
+        true,
+        'Spike worktree should be kept'
+      );
+      assertEquals(
+        worktrees.some((wt) => wt.includes('feat-done')),
+        false,
+        'Feature worktree should be removed'
+      );
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('clean command - keeps worktrees whose template is never cleaned, even with --force', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const config = {
+      ...createMinimalConfig(repo.path),
+      templates: { review: { branch: 'review/{name}', clean: 'never' as const } },
+    };
+    await writeTestConfig(repo.path, config);
+
+    const reviewWorktree = await repo.createWorktree('review-pr', 'review/pr');
+    await makeWorktreeOld(reviewWorktree, 100);
+    await recordWorktreeCreation(repo.path, 'review-pr', { createdBy: 'checkout', template: 'review' });
+    await repo.createWorktree('feat-done', 'feat/done');
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { stdout } = await withMockedExit(() => executeClean(['--force', '--dry-run', '--json']), {
+        captureOutput: true,
+      });
+      const review = JSON.parse(stdout ?? '{}').worktrees.find((wt: { branch: string }) => wt.branch === 'review/pr');
+      assertEquals(review.canClean, false);
+      assertEquals(review.reason, 'template "review" is never cleaned');
+
+      await withMockedStdin('yes', async () => {
+        await withMockedExit(() => executeClean(['--force']));
+      });
+
+      const worktrees = await repo.listWorktrees();
+      assertEquals(
+        worktrees.some((wt) => wt.includes('review-pr')),
+        true,
+        'Review worktree should be kept'
+      );
+      assertEquals(
+        worktrees.some((wt) => wt.includes('feat-done')),
+        false,
+        'Feature worktree should be removed'
+      );
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
 Deno.test('clean command - skips worktrees with uncommitted changes', async () => {
   const repo = new GitTestRepo();
   try {
@@ -688,3 +781,63 @@ Deno.test('clean command - prunes multiple phantom worktrees at once', async ()
     await repo.cleanup();
   }
 });
+
+Deno.test('clean command - outputs dry-run preview as JSON with --json', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const config = createMinimalConfig(repo.path);
+    await writeTestConfig(repo.path, config);
+
+    const featPath = await repo.createWorktree('feat-branch');
+    const dirtyPath = await repo.createWorktree('dirty-branch');
+    await Deno.writeTextFile(join(dirtyPath, 'wip.txt'), 'wip');
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { exitCode, stdout } = await withMockedExit(() => executeClean(['--dry-run', '--json']), {
+        captureOutput: true,
+      });
+
+      assertEquals(exitCode, 0);
+      const result = JSON.parse(stdout!);
+      assertEquals(result.schemaVersion, 1);
+      assertEquals(result.command, 'clean');
+      assertEquals(result.dryRun, true);
+      assertEquals(result.threshold, null);
+
+      const feat = result.worktrees.find((wt: { path: string }) => wt.path === featPath);
+      const dirty = result.worktrees.find((wt: { path: string }) => wt.path === dirtyPath);
+      assertEquals(feat.canClean, true);
+      assertEquals(feat.reason, null);
+      assertEquals(dirty.canClean, false);
+      assertEquals(dirty.hasUncommitted, true);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('clean command - --json requires --dry-run', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const config = createMinimalConfig(repo.path);
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { exitCode } = await withMockedExit(() => executeClean(['--json']), { captureOutput: true });
+
+      assertEquals(exitCode, 1);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
@@ -3,8 +3,10 @@
  * Remove stale worktrees based on age threshold
  */
 
-import { loadConfig } from '../lib/config.ts';
+import { relative } from '$std/path';
+import { getCleanThreshold, loadConfig, resolveConfigForBranch } from '../lib/config.ts';
 import {
+  getRemotes,
   getWorktreeAgeDays,
   hasUncommittedChanges,
   hasUnpushedCommits,
@@ -13,7 +15,13 @@ import {
   removeWorktree,
   type WorktreeInfo,
 } from '../lib/git-utils.ts';
+import { buildHookVariables, executeCommandHooks } from '../lib/hooks.ts';
+import { JSON_SCHEMA_VERSION, printJson, toJsonWorktree } from '../lib/json-output.ts';
 import * as output from '../lib/output.ts';
+import { releasePorts } from '../lib/ports.ts';
+import { clearSyncState } from '../lib/sync-state.ts';
+import type { CleanJsonOutput } from '../lib/types.ts';
+import { clearWorktreeMetadata, readWorktreeMetadata } from '../lib/worktree-metadata.ts';
 
 /**
  * Parse clean command arguments
@@ -23,12 +31,14 @@ function parseCleanArgs(args: string[]): {
   force: boolean;
   dryRun: boolean;
   useThreshold: boolean;
+  json: boolean;
 } {
   return {
     help: args.includes('--help') || args.includes('-h'),
     force: args.includes('--force') || args.includes('-f'),
     dryRun: args.includes('--dry-run') || args.includes('-n'),
     useThreshold: args.includes('--use-autoclean-threshold'),
+    json: args.includes('--json'),
   };
 }
 
@@ -52,6 +62,7 @@ Options:
   -f, --force                Skip safety checks (uncommitted changes, unpushed commits)
                              WARNING: This may result in data loss
   -n, --dry-run              Preview what would be removed without actually removing
+  --json                     Output the dry-run preview as JSON (requires --dry-run)
   -h, --help                 Show this help message
 
 Safety Features:
@@ -74,6 +85,9 @@ Examples:
   # Preview old worktrees with threshold check
   gw clean --use-autoclean-threshold --dry-run
 
+  # Machine-readable preview
+  gw clean --dry-run --json
+
   # Force remove all worktrees without safety checks (dangerous!)
   gw clean --force
 
@@ -85,6 +99,11 @@ Comparison:
   gw clean --use-autoclean-threshold - Removes only OLD safe worktrees
   gw prune --clean                 - Removes all clean worktrees (no safety checks)
 
+Hooks:
+  Pre-clean hooks (hooks.clean.pre) run inside each worktree before it is
+  removed; a failing hook skips that worktree. Post-clean hooks run in the
+  git root after each removal.
+
 Configuration:
   The clean threshold is stored in .gw/config.json:
   {
@@ -131,14 +150,22 @@ export async function executeClean(args: string[]): Promise<void> {
     Deno.exit(0);
   }
 
+  if (parsed.json && !parsed.dryRun) {
+    output.error('--json requires --dry-run');
+    Deno.exit(1);
+  }
+
   // Load config
-  const { config } = await loadConfig();
+  const { config, gitRoot } = await loadConfig();
   const threshold = config.cleanThreshold ?? 7;
 
-  if (parsed.useThreshold) {
-    output.info(`Checking for worktrees older than ${threshold} days...`);
-  } else {
-    output.info(`Checking for safe worktrees to clean...`);
+  // Keep stdout clean for the JSON payload
+  if (!parsed.json) {
+    if (parsed.useThreshold) {
+      output.info(`Checking for worktrees older than ${threshold} days...`);
+    } else {
+      output.info(`Checking for safe worktrees to clean...`);
+    }
   }
 
   // Prune stale worktree metadata before listing
@@ -158,31 +185,41 @@ export async function executeClean(args: string[]): Promise<void> {
   const defaultBranch = config.defaultBranch || 'main';
   const nonBareWorktrees = worktrees.filter((wt) => !wt.bare && wt.branch !== defaultBranch && wt.branch !== 'gw_root');
 
-  if (nonBareWorktrees.length === 0) {
+  if (nonBareWorktrees.length === 0 && !parsed.json) {
     console.log('No worktrees found.\n');
     Deno.exit(0);
   }
 
-  console.log(`Found ${nonBareWorktrees.length} worktree(s)\n`);
+  if (!parsed.json) {
+    console.log(`Found ${nonBareWorktrees.length} worktree(s)\n`);
+  }
 
   // Analyze each worktree
   const analyzed: CleanableWorktree[] = [];
+  const metadata = await readWorktreeMetadata(gitRoot);
 
   for (const wt of nonBareWorktrees) {
     const ageDays = await getWorktreeAgeDays(wt.path);
 
-    // Skip if not old enough (only when using threshold)
-    if (parsed.useThreshold && ageDays < threshold) {
+    // Skip if not old enough (only when using threshold, which branch overrides and the
+    // clean policy of the worktree's template can change)
+    const template = metadata[relative(gitRoot, wt.path)]?.template;
+    const worktreeThreshold = getCleanThreshold(config, wt.branch, template);
+    if (parsed.useThreshold && worktreeThreshold !== null && ageDays < worktreeThreshold) {
       continue;
     }
 
     const hasUncommitted = await hasUncommittedChanges(wt.path);
-    const hasUnpushed = await hasUnpushedCommits(wt.path);
+    const hasUnpushed = await hasUnpushedCommits(wt.path, getRemotes(config).push);
 
     let canClean = true;
     let reason: string | undefined;
 
-    if (!parsed.force) {
+    if (worktreeThreshold === null) {
+      // Even --force doesn't remove worktrees their template keeps
+      canClean = false;
+      reason = `template "${template}" is never cleaned`;
+    } else if (!parsed.force) {
       if (hasUncommitted) {
         canClean = false;
         reason = 'has uncommitted changes';
@@ -202,6 +239,25 @@ export async function executeClean(args: string[]): Promise<void> {
     });
   }
 
+  if (parsed.json) {
+    const payload: CleanJsonOutput = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      command: 'clean',
+      dryRun: true,
+      threshold: parsed.useThreshold ? threshold : null,
+      worktrees: analyzed.map((wt) => ({
+        ...toJsonWorktree(wt),
+        ageDays: wt.ageDays,
+        canClean: wt.canClean,
+        reason: wt.reason ?? null,
+        hasUncommitted: wt.hasUncommitted,
+        hasUnpushed: wt.hasUnpushed,
+      })),
+    };
+    printJson(payload);
+    Deno.exit(0);
+  }
+
   // Separate cleanable and skipped
   const toClean = analyzed.filter((wt) => wt.canClean);
   const toSkip = analyzed.filter((wt) => !wt.canClean);
@@ -269,11 +325,33 @@ export async function executeClean(args: string[]): Promise<void> {
   }[] = [];
 
   for (const wt of toClean) {
+    const worktreeConfig = resolveConfigForBranch(config, wt.branch);
+    const hookVariables = await buildHookVariables(worktreeConfig, {
+      worktree: relative(gitRoot, wt.path),
+      worktreePath: wt.path,
+      gitRoot,
+      branch: wt.branch,
+    });
+
     try {
       console.log(`Removing ${output.path(wt.branch || wt.path)}...`);
+
+      // Execute pre-clean hooks in the worktree (skip this worktree on failure)
+      if (!(await executeCommandHooks(worktreeConfig.hooks, 'clean', 'pre', wt.path, hookVariables))) {
+        throw new Error('Pre-clean hook failed');
+      }
+
       await removeWorktree(wt.path, parsed.force);
+      await releasePorts(gitRoot, relative(gitRoot, wt.path));
+      await clearSyncState(gitRoot, relative(gitRoot, wt.path));
+      await clearWorktreeMetadata(gitRoot, relative(gitRoot, wt.path));
       results.push({ worktree: wt, success: true });
       console.log(`  ${output.checkmark()} Removed\n`);
+
+      // Execute post-clean hooks in the git root (warn but don't abort on failure)
+      if (!(await executeCommandHooks(worktreeConfig.hooks, 'clean', 'post', gitRoot, hookVariables))) {
+        output.warning('One or more post-clean hooks failed');
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       results.push({ worktree: wt, success: false, error: message });
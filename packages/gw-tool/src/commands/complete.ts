@@ -0,0 +1,22 @@
+/**
+ * Complete command implementation
+ * Hidden command used by the shell completion scripts: prints the candidates for the
+ * word being completed, one per line ("value<TAB>description" when there is a description)
+ */
+
+import { getCompletions } from '../lib/completions.ts';
+
+/**
+ * Execute the __complete command
+ *
+ * @param args Words after 'gw', the last one being the (possibly empty) word to complete
+ * @param commands Command names mapped to their handlers
+ */
+export async function executeComplete(
+  args: string[],
+  commands: Record<string, (args: string[]) => Promise<void>>
+): Promise<void> {
+  for (const candidate of await getCompletions(args, commands)) {
+    console.log(candidate.description ? `${candidate.value}\t${candidate.description}` : candidate.value);
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Tests for config.ts command
+ */
+
+import { assertEquals, assertStringIncludes } from '$std/assert';
+import { join } from '$std/path';
+import { executeConfig } from './config.ts';
+import { loadConfig } from '../lib/config.ts';
+import { GitTestRepo } from '../test-utils/git-test-repo.ts';
+import { TempCwd, TempEnv, TempHome } from '../test-utils/temp-env.ts';
+import { createMinimalConfig, readTestConfig, writeTestConfig } from '../test-utils/fixtures.ts';
+import { withMockedExit } from '../test-utils/mock-exit.ts';
+
+Deno.test('config command - shows help when --help flag is provided', async () => {
+  const { exitCode } = await withMockedExit(() => executeConfig(['--help']));
+
+  assertEquals(exitCode, 0);
+});
+
+Deno.test('config command - sets, adds and removes values and keeps the template', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await executeConfig(['set', 'cleanThreshold', '14']);
+      await executeConfig(['add', 'autoCopyFiles', '.env', 'secrets/']);
+      await executeConfig(['add', 'hooks.checkout.post', 'pnpm install']);
+      await executeConfig(['remove', 'autoCopyFiles', 'secrets/']);
+
+      const config = await readTestConfig(repo.path);
+      assertEquals(config.cleanThreshold, 14);
+      assertEquals(config.autoCopyFiles, ['.env']);
+      assertEquals(config.hooks?.checkout?.post, ['pnpm install']);
+
+      const content = await Deno.readTextFile(join(repo.path, '.gw', 'config.json'));
+      assertStringIncludes(content, '// Auto-Copy Files');
+
+      const { stdout } = await withMockedExit(() => executeConfig(['get', 'defaultBranch']), { captureOutput: true });
+      assertEquals(stdout?.trim(), 'main');
+
+      await executeConfig(['unset', 'hooks.checkout.post']);
+      assertEquals((await readTestConfig(repo.path)).hooks, undefined);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('config command - rejects invalid values', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { exitCode, stderr } = await withMockedExit(() => executeConfig(['set', 'updateStrategy', 'squash']), {
+        captureOutput: true,
+      });
+
+      assertEquals(exitCode, 1);
+      assertStringIncludes(stderr ?? '', 'Cannot change updateStrategy');
+      assertEquals((await readTestConfig(repo.path)).updateStrategy, undefined);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('config command - writes the user and local configs and lists origins', async () => {
+  const repo = new GitTestRepo();
+  const home = new TempHome();
+  try {
+    await repo.init();
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await executeConfig(['set', 'updateStrategy', 'rebase', '--user']);
+      await executeConfig(['set', 'defaultBranch', 'develop', '--local']);
+
+      const { config } = await loadConfig();
+      assertEquals(config.updateStrategy, 'rebase');
+      assertEquals(config.defaultBranch, 'develop');
+
+      const { stdout } = await withMockedExit(() => executeConfig(['list', '--show-origin']), {
+        captureOutput: true,
+      });
+      assertStringIncludes(stdout ?? '', 'user   updateStrategy=rebase');
+      assertStringIncludes(stdout ?? '', 'local  defaultBranch=develop');
+      assertStringIncludes(stdout ?? '', 'repo   cleanThreshold=7');
+
+      const { exitCode, stderr } = await withMockedExit(() => executeConfig(['set', 'root', '/tmp', '--local']), {
+        captureOutput: true,
+      });
+      assertEquals(exitCode, 1);
+      assertStringIncludes(stderr ?? '', 'root can only be set in the repo config');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await home.cleanup();
+    await repo.cleanup();
+  }
+});
+
+Deno.test('config command - edit opens the editor and validates the result', async () => {
+  const repo = new GitTestRepo();
+  const env = new TempEnv();
+  try {
+    await repo.init();
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+    env.delete('VISUAL');
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      env.set('EDITOR', 'sed -i s/main/trunk/');
+      await executeConfig(['edit']);
+      assertEquals((await readTestConfig(repo.path)).defaultBranch, 'trunk');
+
+      env.set('EDITOR', `sed -i 's/"trunk"/42/'`);
+      const { exitCode, stderr } = await withMockedExit(() => executeConfig(['edit']), { captureOutput: true });
+      assertEquals(exitCode, 1);
+      assertStringIncludes(stderr ?? '', 'Invalid configuration file format');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    env.restore();
+    await repo.cleanup();
+  }
+});
@@ -0,0 +1,416 @@
+/**
+ * Config command implementation
+ * Reads and changes configuration values without hand-editing .gw/config.json
+ */
+
+import { getConfigLayerPath, loadConfig, readConfigLayer, saveConfigLayer } from '../lib/config.ts';
+import * as output from '../lib/output.ts';
+import { pathExists } from '../lib/path-resolver.ts';
+import type { Config, ConfigFileLayer, ConfigOrigins } from '../lib/types.ts';
+
+/** Subcommands that change a config file */
+const WRITE_SUBCOMMANDS = ['set', 'unset', 'add', 'remove'];
+
+/**
+ * Show help for the config command
+ */
+function showConfigHelp(): void {
+  console.log(`Usage: gw config <subcommand> [options]
+
+Read and change the configuration.
+
+Values are read from all configuration layers (user, repo, local and GW_*
+environment variables, see the README). Changes are written to the repo
+config (.gw/config.json) unless --user or --local is given, and are
+validated before they are saved. Files are rewritten as the commented
+template 'gw init' generates.
+
+Subcommands:
+  get <key>                Print the value of a key
+  set <key> <value>        Set a key
+  unset <key>              Remove a key
+  add <key> <values...>    Add values to a list (e.g., autoCopyFiles, hooks.checkout.post)
+  remove <key> <values...> Remove values from a list
+  list                     List all values
+  edit                     Open the config file in $VISUAL or $EDITOR
+
+Keys are dot-separated paths, such as defaultBranch, remotes.base or
+hooks.checkout.post. Values are parsed as JSON when possible (numbers,
+true/false, objects), and used as strings otherwise.
+
+Options:
+  --user           Use the user config (~/.gw/config.json)
+  --local          Use the local config (.gw/config.local.json)
+  --show-origin    Show the layer each value comes from (get, list)
+  -h, --help       Show this help message
+
+Examples:
+  gw config get defaultBranch
+  gw config set cleanThreshold 14
+  gw config set updateStrategy rebase --user
+  gw config add autoCopyFiles .env secrets/
+  gw config add hooks.checkout.post "pnpm install"
+  gw config remove autoCopyFiles secrets/
+  gw config list --show-origin
+  gw config edit --local
+`);
+}
+
+/**
+ * Parse config command arguments
+ */
+function parseConfigArgs(args: string[]): {
+  help: boolean;
+  subcommand?: string;
+  key?: string;
+  values: string[];
+  layer?: ConfigFileLayer;
+  showOrigin: boolean;
+} {
+  const positional = args.filter((arg) => !arg.startsWith('-'));
+
+  return {
+    help: args.includes('--help') || args.includes('-h'),
+    subcommand: positional[0],
+    key: positional[1],
+    values: positional.slice(2),
+    layer: args.includes('--user') ? 'user' : args.includes('--local') ? 'local' : undefined,
+    showOrigin: args.includes('--show-origin'),
+  };
+}
+
+/**
+ * Parse a value given on the command line: JSON if possible, a string otherwise
+ */
+function parseValue(raw: string): unknown {
+  try {
+    const value = JSON.parse(raw);
+    return value === null ? raw : value;
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Format a value for output (strings as is, everything else as JSON)
+ */
+function formatValue(value: unknown, pretty = false): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, pretty ? 2 : undefined);
+}
+
+/**
+ * Whether a value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Split a key into its path segments
+ */
+function splitKey(key: string): string[] {
+  const segments = key.split('.');
+  if (segments.some((segment) => segment === '')) {
+    output.error(`Invalid key '${key}'`);
+    Deno.exit(1);
+  }
+  return segments;
+}
+
+/**
+ * Get the value at a key path (undefined if it isn't set)
+ */
+function getValue(config: Config, segments: string[]): unknown {
+  let value: unknown = config;
+  for (const segment of segments) {
+    if (!isPlainObject(value)) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Set the value at a key path, creating the objects along the way
+ */
+function setValue(config: Config, segments: string[], value: unknown): void {
+  let target = config as Record<string, unknown>;
+  for (const segment of segments.slice(0, -1)) {
+    if (target[segment] === undefined) {
+      target[segment] = {};
+    }
+    if (!isPlainObject(target[segment])) {
+      output.error(`Cannot set ${segments.join('.')}: ${segment} is not an object`);
+      Deno.exit(1);
+    }
+    target = target[segment] as Record<string, unknown>;
+  }
+  target[segments.at(-1)!] = value;
+}
+
+/**
+ * Remove the value at a key path, and the objects left empty by it
+ *
+ * @returns Whether the key was set
+ */
+function unsetValue(config: Config, segments: string[]): boolean {
+  const parents: Record<string, unknown>[] = [config as Record<string, unknown>];
+  for (const segment of segments.slice(0, -1)) {
+    const next = parents.at(-1)![segment];
+    if (!isPlainObject(next)) {
+      return false;
+    }
+    parents.push(next);
+  }
+
+  if (parents.at(-1)![segments.at(-1)!] === undefined) {
+    return false;
+  }
+
+  delete parents.at(-1)![segments.at(-1)!];
+  for (let i = parents.length - 1; i > 0 && Object.keys(parents[i]).length === 0; i--) {
+    delete parents[i - 1][segments[i - 1]];
+  }
+  return true;
+}
+
+/**
+ * Whether a list entry matches a value given on the command line
+ * (objects also match by their "path" or "command", e.g. autoCopyFiles entries and hooks)
+ */
+function entryMatches(entry: unknown, value: unknown): boolean {
+  if (JSON.stringify(entry) === JSON.stringify(value)) {
+    return true;
+  }
+  return isPlainObject(entry) && (entry.path === value || entry.command === value);
+}
+
+/**
+ * Flatten a config into key/value pairs (list entries are listed one by one)
+ */
+function flattenConfig(value: unknown, prefix = ''): Array<[string, unknown]> {
+  if (isPlainObject(value)) {
+    return Object.entries(value).flatMap(([key, child]) => flattenConfig(child, prefix ? `${prefix}.${key}` : key));
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry, index): [string, unknown] => [`${prefix}[${index}]`, entry]);
+  }
+  return [[prefix, value]];
+}
+
+/**
+ * Find the layer a value came from (the origin of the nearest key it is part of)
+ */
+function findOrigin(origins: ConfigOrigins, keyPath: string): string {
+  let path = keyPath;
+  while (!origins[path]) {
+    const parent = path.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+    if (parent === path) {
+      return '';
+    }
+    path = parent;
+  }
+  return origins[path];
+}
+
+/**
+ * Read the config to show: a single layer, or the effective config with its origins
+ */
+async function readConfigForDisplay(layer?: ConfigFileLayer): Promise<{ config: Config; origins?: ConfigOrigins }> {
+  if (layer) {
+    const gitRoot = layer === 'user' ? '' : (await loadConfig()).gitRoot;
+    return { config: await readConfigLayer(layer, gitRoot) };
+  }
+  return await loadConfig();
+}
+
+/**
+ * Print the value of a key
+ */
+async function getConfigValue(key: string, layer: ConfigFileLayer | undefined, showOrigin: boolean): Promise<void> {
+  const { config, origins } = await readConfigForDisplay(layer);
+  const value = getValue(config, splitKey(key));
+
+  if (value === undefined) {
+    output.error(`${key} is not set`);
+    Deno.exit(1);
+  }
+
+  const origin = layer ?? findOrigin(origins ?? {}, key);
+  console.log(showOrigin ? `${origin}\t${formatValue(value, true)}` : formatValue(value, true));
+}
+
+/**
+ * List all values
+ */
+async function listConfigValues(layer: ConfigFileLayer | undefined, showOrigin: boolean): Promise<void> {
+  const { config, origins } = await readConfigForDisplay(layer);
+
+  for (const [keyPath, value] of flattenConfig(config)) {
+    const line = `${keyPath}=${formatValue(value)}`;
+    console.log(showOrigin ? `${(layer ?? findOrigin(origins ?? {}, keyPath)).padEnd(5)}  ${line}` : line);
+  }
+}
+
+/**
+ * Change a config file: set, unset, add or remove a value
+ */
+async function changeConfigValue(
+  subcommand: string,
+  key: string,
+  rawValues: string[],
+  layer: ConfigFileLayer
+): Promise<void> {
+  const segments = splitKey(key);
+  const values = rawValues.map(parseValue);
+
+  if (subcommand !== 'unset' && values.length === 0) {
+    output.error(`No value given for ${key}`);
+    console.log(`Usage: gw config ${subcommand} <key> <value${subcommand === 'set' ? '' : 's...'}>`);
+    Deno.exit(1);
+  }
+
+  const gitRoot = layer === 'user' ? '' : (await loadConfig()).gitRoot;
+  const config = await readConfigLayer(layer, gitRoot);
+  const current = getValue(config, segments);
+  let message: string;
+
+  switch (subcommand) {
+    case 'set': {
+      if (values.length > 1) {
+        output.error(`Too many values for ${key} (use 'gw config add' for lists)`);
+        Deno.exit(1);
+      }
+      setValue(config, segments, values[0]);
+      message = `Set ${output.bold(key)} to ${formatValue(values[0])}`;
+      break;
+    }
+    case 'unset': {
+      if (!unsetValue(config, segments)) {
+        output.info(`${output.bold(key)} is not set`);
+        return;
+      }
+      message = `Removed ${output.bold(key)}`;
+      break;
+    }
+    case 'add': {
+      if (current !== undefined && !Array.isArray(current)) {
+        output.error(`${key} is not a list`);
+        Deno.exit(1);
+      }
+      const list = (current as unknown[] | undefined) ?? [];
+      const added = values.filter((value) => !list.some((entry) => entryMatches(entry, value)));
+      setValue(config, segments, [...list, ...added]);
+      message = `Added ${added.length} value(s) to ${output.bold(key)}`;
+      break;
+    }
+    default: {
+      if (!Array.isArray(current)) {
+        output.error(`${key} is not a list`);
+        Deno.exit(1);
+      }
+      const remaining = current.filter((entry) => !values.some((value) => entryMatches(entry, value)));
+      if (remaining.length === current.length) {
+        output.error(`${key} doesn't contain ${rawValues.join(', ')}`);
+        Deno.exit(1);
+      }
+      if (remaining.length > 0) {
+        setValue(config, segments, remaining);
+      } else {
+        unsetValue(config, segments);
+      }
+      message = `Removed ${current.length - remaining.length} value(s) from ${output.bold(key)}`;
+      break;
+    }
+  }
+
+  try {
+    await saveConfigLayer(layer, gitRoot, config);
+  } catch (error) {
+    output.error(`Cannot change ${key}: ${error instanceof Error ? error.message : String(error)}`);
+    Deno.exit(1);
+  }
+
+  output.success(`${message} ${output.dim(`(${getConfigLayerPath(layer, gitRoot)})`)}`);
+}
+
+/**
+ * Open a config file in the user's editor, and validate it afterwards
+ */
+async function editConfig(layer: ConfigFileLayer): Promise<void> {
+  const gitRoot = layer === 'user' ? '' : (await loadConfig()).gitRoot;
+  const path = getConfigLayerPath(layer, gitRoot);
+
+  if (!path) {
+    output.error('Cannot locate the user config (HOME is not set)');
+    Deno.exit(1);
+  }
+
+  // Start new files from the commented template
+  if (!(await pathExists(path))) {
+    await saveConfigLayer(layer, gitRoot, {});
+  }
+
+  const editor = Deno.env.get('VISUAL') || Deno.env.get('EDITOR') || 'vi';
+  const { code } = await new Deno.Command('sh', {
+    args: ['-c', `${editor} "$1"`, 'sh', path],
+    stdin: 'inherit',
+    stdout: 'inherit',
+    stderr: 'inherit',
+  }).output();
+
+  if (code !== 0) {
+    output.error(`Editor exited with code ${code}`);
+    Deno.exit(1);
+  }
+
+  try {
+    await readConfigLayer(layer, gitRoot);
+  } catch (error) {
+    output.error(error instanceof Error ? error.message : String(error));
+    console.error("Run 'gw config edit' again to fix it\n");
+    Deno.exit(1);
+  }
+
+  output.success(`Saved ${output.path(path)}`);
+}
+
+/**
+ * Execute the config command
+ *
+ * @param args Command-line arguments for the config command
+ */
+export async function executeConfig(args: string[]): Promise<void> {
+  const parsed = parseConfigArgs(args);
+
+  if (parsed.help || !parsed.subcommand) {
+    showConfigHelp();
+    Deno.exit(parsed.help ? 0 : 1);
+  }
+
+  if ((parsed.subcommand === 'get' || WRITE_SUBCOMMANDS.includes(parsed.subcommand)) && !parsed.key) {
+    output.error('Key is required');
+    console.log(`Usage: gw config ${parsed.subcommand} <key>${parsed.subcommand === 'get' ? '' : ' [values...]'}`);
+    Deno.exit(1);
+  }
+
+  switch (parsed.subcommand) {
+    case 'get':
+      await getConfigValue(parsed.key!, parsed.layer, parsed.showOrigin);
+      break;
+    case 'list':
+      await listConfigValues(parsed.layer, parsed.showOrigin);
+      break;
+    case 'edit':
+      await editConfig(parsed.layer ?? 'repo');
+      break;
+    default:
+      if (!WRITE_SUBCOMMANDS.includes(parsed.subcommand)) {
+        output.error(`Unknown subcommand '${parsed.subcommand}'`);
+        showConfigHelp();
+        Deno.exit(1);
+      }
+      await changeConfigValue(parsed.subcommand, parsed.key!, parsed.values, parsed.layer ?? 'repo');
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Tests for the hooks command
+ */
+
+import { assertEquals, assertStringIncludes } from '$std/assert';
+import { executeHooksCommand } from './hooks.ts';
+import { GitTestRepo } from '../test-utils/git-test-repo.ts';
+import { TempCwd } from '../test-utils/temp-env.ts';
+import { createConfigWithHooks, writeTestConfig } from '../test-utils/fixtures.ts';
+import { withMockedExit } from '../test-utils/mock-exit.ts';
+
+Deno.test('hooks command - shows help when --help flag is provided', async () => {
+  const { exitCode } = await withMockedExit(async () => {
+    await executeHooksCommand(['--help']);
+  });
+
+  assertEquals(exitCode, 0);
+});
+
+Deno.test('hooks command - rejects unknown hook types', async () => {
+  const { exitCode, stderr } = await withMockedExit(
+    async () => {
+      await executeHooksCommand(['run', 'post-delete']);
+    },
+    { captureOutput: true }
+  );
+
+  assertEquals(exitCode, 1);
+  assertStringIncludes(stderr!, "Unknown hook type 'post-delete'");
+});
+
+Deno.test('hooks command - run executes configured hooks and log shows the run', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await writeTestConfig(repo.path, createConfigWithHooks(repo.path, [], ['echo "setup {worktree}"']));
+    const worktreePath = await repo.createWorktree('feat-hooks');
+
+    const cwd = new TempCwd(worktreePath);
+    try {
+      const run = await withMockedExit(
+        async () => {
+          await executeHooksCommand(['run', 'post-checkout']);
+        },
+        { captureOutput: true }
+      );
+      assertEquals(run.exitCode, undefined);
+      assertStringIncludes(run.stdout!, 'setup feat-hooks');
+
+      const log = await withMockedExit(
+        async () => {
+          await executeHooksCommand(['log']);
+        },
+        { captureOutput: true }
+      );
+      assertEquals(log.exitCode, undefined);
+      assertStringIncludes(log.stdout!, 'post-checkout');
+      assertStringIncludes(log.stdout!, 'echo "setup feat-hooks"');
+      assertStringIncludes(log.stdout!, 'exit 0');
+      assertStringIncludes(log.stdout!, 'setup feat-hooks');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('hooks command - run exits with error when hooks fail', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await writeTestConfig(repo.path, createConfigWithHooks(repo.path, [], ['exit 4']));
+    const worktreePath = await repo.createWorktree('feat-failing');
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { exitCode } = await withMockedExit(
+        async () => {
+          await executeHooksCommand(['run', 'post-checkout', 'feat-failing']);
+        },
+        { captureOutput: true }
+      );
+      assertEquals(exitCode, 1);
+
+      const log = await withMockedExit(
+        async () => {
+          await executeHooksCommand(['log', worktreePath]);
+        },
+        { captureOutput: true }
+      );
+      assertStringIncludes(log.stdout!, 'exit 4');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
@@ -0,0 +1,268 @@
+/**
+ * Hooks command implementation
+ * Shows the hook log of a worktree and re-runs configured hooks on demand
+ */
+
+import { relative } from '$std/path';
+import { loadConfig } from '../lib/config.ts';
+import { getCurrentBranch, getCurrentWorktreePath } from '../lib/git-utils.ts';
+import { readHookLog } from '../lib/hook-log.ts';
+import { buildHookVariables, executeHooks, HOOK_COMMANDS } from '../lib/hooks.ts';
+import { resolveWorktreePath, validatePathExists } from '../lib/path-resolver.ts';
+import * as output from '../lib/output.ts';
+import type { HookCommand } from '../lib/types.ts';
+
+/** Number of hook runs shown by 'gw hooks log' by default */
+const DEFAULT_LOG_LIMIT = 10;
+
+/** Number of output lines shown per hook run unless --full is given */
+const OUTPUT_PREVIEW_LINES = 20;
+
+/**
+ * Hook types that run in the git root rather than the worktree
+ * (matches where the commands themselves run these hooks)
+ */
+const GIT_ROOT_HOOK_TYPES = ['pre-checkout', 'pre-pr', 'post-remove', 'post-clean'];
+
+/**
+ * Show help for the hooks command
+ */
+function showHooksHelp(): void {
+  console.log(`Usage: gw hooks <subcommand> [options]
+
+Inspect and run the hooks configured in .gw/config.json.
+
+Every hook run is recorded (with its command, exit code, and duration) in a
+per-worktree log under .gw/logs/. Output is recorded when gw's output isn't
+a terminal; in a terminal, hooks write to it directly.
+
+Subcommands:
+  log [worktree]               Show recent hook runs for a worktree
+  run <hook-type> [worktree]   Run the configured hooks of a type (e.g., post-checkout)
+
+The worktree defaults to the current worktree.
+
+Options:
+  -n, --limit <n>    Number of hook runs to show (default: ${DEFAULT_LOG_LIMIT})
+  --full             Show the complete output of each run (default: last ${OUTPUT_PREVIEW_LINES} lines)
+  -h, --help         Show this help message
+
+Hook types:
+  pre-<command>, post-<command> where <command> is one of:
+  ${HOOK_COMMANDS.join(', ')}
+
+Examples:
+  gw hooks log
+  gw hooks log feat/login --limit 3
+  gw hooks run post-checkout
+  gw hooks run post-checkout feat/login
+`);
+}
+
+/**
+ * Parse hooks command arguments
+ */
+function parseHooksArgs(args: string[]): {
+  help: boolean;
+  subcommand?: string;
+  positional: string[];
+  limit: number;
+  full: boolean;
+} {
+  const result = {
+    help: false,
+    subcommand: undefined as string | undefined,
+    positional: [] as string[],
+    limit: DEFAULT_LOG_LIMIT,
+    full: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--help' || arg === '-h') {
+      result.help = true;
+    } else if ((arg === '--limit' || arg === '-n') && i + 1 < args.length) {
+      const limit = parseInt(args[++i], 10);
+      if (isNaN(limit) || limit < 1) {
+        output.error('--limit must be a positive number');
+        Deno.exit(1);
+      }
+      result.limit = limit;
+    } else if (arg === '--full') {
+      result.full = true;
+    } else if (!arg.startsWith('-')) {
+      if (result.subcommand === undefined) {
+        result.subcommand = arg;
+      } else {
+        result.positional.push(arg);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolve a worktree argument (or the current worktree) to its name and path
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name or path (defaults to the current worktree)
+ */
+async function resolveWorktree(gitRoot: string, worktree?: string): Promise<{ name: string; path: string }> {
+  let path: string;
+
+  if (worktree) {
+    path = resolveWorktreePath(gitRoot, worktree);
+  } else {
+    path = await getCurrentWorktreePath();
+    if (!path) {
+      output.error('Worktree required (not currently inside a worktree)');
+      Deno.exit(1);
+    }
+  }
+
+  return { name: relative(gitRoot, path) || '.', path };
+}
+
+/**
+ * Parse a hook type such as "post-checkout" into its phase and command
+ */
+function parseHookType(hookType: string): { phase: 'pre' | 'post'; command: HookCommand } | null {
+  const match = hookType.match(/^(pre|post)-(.+)$/);
+  if (!match || !HOOK_COMMANDS.includes(match[2] as HookCommand)) {
+    return null;
+  }
+
+  return { phase: match[1] as 'pre' | 'post', command: match[2] as HookCommand };
+}
+
+/**
+ * Show recent hook runs for a worktree
+ */
+async function showHookLog(gitRoot: string, worktree: string | undefined, limit: number, full: boolean): Promise<void> {
+  const { name } = await resolveWorktree(gitRoot, worktree);
+  const entries = (await readHookLog(gitRoot, name)).slice(-limit).reverse();
+
+  if (entries.length === 0) {
+    console.log(`No hook runs recorded for ${output.bold(name)}`);
+    return;
+  }
+
+  console.log(`Recent hook runs for ${output.bold(name)} (newest first):\n`);
+
+  for (const entry of entries) {
+    const timestamp = new Date(entry.timestamp).toLocaleString();
+    const duration = `${(entry.durationMs / 1000).toFixed(1)}s`;
+
+    let status: string;
+    if (entry.background) {
+      status =
+        entry.exitCode === null
+          ? `${output.checkmark()} started in background`
+          : `${output.errorSymbol()} failed to start`;
+    } else if (entry.timedOut) {
+      status = `${output.errorSymbol()} timed out after ${duration}`;
+    } else if (entry.exitCode === 0) {
+      status = `${output.checkmark()} exit 0 ${output.dim(`(${duration})`)}`;
+    } else {
+      status = `${output.errorSymbol()} exit ${entry.exitCode} ${output.dim(`(${duration})`)}`;
+    }
+
+    console.log(`${output.dim(timestamp)}  ${output.bold(entry.hookType)}  ${status}`);
+    console.log(`  ${output.dim('$')} ${entry.command}`);
+
+    const lines = entry.output ? entry.output.replace(/\n$/, '').split('\n') : [];
+    const shown = full ? lines : lines.slice(-OUTPUT_PREVIEW_LINES);
+
+    if (shown.length < lines.length) {
+      console.log(output.dim(`  ... ${lines.length - shown.length} earlier lines (use --full to show)`));
+    }
+    for (const line of shown) {
+      console.log(`  ${output.dim('│')} ${line}`);
+    }
+
+    console.log();
+  }
+}
+
+/**
+ * Run the configured hooks of a type for a worktree
+ */
+async function runHooks(hookType: string | undefined, worktree: string | undefined): Promise<void> {
+  if (!hookType) {
+    output.error('Hook type required (e.g., post-checkout)');
+    showHooksHelp();
+    Deno.exit(1);
+  }
+
+  const parsedType = parseHookType(hookType);
+  if (!parsedType) {
+    output.error(`Unknown hook type '${hookType}'`);
+    console.error(`Hook types are pre-<command> or post-<command> for: ${HOOK_COMMANDS.join(', ')}\n`);
+    Deno.exit(1);
+  }
+
+  const { config, gitRoot } = await loadConfig();
+  const hooks = config.hooks?.[parsedType.command]?.[parsedType.phase] ?? [];
+
+  if (hooks.length === 0) {
+    output.error(`No ${hookType} hooks configured in .gw/config.json`);
+    Deno.exit(1);
+  }
+
+  const { name, path } = await resolveWorktree(gitRoot, worktree);
+
+  try {
+    await validatePathExists(path, 'directory');
+  } catch (_error) {
+    output.error(`Worktree not found: ${output.path(path)}`);
+    Deno.exit(1);
+  }
+
+  const variables = await buildHookVariables(config, {
+    worktree: name,
+    worktreePath: path,
+    gitRoot,
+    branch: await getCurrentBranch(path),
+  });
+  const cwd = GIT_ROOT_HOOK_TYPES.includes(hookType) ? gitRoot : path;
+
+  const { allSuccessful } = await executeHooks(hooks, cwd, variables, hookType, false);
+
+  if (!allSuccessful) {
+    output.error(`One or more ${hookType} hooks failed`);
+    Deno.exit(1);
+  }
+
+  output.success(`All ${hookType} hooks completed`);
+}
+
+/**
+ * Execute the hooks command
+ *
+ * @param args Command-line arguments for the hooks command
+ */
+export async function executeHooksCommand(args: string[]): Promise<void> {
+  const parsed = parseHooksArgs(args);
+
+  if (parsed.help || !parsed.subcommand) {
+    showHooksHelp();
+    Deno.exit(parsed.help ? 0 : 1);
+  }
+
+  switch (parsed.subcommand) {
+    case 'log': {
+      const { gitRoot } = await loadConfig();
+      await showHookLog(gitRoot, parsed.positional[0], parsed.limit, parsed.full);
+      break;
+    }
+    case 'run':
+      await runHooks(parsed.positional[0], parsed.positional[1]);
+      break;
+    default:
+      output.error(`Unknown subcommand '${parsed.subcommand}'`);
+      showHooksHelp();
+      Deno.exit(1);
+  }
+}
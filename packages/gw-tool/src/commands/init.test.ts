@@ -312,6 +312,7 @@ Deno.test('init command - interactive mode with all defaults', async () => {
         '', // clean threshold (accept default 7)
         'n', // enable auto-clean
         '', // update strategy (accept default "merge")
+        'n', // want worktree templates
       ];
 
       await withMockedPrompt(responses, () => executeInit(['--interactive']));
@@ -349,6 +350,7 @@ Deno.test('init command - interactive mode with custom values', async () => {
         '14', // clean threshold
         'y', // enable auto-clean
         'rebase', // update strategy
+        'n', // want worktree templates
       ];
 
       await withMockedPrompt(responses, () => executeInit(['--interactive']));
@@ -369,6 +371,60 @@ Deno.test('init command - interactive mode with custom values', async () => {
   }
 });
 
+Deno.test('init command - interactive mode with worktree templates', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const responses = [
+        '', // default branch
+        'n', // want auto-copy files
+        'n', // want pre-add hooks
+        'n', // want post-add hooks
+        '', // clean threshold
+        'n', // enable auto-clean
+        '', // update strategy
+        'y', // want worktree templates
+        'hotfix', // template 1 name
+        '', // branch pattern (default "hotfix/{name}")
+        'v*', // start from the latest v* tag
+        '.env.production', // extra files
+        'n', // skip post-checkout hooks
+        'y', // lock
+        'never', // clean policy
+        'spike', // template 2 name
+        'exp/{name}', // branch pattern
+        '', // start from defaultBranch
+        '', // no extra files
+        'y', // skip post-checkout hooks
+        'n', // lock
+        '30', // clean policy
+        '', // template name (blank to finish)
+      ];
+
+      await withMockedPrompt(responses, () => executeInit(['--interactive']));
+
+      const config = await readTestConfig(repo.path);
+      assertEquals(config.templates, {
+        hotfix: {
+          branch: 'hotfix/{name}',
+          from: 'v*',
+          autoCopyFiles: ['.env.production'],
+          lock: true,
+          clean: 'never',
+        },
+        spike: { branch: 'exp/{name}', hooks: { post: [] }, clean: 30 },
+      });
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
 Deno.test('init command - interactive mode with multiple hooks', async () => {
   const repo = new GitTestRepo();
   try {
@@ -390,6 +446,7 @@ Deno.test('init command - interactive mode with multiple hooks', async () => {
         '', // clean threshold (default)
         'n', // enable auto-clean
         '', // update strategy (default)
+        'n', // want worktree templates
       ];
 
       await withMockedPrompt(responses, () => executeInit(['--interactive']));
@@ -422,6 +479,7 @@ Deno.test('init command - interactive mode with CLI flags takes precedence', asy
         '21', // clean threshold (should be ignored, CLI has "10")
         'y', // enable auto-clean (should be ignored, no CLI flag)
         'rebase', // update strategy (should be ignored, CLI has "merge")
+        'n', // want worktree templates
       ];
 
       await withMockedPrompt(responses, () =>
@@ -470,6 +528,7 @@ Deno.test('init command - interactive mode with invalid clean threshold', async
         'invalid', // clean threshold (invalid, should use default)
         'n', // enable auto-clean
         '', // update strategy (default)
+        'n', // want worktree templates
       ];
 
       await withMockedPrompt(responses, () => executeInit(['--interactive']));
@@ -503,6 +562,7 @@ Deno.test("init command - interactive mode accepts 'yes' and 'y' responses", asy
         '', // clean threshold (default)
         'yes', // enable auto-clean (using "yes")
         '', // update strategy (default)
+        'n', // want worktree templates
       ];
 
       await withMockedPrompt(responses, () => executeInit(['--interactive']));
@@ -534,6 +594,7 @@ Deno.test('init command - interactive mode declining all optional features', asy
         '7', // clean threshold
         'n', // enable auto-clean
         '', // update strategy (default)
+        'n', // want worktree templates
       ];
 
       await withMockedPrompt(responses, () => executeInit(['--interactive']));
@@ -568,6 +629,7 @@ Deno.test('init command - interactive mode with whitespace in responses', async
         ' 10 ', // clean threshold with whitespace (should be parsed)
         'n', // enable auto-clean
         ' merge ', // update strategy with whitespace (should be trimmed)
+        'n', // want worktree templates
       ];
 
       await withMockedPrompt(responses, () => executeInit(['--interactive']));
@@ -791,6 +853,7 @@ Deno.test('init command - interactive mode prompts for URL when not in git repo'
           '', // clean threshold (accept default 7)
           'n', // enable auto-clean
           '', // update strategy (accept default "merge")
+          'n', // want worktree templates
           'n', // shell integration install prompt (decline)
         ];
 
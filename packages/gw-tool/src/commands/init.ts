@@ -5,8 +5,9 @@
 
 import { join, resolve } from '$std/path';
 import { saveConfigTemplate } from '../lib/config.ts';
+import { normalizeCopyFile } from '../lib/file-ops.ts';
 import { findGitRoot, pathExists, validatePathExists } from '../lib/path-resolver.ts';
-import type { Config } from '../lib/types.ts';
+import type { Config, WorktreeTemplate } from '../lib/types.ts';
 import * as output from '../lib/output.ts';
 import { showLogo } from '../lib/cli.ts';
 import { signalNavigation } from '../lib/shell-navigation.ts';
@@ -59,6 +60,8 @@ interface ParsedInitArgs {
   cleanThreshold?: number;
   autoClean?: boolean;
   updateStrategy?: 'merge' | 'rebase';
+  updateAutostash?: boolean;
+  templates?: Record<string, WorktreeTemplate>;
   repoUrl?: string;
   targetDirectory?: string;
 }
@@ -115,6 +118,8 @@ function parseInitArgs(args: string[]): ParsedInitArgs {
       } else {
         throw new Error("--update-strategy must be either 'merge' or 'rebase'");
       }
+    } else if (arg === '--update-autostash') {
+      result.updateAutostash = true;
     } else if (!arg.startsWith('-')) {
       // Collect positional args (non-flags)
       positionalArgs.push(arg);
@@ -275,6 +280,7 @@ function promptForConfig(): {
   cleanThreshold?: number;
   autoClean?: boolean;
   updateStrategy?: 'merge' | 'rebase';
+  templates?: Record<string, WorktreeTemplate>;
 } {
   console.log();
   console.log();
@@ -291,6 +297,7 @@ function promptForConfig(): {
     cleanThreshold?: number;
     autoClean?: boolean;
     updateStrategy?: 'merge' | 'rebase';
+    templates?: Record<string, WorktreeTemplate>;
   } = {};
 
   // Default branch
@@ -318,7 +325,7 @@ function promptForConfig(): {
   const wantPreHooks = prompt(`Do you want to add pre-checkout hooks? (y/n) [${output.dim('n')}]: `);
   if (wantPreHooks?.toLowerCase() === 'y' || wantPreHooks?.toLowerCase() === 'yes') {
     console.log(output.dim('  Enter commands to run before creating worktrees'));
-    console.log(output.dim('  Variables: {worktree}, {worktreePath}, {gitRoot}, {branch}'));
+    console.log(output.dim('  Variables: {worktree}, {worktreePath}, {gitRoot}, {branch}, {worktreeSlug}, ...'));
     const preHooks: string[] = [];
     let hookNum = 1;
     while (true) {
@@ -337,7 +344,7 @@ function promptForConfig(): {
   const wantPostHooks = prompt(`Do you want to add post-checkout hooks? (y/n) [${output.dim('n')}]: `);
   if (wantPostHooks?.toLowerCase() === 'y' || wantPostHooks?.toLowerCase() === 'yes') {
     console.log(output.dim('  Enter commands to run after creating worktrees'));
-    console.log(output.dim('  Variables: {worktree}, {worktreePath}, {gitRoot}, {branch}'));
+    console.log(output.dim('  Variables: {worktree}, {worktreePath}, {gitRoot}, {branch}, {worktreeSlug}, ...'));
     const postHooks: string[] = [];
     let hookNum = 1;
     while (true) {
@@ -382,10 +389,88 @@ function promptForConfig(): {
     }
   }
 
+  // Worktree templates
+  console.log();
+  const wantTemplates = prompt(
+    `Do you want to add worktree templates (e.g., hotfix, spike)? (y/n) [${output.dim('n')}]: `
+  );
+  if (wantTemplates?.toLowerCase() === 'y' || wantTemplates?.toLowerCase() === 'yes') {
+    console.log(output.dim('  Create worktrees from a template with: gw checkout <name> --template <template>'));
+    const templates: Record<string, WorktreeTemplate> = {};
+    while (true) {
+      const nameInput = prompt('  Template name (leave blank to finish): ');
+      if (!nameInput || !nameInput.trim()) break;
+      templates[nameInput.trim()] = promptForTemplate(nameInput.trim());
+    }
+    if (Object.keys(templates).length > 0) {
+      config.templates = templates;
+    }
+  }
+
   console.log();
   return config;
 }
 
+/**
+ * Prompt for the settings of a worktree template in interactive mode
+ */
+function promptForTemplate(name: string): WorktreeTemplate {
+  const defaultPattern = `${name}/{name}`;
+  const template: WorktreeTemplate = { branch: defaultPattern };
+
+  // Branch name pattern
+  const branchInput = prompt(`    Branch name pattern [${output.dim(defaultPattern)}]: `);
+  if (branchInput && branchInput.trim()) {
+    if (branchInput.includes('{name}')) {
+      template.branch = branchInput.trim();
+    } else {
+      output.warning(`The pattern must contain {name}, using default (${defaultPattern})`);
+    }
+  }
+
+  // Source branch or ref
+  const fromInput = prompt(`    Start from (branch, ref or tag pattern like v*) [${output.dim('defaultBranch')}]: `);
+  if (fromInput && fromInput.trim()) {
+    template.from = fromInput.trim();
+  }
+
+  // Extra auto-copy files
+  const filesInput = prompt('    Extra files to auto-copy (comma-separated, leave blank for none): ');
+  if (filesInput && filesInput.trim()) {
+    template.autoCopyFiles = filesInput
+      .split(',')
+      .map((f) => f.trim())
+      .filter((f) => f);
+  }
+
+  // Skip the post-checkout hooks (e.g., no install step for spikes)
+  const skipHooksInput = prompt(`    Skip the post-checkout hooks? (y/n) [${output.dim('n')}]: `);
+  if (skipHooksInput?.toLowerCase() === 'y' || skipHooksInput?.toLowerCase() === 'yes') {
+    template.hooks = { post: [] };
+  }
+
+  // Lock on create
+  const lockInput = prompt(`    Lock new worktrees against removal? (y/n) [${output.dim('n')}]: `);
+  if (lockInput?.toLowerCase() === 'y' || lockInput?.toLowerCase() === 'yes') {
+    template.lock = true;
+  }
+
+  // Clean policy
+  const cleanInput = prompt(`    Days before stale, or "never" [${output.dim('cleanThreshold')}]: `);
+  if (cleanInput && cleanInput.trim()) {
+    const value = cleanInput.trim().toLowerCase();
+    if (value === 'never') {
+      template.clean = 'never';
+    } else if (/^\d+$/.test(value)) {
+      template.clean = parseInt(value, 10);
+    } else {
+      output.warning('Invalid value, using cleanThreshold');
+    }
+  }
+
+  return template;
+}
+
 /**
  * Show help for the init command
  */
@@ -413,6 +498,7 @@ Options:
   --auto-clean                    Prompt to cleanup stale worktrees (after add/list, 24h cooldown)
   --update-strategy <strategy>    Set default update strategy: 'merge' or 'rebase'
                                   (default: merge)
+  --update-autostash              Stash uncommitted changes around 'gw update'
   -h, --help                      Show this help message
 
 Hook Variables:
@@ -421,6 +507,17 @@ Hook Variables:
     {worktreePath}  - Full absolute path to the worktree
     {gitRoot}       - The git repository root path
     {branch}        - The branch name
+    {defaultBranch} - The configured default branch
+    {repoName}      - The repository name
+    {baseBranch}    - The branch the worktree was created/updated from
+    {prNumber}      - The pull request number (gw pr only)
+    {remote}        - The remote used for fetching (e.g., "origin")
+    {worktreeSlug}  - The worktree name made safe for file/docker names
+    {port}          - First port of the worktree's range (requires "ports")
+    {port:<name>}   - A named port from ports.named (e.g., {port:api})
+  Each variable is also exported to hooks as an environment variable
+  (GW_WORKTREE, GW_WORKTREE_PATH, GW_GIT_ROOT, GW_BRANCH, GW_DEFAULT_BRANCH, ...).
+  Unknown {placeholders} are rejected when the config is loaded.
 
 Clone Examples:
   # Clone and initialize (creates repo.git/ directory, auto-navigates to it)
@@ -517,6 +614,16 @@ function buildConfigFromArgs(parsed: ParsedInitArgs): Partial<Config> {
     config.updateStrategy = parsed.updateStrategy;
   }
 
+  // Add updateAutostash if provided
+  if (parsed.updateAutostash !== undefined) {
+    config.updateAutostash = parsed.updateAutostash;
+  }
+
+  // Add templates if provided
+  if (parsed.templates) {
+    config.templates = parsed.templates;
+  }
+
   return config;
 }
 
@@ -583,6 +690,9 @@ async function initializeFromClone(parsed: ParsedInitArgs): Promise<void> {
       if (interactiveConfig.updateStrategy && !parsed.updateStrategy) {
         parsed.updateStrategy = interactiveConfig.updateStrategy;
       }
+      if (interactiveConfig.templates && !parsed.templates) {
+        parsed.templates = interactiveConfig.templates;
+      }
     }
 
     // Build config from parsed args (this handles the hook structure conversion)
@@ -773,6 +883,9 @@ async function initializeExistingRepo(parsed: ParsedInitArgs): Promise<void> {
     if (interactiveConfig.updateStrategy && !parsed.updateStrategy) {
       parsed.updateStrategy = interactiveConfig.updateStrategy;
     }
+    if (interactiveConfig.templates && !parsed.templates) {
+      parsed.templates = interactiveConfig.templates;
+    }
   }
 
   // Create config
@@ -815,6 +928,16 @@ async function initializeExistingRepo(parsed: ParsedInitArgs): Promise<void> {
     config.updateStrategy = parsed.updateStrategy;
   }
 
+  // Add updateAutostash if provided
+  if (parsed.updateAutostash !== undefined) {
+    config.updateAutostash = parsed.updateAutostash;
+  }
+
+  // Add templates if provided
+  if (parsed.templates) {
+    config.templates = parsed.templates;
+  }
+
   // Save config at the git root (so it can be found by all worktrees)
   try {
     await saveConfigTemplate(rootPath, config);
@@ -823,7 +946,8 @@ async function initializeExistingRepo(parsed: ParsedInitArgs): Promise<void> {
     console.log(`  Repository root: ${output.path(rootPath)}`);
     console.log(`  Default source worktree: ${output.bold(config.defaultBranch || 'main')}`);
     if (config.autoCopyFiles) {
-      console.log(`  Auto-copy files: ${output.dim(config.autoCopyFiles.join(', '))}`);
+      const files = config.autoCopyFiles.map((file) => normalizeCopyFile(file).path);
+      console.log(`  Auto-copy files: ${output.dim(files.join(', '))}`);
     }
     if (config.hooks?.checkout?.pre) {
       console.log(`  Pre-checkout hooks: ${output.dim(config.hooks.checkout.pre.length.toString())} command(s)`);
@@ -840,6 +964,12 @@ async function initializeExistingRepo(parsed: ParsedInitArgs): Promise<void> {
     if (config.updateStrategy) {
       console.log(`  Update strategy: ${output.bold(config.updateStrategy)}`);
     }
+    if (config.updateAutostash) {
+      console.log(`  Update autostash: ${output.bold('enabled')}`);
+    }
+    if (config.templates) {
+      console.log(`  Templates: ${output.dim(Object.keys(config.templates).join(', '))}`);
+    }
     console.log();
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -300,3 +300,43 @@ Deno.test('install-shell - installs with custom command name', async () => {
     await tempHome.cleanup();
   }
 });
+
+Deno.test('install-shell - installs completions', async () => {
+  const tempHome = new TempHome();
+  try {
+    const originalShell = Deno.env.get('SHELL');
+
+    try {
+      Deno.env.set('SHELL', '/bin/zsh');
+      await executeInstallShell(['--quiet']);
+
+      const scriptContent = await Deno.readTextFile(join(tempHome.path, '.gw', 'shell', 'integration.zsh'));
+      assertStringIncludes(scriptContent, 'compdef _gw_complete gw', 'Should register zsh completions');
+      assertStringIncludes(scriptContent, 'command gw __complete', 'Should get candidates from gw __complete');
+
+      Deno.env.set('SHELL', '/usr/local/bin/fish');
+      await executeInstallShell(['--quiet']);
+
+      const completionPath = join(tempHome.path, '.config', 'fish', 'completions', 'gw.fish');
+      assertStringIncludes(await Deno.readTextFile(completionPath), "complete -c gw -f -a '(_gw_complete)'");
+
+      await executeInstallShell(['--remove', '--quiet']);
+
+      let completionExists = true;
+      try {
+        await Deno.stat(completionPath);
+      } catch {
+        completionExists = false;
+      }
+      assertEquals(completionExists, false, 'Should delete fish completions');
+    } finally {
+      if (originalShell) {
+        Deno.env.set('SHELL', originalShell);
+      } else {
+        Deno.env.delete('SHELL');
+      }
+    }
+  } finally {
+    await tempHome.cleanup();
+  }
+});
@@ -1,9 +1,10 @@
 /**
  * Install shell integration command
- * Adds shell function to enable 'gw cd' to actually navigate
+ * Adds shell function to enable 'gw cd' to actually navigate, and tab completion
  */
 
 import * as output from '../lib/output.ts';
+import { getCompletionScript } from '../lib/completions.ts';
 import { join } from '$std/path';
 
 /**
@@ -63,6 +64,7 @@ async function installShellIntegration(quiet: boolean, commandName = 'gw', actua
   let scriptFile: string;
   let shellFunction: string;
   let sourceLine: string;
+  let completionFile: string | undefined;
 
   // Create filename suffix for non-default command names
   const fileSuffix = commandName === 'gw' ? '' : `-${commandName}`;
@@ -70,12 +72,12 @@ async function installShellIntegration(quiet: boolean, commandName = 'gw', actua
   if (shellName === 'zsh') {
     configFile = join(home, '.zshrc');
     scriptFile = join(home, '.gw', 'shell', `integration${fileSuffix}.zsh`);
-    shellFunction = getZshFunction(commandName, actualCommand);
+    shellFunction = `${getZshFunction(commandName, actualCommand)}\n\n${getCompletionScript('zsh', commandName, actualCommand)}\n`;
     sourceLine = `# gw-tools shell integration (${commandName})\n[ -f ~/.gw/shell/integration${fileSuffix}.zsh ] && source ~/.gw/shell/integration${fileSuffix}.zsh`;
   } else if (shellName === 'bash') {
     configFile = join(home, '.bashrc');
     scriptFile = join(home, '.gw', 'shell', `integration${fileSuffix}.bash`);
-    shellFunction = getBashFunction(commandName, actualCommand);
+    shellFunction = `${getBashFunction(commandName, actualCommand)}\n\n${getCompletionScript('bash', commandName, actualCommand)}\n`;
     sourceLine = `# gw-tools shell integration (${commandName})\n[ -f ~/.gw/shell/integration${fileSuffix}.bash ] && source ~/.gw/shell/integration${fileSuffix}.bash`;
   } else if (shellName === 'fish') {
     const configDir = join(home, '.config', 'fish', 'functions');
@@ -83,6 +85,7 @@ async function installShellIntegration(quiet: boolean, commandName = 'gw', actua
     scriptFile = configFile; // Fish uses function files directly
     shellFunction = getFishFunction(commandName, actualCommand);
     sourceLine = ''; // Fish doesn't need a source line
+    completionFile = join(home, '.config', 'fish', 'completions', `${commandName}.fish`);
   } else {
     // Always show this error, even in quiet mode
     output.error(`Unsupported shell: ${shellName || 'unknown'}`);
@@ -138,24 +141,20 @@ async function installShellIntegration(quiet: boolean, commandName = 'gw', actua
 
         await Deno.writeTextFile(configFile, filtered.join('\n'));
       } else if (hasNewFormat) {
-        // New format already installed, just ensure script file exists
-        try {
-          await Deno.stat(scriptFile);
-          if (!quiet) {
-            output.success('Shell integration already installed!');
-            console.log(`Restart your shell or run: ${output.bold(`source ${configFile}`)}`);
-          }
-          return;
-        } catch {
-          // Script file missing, continue with installation
-          if (!quiet) {
-            console.log('Recreating missing integration script...');
-          }
+        // New format already installed: rewrite the script, so existing installations
+        // pick up changes to the shell function and completions
+        await writeIntegrationScript(scriptFile, shellFunction);
+        if (!quiet) {
+          output.success('Shell integration already installed!');
+          console.log(`Restart your shell or run: ${output.bold(`source ${configFile}`)}`);
         }
+        return;
       }
     } else {
-      // Fish - check if function file exists
+      // Fish - check if function file exists (and refresh it and its completions)
       if (content.includes('# gw-tools shell integration')) {
+        await writeIntegrationScript(scriptFile, shellFunction);
+        await writeIntegrationScript(completionFile!, getCompletionScript('fish', commandName, actualCommand) + '\n');
         if (!quiet) {
           output.success('Shell integration already installed!');
         }
@@ -173,16 +172,20 @@ async function installShellIntegration(quiet: boolean, commandName = 'gw', actua
 
   // Create script file
   try {
-    // Ensure directory exists
-    const scriptDir = scriptFile.substring(0, scriptFile.lastIndexOf('/'));
-    await Deno.mkdir(scriptDir, { recursive: true });
-
-    // Write shell function to script file
-    await Deno.writeTextFile(scriptFile, shellFunction);
+    await writeIntegrationScript(scriptFile, shellFunction);
 
     if (!quiet) {
       console.log(`Created integration script: ${output.path(scriptFile)}`);
     }
+
+    // Fish loads completions from their own directory
+    if (completionFile) {
+      await writeIntegrationScript(completionFile, getCompletionScript('fish', commandName, actualCommand) + '\n');
+
+      if (!quiet) {
+        console.log(`Created completions: ${output.path(completionFile)}`);
+      }
+    }
   } catch (error) {
     let message = '';
     if (error instanceof Error) {
@@ -238,6 +241,14 @@ async function installShellIntegration(quiet: boolean, commandName = 'gw', actua
   }
 }
 
+/**
+ * Write an integration script, creating its directory if needed
+ */
+async function writeIntegrationScript(path: string, content: string): Promise<void> {
+  await Deno.mkdir(path.substring(0, path.lastIndexOf('/')), { recursive: true });
+  await Deno.writeTextFile(path, content);
+}
+
 /**
  * Remove shell integration function
  */
@@ -251,6 +262,7 @@ async function removeShellIntegration(quiet: boolean, commandName = 'gw'): Promi
 
   let configFile: string;
   let scriptFile: string;
+  let completionFile: string | undefined;
 
   if (shellName === 'zsh') {
     configFile = join(home, '.zshrc');
@@ -261,6 +273,7 @@ async function removeShellIntegration(quiet: boolean, commandName = 'gw'): Promi
   } else if (shellName === 'fish') {
     configFile = join(home, '.config', 'fish', 'functions', `${commandName}.fish`);
     scriptFile = configFile; // Fish uses function files directly
+    completionFile = join(home, '.config', 'fish', 'completions', `${commandName}.fish`);
   } else {
     if (!quiet) {
       output.error(`Unsupported shell: ${shellName}`);
@@ -283,6 +296,20 @@ async function removeShellIntegration(quiet: boolean, commandName = 'gw'): Promi
     }
   }
 
+  // Remove the fish completions
+  if (completionFile) {
+    try {
+      await Deno.remove(completionFile);
+      if (!quiet) {
+        console.log(`Removed completions: ${output.path(completionFile)}`);
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+  }
+
   // Remove source line from config file (for bash/zsh)
   if (shellName !== 'fish') {
     try {
@@ -355,10 +382,13 @@ ${commandName}() {
       ${cmdPrefix} cd "$2"
       return
     fi
-    local target=$(${cmdPrefix} cd "$2" 2>/dev/null)
+    local target
+    target=$(${cmdPrefix} cd "$2" 2>/dev/null)
+    local exit_code=$?
     if [[ -n "$target" ]]; then
       cd "$target"
-    else
+    elif [[ $exit_code -ne 130 ]]; then
+      # Re-run to show the error (130 means the picker was cancelled)
       ${cmdPrefix} cd "$2"
     fi
   elif [[ "$1" == "rm" || "$1" == "remove" ]]; then
@@ -405,10 +435,13 @@ ${commandName}() {
       ${cmdPrefix} cd "$2"
       return
     fi
-    local target=$(${cmdPrefix} cd "$2" 2>/dev/null)
+    local target
+    target=$(${cmdPrefix} cd "$2" 2>/dev/null)
+    local exit_code=$?
     if [[ -n "$target" ]]; then
       cd "$target"
-    else
+    elif [[ $exit_code -ne 130 ]]; then
+      # Re-run to show the error (130 means the picker was cancelled)
       ${cmdPrefix} cd "$2"
     fi
   elif [[ "$1" == "rm" || "$1" == "remove" ]]; then
@@ -456,9 +489,11 @@ function ${commandName}
             return
         end
         set -l target (${cmdPrefix} cd $argv[2] 2>/dev/null)
+        set -l exit_code $status
         if test -n "$target"
             cd $target
-        else
+        else if test $exit_code -ne 130
+            # Re-run to show the error (130 means the picker was cancelled)
             ${cmdPrefix} cd $argv[2]
         end
     else if test "$argv[1]" = "rm" -o "$argv[1]" = "remove"
@@ -495,7 +530,7 @@ end`;
  */
 function showInstallShellHelp(): void {
   console.log(`
-gw install-shell - Install shell integration for gw cd
+gw install-shell - Install shell integration for gw cd and tab completion
 
 Usage:
   gw install-shell [options]
@@ -516,6 +551,11 @@ Description:
   integration script in ~/.gw/shell/, then adds a single line to your
   shell configuration to source it.
 
+  The integration also sets up tab completion for command names, flags,
+  worktree names (cd, remove, sync, lock, ...), branch names (checkout) and
+  open pull requests (pr, requires the GitHub CLI). Zsh completion requires
+  compinit to be loaded before the integration script is sourced.
+
   Use --name with --command to install for development aliases. The --command
   flag specifies the actual command to execute. This is required when using
   --name for aliases that aren't actual binaries.
@@ -523,11 +563,13 @@ Description:
   Supported shells:
     - Zsh (~/.zshrc sources ~/.gw/shell/integration[-NAME].zsh)
     - Bash (~/.bashrc sources ~/.gw/shell/integration[-NAME].bash)
-    - Fish (~/.config/fish/functions/[NAME].fish)
+    - Fish (~/.config/fish/functions/[NAME].fish, and completions in
+      ~/.config/fish/completions/[NAME].fish)
 
   The installation is idempotent - running it multiple times won't
-  create duplicate entries. It will also automatically migrate old
-  inline installations to the new format.
+  create duplicate entries, and it refreshes the integration script
+  (run it again after upgrading gw). It will also automatically migrate
+  old inline installations to the new format.
 
 Examples:
   # Install shell integration for 'gw'
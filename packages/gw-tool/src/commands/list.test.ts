@@ -2,11 +2,12 @@
  * Tests for list.ts command
  */
 
-import { assertEquals } from '$std/assert';
-import { executeList } from './list.ts';
+import { assertEquals, assertStringIncludes } from '$std/assert';
+import { collectWorktreeStatus, executeList } from './list.ts';
 import { GitTestRepo } from '../test-utils/git-test-repo.ts';
 import { TempCwd } from '../test-utils/temp-env.ts';
 import { createMinimalConfig, writeTestConfig } from '../test-utils/fixtures.ts';
+import { withMockedExit } from '../test-utils/mock-exit.ts';
 
 Deno.test('list command - lists all worktrees', async () => {
   const repo = new GitTestRepo();
@@ -72,3 +73,119 @@ Deno.test('list command - works with no worktrees (just main)', async () => {
     await repo.cleanup();
   }
 });
+
+Deno.test('list command - shows status table with branches', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createWorktree('feat-1', 'feat-1');
+
+    const config = createMinimalConfig(repo.path);
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { stdout } = await withMockedExit(() => executeList([]), { captureOutput: true });
+
+      assertStringIncludes(stdout!, 'BRANCH');
+      assertStringIncludes(stdout!, 'feat-1');
+      assertStringIncludes(stdout!, 'clean');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('list command - collects ahead/behind and dirty state', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    const featPath = await repo.createWorktree('feat-1', 'feat-1');
+
+    // One commit ahead of main, plus an uncommitted file
+    await Deno.writeTextFile(`${featPath}/feature.txt`, 'feature');
+    await repo.runCommand('git', ['add', 'feature.txt'], featPath);
+    await repo.runCommand('git', ['commit', '-m', 'Add feature'], featPath);
+    await Deno.writeTextFile(`${featPath}/scratch.txt`, 'scratch');
+
+    const config = createMinimalConfig(repo.path);
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(featPath);
+    try {
+      const statuses = await collectWorktreeStatus(repo.path, 'main');
+      const feat = statuses.find((s) => s.branch === 'feat-1');
+      const main = statuses.find((s) => s.branch === 'main');
+
+      assertEquals(feat?.aheadBehind, { ahead: 1, behind: 0 });
+      assertEquals(feat?.dirty, true);
+      assertEquals(feat?.current, true);
+      assertEquals(feat?.locked, false);
+      assertEquals(main?.aheadBehind, null);
+      assertEquals(main?.current, false);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('list command - reports locked worktrees', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    const featPath = await repo.createWorktree('feat-1', 'feat-1');
+    await repo.runCommand('git', ['worktree', 'lock', featPath]);
+
+    const config = createMinimalConfig(repo.path);
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const statuses = await collectWorktreeStatus(repo.path, 'main');
+      const feat = statuses.find((s) => s.branch === 'feat-1');
+
+      assertEquals(feat?.locked, true);
+      assertEquals(feat?.name, 'feat-1');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('list command - outputs versioned JSON with --json', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createWorktree('feat-1', 'feat-1');
+
+    const config = createMinimalConfig(repo.path);
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { exitCode, stdout } = await withMockedExit(() => executeList(['--json']), { captureOutput: true });
+
+      assertEquals(exitCode, undefined);
+      const result = JSON.parse(stdout!);
+      assertEquals(result.schemaVersion, 1);
+      assertEquals(result.command, 'list');
+      assertEquals(result.defaultBranch, 'main');
+
+      const feat = result.worktrees.find((wt: { branch: string }) => wt.branch === 'feat-1');
+      assertEquals(feat.name, 'feat-1');
+      assertEquals(feat.ahead, 0);
+      assertEquals(feat.behind, 0);
+      assertEquals(feat.locked, false);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
@@ -1,10 +1,177 @@
 /**
  * List command implementation
- * Lists all worktrees in the repository
+ * Lists all worktrees in the repository with per-worktree status
  */
 
+import { relative } from '$std/path';
 import { promptAndRunAutoClean } from '../lib/auto-clean.ts';
-import { executeGitWorktree, showProxyHelp } from '../lib/git-proxy.ts';
+import { loadConfig } from '../lib/config.ts';
+import { executeGitWorktree } from '../lib/git-proxy.ts';
+import {
+  getAheadBehind,
+  getCurrentWorktreePath,
+  getRemotes,
+  getWorktreeAgeDays,
+  hasUncommittedChanges,
+  hasUnpushedCommits,
+  listWorktrees,
+  type WorktreeInfo,
+} from '../lib/git-utils.ts';
+import { JSON_SCHEMA_VERSION, printJson, toJsonWorktree } from '../lib/json-output.ts';
+import * as output from '../lib/output.ts';
+import type { ListJsonOutput } from '../lib/types.ts';
+import { readWorktreeMetadata, type WorktreeMetadata } from '../lib/worktree-metadata.ts';
+
+/**
+ * Git flags that imply the raw 'git worktree list' output
+ */
+const PASSTHROUGH_FLAGS = ['--porcelain', '-z', '-v', '--verbose'];
+
+/**
+ * Status information collected for a single worktree
+ */
+export interface WorktreeStatus extends WorktreeInfo {
+  /** Worktree name (path relative to the git root) */
+  name: string;
+  /** Whether this is the worktree the command was run from */
+  current: boolean;
+  /** Commits ahead of/behind the default branch (null if not comparable) */
+  aheadBehind: { ahead: number; behind: number } | null;
+  /** Whether the worktree has uncommitted changes */
+  dirty: boolean;
+  /** Whether the worktree has commits not pushed to its upstream */
+  unpushed: boolean;
+  /** Age of the worktree in days */
+  ageDays: number;
+  /** Description, tags and origin of the worktree */
+  metadata: WorktreeMetadata;
+}
+
+/**
+ * Parse list command arguments
+ */
+function parseListArgs(args: string[]): {
+  help: boolean;
+  raw: boolean;
+  json: boolean;
+  gitArgs: string[];
+} {
+  const gitArgs = args.filter((arg) => arg !== '--raw');
+
+  return {
+    help: args.includes('--help') || args.includes('-h'),
+    raw: args.includes('--raw') || args.some((arg) => PASSTHROUGH_FLAGS.includes(arg)),
+    json: args.includes('--json'),
+    gitArgs,
+  };
+}
+
+/**
+ * Show help for the list command
+ */
+function showListHelp(): void {
+  console.log(`Usage: gw list [options]
+
+List all worktrees in the repository with their status.
+
+For each worktree, shows the branch, commits ahead/behind the default branch,
+whether it has uncommitted changes or unpushed commits, its age, and whether
+it is locked. The current worktree is marked with '*'. Tags and notes set with
+'gw tag' and 'gw note' are shown in the NOTE column.
+
+Options:
+  --json           Output machine-readable JSON (see README for the schema)
+  --raw            Show raw 'git worktree list' output (remaining options are
+                   forwarded to git)
+  --porcelain      Show 'git worktree list --porcelain' output (implies --raw)
+  -v, --verbose    Show 'git worktree list -v' output (implies --raw)
+  -h, --help       Show this help message
+
+Examples:
+  gw list
+  gw list --json
+  gw list --raw
+  gw list --porcelain
+  gw ls  # Short alias
+`);
+}
+
+/**
+ * Collect status information for all non-bare worktrees
+ *
+ * @param gitRoot Root of the git repository
+ * @param defaultBranch Branch to compute ahead/behind counts against
+ * @param pushRemote Remote to check for unpushed commits against
+ */
+export async function collectWorktreeStatus(
+  gitRoot: string,
+  defaultBranch: string,
+  pushRemote?: string
+): Promise<WorktreeStatus[]> {
+  const worktrees = await listWorktrees();
+  const currentPath = await getCurrentWorktreePath();
+  const store = await readWorktreeMetadata(gitRoot);
+
+  const statuses: WorktreeStatus[] = [];
+
+  for (const wt of worktrees) {
+    if (wt.bare) continue;
+
+    const [aheadBehind, dirty, unpushed, ageDays] = await Promise.all([
+      wt.branch === defaultBranch ? Promise.resolve(null) : getAheadBehind(wt.path, defaultBranch),
+      hasUncommittedChanges(wt.path),
+      hasUnpushedCommits(wt.path, pushRemote),
+      getWorktreeAgeDays(wt.path),
+    ]);
+
+    const name = relative(gitRoot, wt.path) || '.';
+    statuses.push({
+      ...wt,
+      name,
+      current: currentPath !== '' && currentPath === wt.path,
+      aheadBehind,
+      dirty,
+      unpushed,
+      ageDays,
+      metadata: store[name] ?? {},
+    });
+  }
+
+  return statuses;
+}
+
+/**
+ * Format the tags and description of a worktree for the NOTE column
+ */
+function formatNote(metadata: WorktreeMetadata): string {
+  const tags = (metadata.tags ?? []).map((tag) => output.dim(`#${tag}`));
+  return [...tags, metadata.description ?? ''].join(' ').trim();
+}
+
+/**
+ * Format a single worktree status as table cells
+ */
+function formatStatusRow(status: WorktreeStatus): string[] {
+  const marker = status.current ? output.bold('*') : ' ';
+  const branch = status.branch || output.dim('(detached)');
+
+  let aheadBehind = output.dim('-');
+  if (status.aheadBehind) {
+    const { ahead, behind } = status.aheadBehind;
+    aheadBehind = ahead === 0 && behind === 0 ? output.dim('up to date') : `↑${ahead} ↓${behind}`;
+  }
+
+  return [
+    marker,
+    status.current ? output.bold(branch) : branch,
+    output.path(status.name),
+    aheadBehind,
+    status.dirty ? output.yellow('dirty') : output.green('clean'),
+    status.unpushed ? output.yellow('yes') : output.dim('no'),
+    `${status.ageDays}d`,
+    status.locked ? 'locked' : '',
+  ];
+}
 
 /**
  * Execute the list command
@@ -12,18 +179,64 @@ import { executeGitWorktree, showProxyHelp } from '../lib/git-proxy.ts';
  * @param args Command-line arguments for the list command
  */
 export async function executeList(args: string[]): Promise<void> {
-  // Check for help flag
-  if (args.includes('--help') || args.includes('-h')) {
-    showProxyHelp('list', 'list', 'List all worktrees in the repository', [
-      'gw list',
-      'gw list --porcelain',
-      'gw list -v',
-      'gw ls  # Short alias',
-    ]);
+  const parsed = parseListArgs(args);
+
+  if (parsed.help) {
+    showListHelp();
     Deno.exit(0);
   }
 
-  await executeGitWorktree('list', args);
+  if (parsed.json && parsed.raw) {
+    output.error('--json cannot be combined with --raw, --porcelain, or --verbose');
+    Deno.exit(1);
+  }
+
+  if (parsed.raw) {
+    await executeGitWorktree('list', parsed.gitArgs);
+  } else {
+    const { config, gitRoot } = await loadConfig();
+    const defaultBranch = config.defaultBranch || 'main';
+    const statuses = await collectWorktreeStatus(gitRoot, defaultBranch, getRemotes(config).push);
+
+    if (parsed.json) {
+      const payload: ListJsonOutput = {
+        schemaVersion: JSON_SCHEMA_VERSION,
+        command: 'list',
+        defaultBranch,
+        worktrees: statuses.map((status) => ({
+          ...toJsonWorktree(status),
+          name: status.name,
+          current: status.current,
+          ahead: status.aheadBehind?.ahead ?? null,
+          behind: status.aheadBehind?.behind ?? null,
+          dirty: status.dirty,
+          unpushed: status.unpushed,
+          ageDays: status.ageDays,
+          description: status.metadata.description ?? null,
+          tags: status.metadata.tags ?? [],
+          createdBy: status.metadata.createdBy ?? null,
+          sourceBranch: status.metadata.sourceBranch ?? null,
+          prNumber: status.metadata.prNumber ?? null,
+          createdAt: status.metadata.createdAt ?? null,
+        })),
+      };
+      printJson(payload);
+      // Skip the interactive auto-clean prompt in machine-readable mode
+      return;
+    }
+
+    const headers = ['', 'BRANCH', 'WORKTREE', `VS ${defaultBranch.toUpperCase()}`, 'STATE', 'UNPUSHED', 'AGE', 'LOCK'];
+    const rows = statuses.map(formatStatusRow);
+
+    // Only show the NOTE column once a worktree has tags or a note
+    const notes = statuses.map((status) => formatNote(status.metadata));
+    if (notes.some(Boolean)) {
+      headers.push('NOTE');
+      rows.forEach((row, index) => row.push(notes[index]));
+    }
+
+    console.log(output.table(headers, rows));
+  }
 
   // Auto-cleanup stale worktrees if enabled (interactive prompt)
   await promptAndRunAutoClean();
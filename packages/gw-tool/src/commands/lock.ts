@@ -3,7 +3,10 @@
  * Locks a worktree to prevent it from being removed
  */
 
+import { loadConfig } from '../lib/config.ts';
 import { executeGitWorktree, showProxyHelp } from '../lib/git-proxy.ts';
+import { listWorktrees } from '../lib/git-utils.ts';
+import { isInteractive, PICKER_CANCELLED_EXIT_CODE, pickWorktree } from '../lib/picker.ts';
 
 /**
  * Execute the lock command
@@ -16,9 +19,22 @@ export async function executeLock(args: string[]): Promise<void> {
     showProxyHelp('lock', 'lock', 'Lock a worktree to prevent removal', [
       'gw lock feat-branch',
       'gw lock --reason "Work in progress" feat-branch',
+      'gw lock  # Pick the worktree interactively',
     ]);
     Deno.exit(0);
   }
 
+  // Without a worktree, pick one interactively in a terminal
+  const hasWorktree = args.some((arg, index) => !arg.startsWith('-') && args[index - 1] !== '--reason');
+  if (!hasWorktree && isInteractive()) {
+    const { gitRoot } = await loadConfig();
+    const unlocked = (await listWorktrees()).filter((wt) => !wt.bare && !wt.locked);
+    const picked = await pickWorktree(unlocked, { message: 'Lock which worktree?', gitRoot });
+    if (!picked) {
+      Deno.exit(PICKER_CANCELLED_EXIT_CODE);
+    }
+    args = [...args, picked.path];
+  }
+
   await executeGitWorktree('lock', args, 'Worktree locked successfully');
 }
@@ -3,7 +3,16 @@
  * Moves a worktree to a new location
  */
 
+import { basename, join, relative, resolve } from '$std/path';
+import { loadConfig } from '../lib/config.ts';
 import { executeGitWorktree, showProxyHelp } from '../lib/git-proxy.ts';
+import { findWorktree } from '../lib/git-utils.ts';
+import { buildHookVariables, executeCommandHooks } from '../lib/hooks.ts';
+import * as output from '../lib/output.ts';
+import { isDirectory } from '../lib/path-resolver.ts';
+import { movePorts } from '../lib/ports.ts';
+import { moveSyncState } from '../lib/sync-state.ts';
+import { moveWorktreeMetadata } from '../lib/worktree-metadata.ts';
 
 /**
  * Execute the move command
@@ -20,5 +29,56 @@ export async function executeMove(args: string[]): Promise<void> {
     Deno.exit(0);
   }
 
-  await executeGitWorktree('move', args, 'Worktree moved successfully');
+  // Positional arguments: <worktree> <new-path>
+  const [source, destination] = args.filter((arg) => !arg.startsWith('-'));
+
+  const { config, gitRoot } = await loadConfig();
+
+  // With invalid arguments this is a plain proxy - git reports any errors
+  const worktree = source && destination ? await findWorktree(gitRoot, source) : undefined;
+
+  if (!worktree) {
+    await executeGitWorktree('move', args, 'Worktree moved successfully');
+    return;
+  }
+
+  // Like git, moving into an existing directory keeps the worktree's directory name
+  const newPath = (await isDirectory(destination))
+    ? join(resolve(destination), basename(worktree.path))
+    : resolve(destination);
+
+  // Execute pre-move hooks in the worktree's current location (abort on failure)
+  const preVariables = await buildHookVariables(config, {
+    worktree: relative(gitRoot, worktree.path),
+    worktreePath: worktree.path,
+    gitRoot,
+    branch: worktree.branch,
+  });
+
+  if (!(await executeCommandHooks(config.hooks, 'move', 'pre', worktree.path, preVariables))) {
+    output.error('Pre-move hook failed. Aborting worktree move.');
+    Deno.exit(1);
+  }
+
+  // Pass the resolved path so git finds the worktree from any directory
+  const gitArgs = [...args];
+  gitArgs[args.indexOf(source)] = worktree.path;
+
+  await executeGitWorktree('move', gitArgs, 'Worktree moved successfully');
+
+  // Keep the worktree's port range, sync state and metadata under its new name
+  await movePorts(gitRoot, relative(gitRoot, worktree.path), relative(gitRoot, newPath));
+  await moveSyncState(gitRoot, relative(gitRoot, worktree.path), relative(gitRoot, newPath));
+  await moveWorktreeMetadata(gitRoot, relative(gitRoot, worktree.path), relative(gitRoot, newPath));
+
+  // Execute post-move hooks in the new location (warn but don't abort on failure)
+  const postVariables = await buildHookVariables(config, {
+    ...preVariables,
+    worktree: relative(gitRoot, newPath),
+    worktreePath: newPath,
+  });
+
+  if (!(await executeCommandHooks(config.hooks, 'move', 'post', newPath, postVariables))) {
+    output.warning('One or more post-move hooks failed');
+  }
 }
@@ -0,0 +1,177 @@
+/**
+ * Tests for note.ts and tag.ts commands
+ */
+
+import { assertEquals, assertStringIncludes } from '$std/assert';
+import { join } from '$std/path';
+import { executeNote } from './note.ts';
+import { executeTag } from './tag.ts';
+import { executeList } from './list.ts';
+import { executeMove } from './move.ts';
+import { allocatePorts, getAllocatedPort } from '../lib/ports.ts';
+import { getWorktreeMetadata, readWorktreeMetadata } from '../lib/worktree-metadata.ts';
+import { GitTestRepo } from '../test-utils/git-test-repo.ts';
+import { TempCwd } from '../test-utils/temp-env.ts';
+import { createMinimalConfig, writeTestConfig } from '../test-utils/fixtures.ts';
+import { withMockedExit } from '../test-utils/mock-exit.ts';
+
+Deno.test('note command - sets, shows and clears the description of a worktree', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createWorktree('fix-123', 'fix-123');
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await executeNote(['fix-123', 'Login redirect loop on Safari']);
+      assertEquals(await getWorktreeMetadata(repo.path, 'fix-123'), { description: 'Login redirect loop on Safari' });
+
+      const { stdout } = await withMockedExit(() => executeNote(['fix-123']), { captureOutput: true });
+      assertEquals(stdout?.trim(), 'Login redirect loop on Safari');
+
+      await executeNote(['fix-123', '--clear']);
+      assertEquals(await readWorktreeMetadata(repo.path), {});
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('note command - fails for a worktree that does not exist', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { exitCode, stderr } = await withMockedExit(() => executeNote(['missing', 'text']), {
+        captureOutput: true,
+      });
+
+      assertEquals(exitCode, 1);
+      assertStringIncludes(stderr ?? '', 'does not exist');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('tag command - adds and removes tags, shown in gw list', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createWorktree('fix-123', 'fix-123');
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await executeTag(['fix-123', 'review', 'urgent']);
+      await executeTag(['fix-123', 'review']);
+      await executeTag(['fix-123', '--remove', 'urgent']);
+      await executeNote(['fix-123', 'Login loop']);
+      assertEquals(await getWorktreeMetadata(repo.path, 'fix-123'), { tags: ['review'], description: 'Login loop' });
+
+      const { stdout } = await withMockedExit(() => executeList([]), { captureOutput: true });
+      assertStringIncludes(stdout ?? '', 'NOTE');
+      assertStringIncludes(stdout ?? '', '#review');
+      assertStringIncludes(stdout ?? '', 'Login loop');
+
+      const json = await withMockedExit(() => executeList(['--json']), { captureOutput: true });
+      const feat = JSON.parse(json.stdout!).worktrees.find((wt: { name: string }) => wt.name === 'fix-123');
+      assertEquals(feat.tags, ['review']);
+      assertEquals(feat.description, 'Login loop');
+      assertEquals(feat.createdBy, null);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('move command - keeps the metadata of a moved worktree', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createWorktree('fix-123', 'fix-123');
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await executeNote(['fix-123', 'Login loop']);
+      await executeMove(['fix-123', 'login-loop']);
+
+      assertEquals(await readWorktreeMetadata(repo.path), { 'login-loop': { description: 'Login loop' } });
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('move command - moves a nested worktree and its metadata from inside another worktree', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createWorktree('feat/foo', 'feat/foo');
+    const otherPath = await repo.createWorktree('fix-123', 'fix-123');
+    const config = createMinimalConfig(repo.path);
+    config.ports = { base: 4000 };
+    config.hooks = { move: { pre: ['echo {worktree} > "{gitRoot}/pre-move.txt"'] } };
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await executeNote(['feat/foo', 'Login loop']);
+      await allocatePorts(repo.path, config.ports, 'feat/foo');
+    } finally {
+      cwd.restore();
+    }
+
+    const otherCwd = new TempCwd(otherPath);
+    try {
+      await executeMove(['feat/foo', '../feat/bar']);
+    } finally {
+      otherCwd.restore();
+    }
+
+    assertEquals(await readWorktreeMetadata(repo.path), { 'feat/bar': { description: 'Login loop' } });
+    assertEquals(await getAllocatedPort(repo.path, 'feat/bar'), 4000);
+    assertEquals(await getAllocatedPort(repo.path, 'feat/foo'), undefined);
+    assertEquals((await Deno.readTextFile(join(repo.path, 'pre-move.txt'))).trim(), 'feat/foo');
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('move command - moving into an existing directory keeps the worktree name', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createWorktree('fix-123', 'fix-123');
+    const config = createMinimalConfig(repo.path);
+    config.hooks = { move: { post: ['echo {worktree} > "{gitRoot}/post-move.txt"'] } };
+    await writeTestConfig(repo.path, config);
+    await Deno.mkdir(join(repo.path, 'archive'));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await executeNote(['fix-123', 'Login loop']);
+      await executeMove(['fix-123', 'archive']);
+    } finally {
+      cwd.restore();
+    }
+
+    assertEquals(await readWorktreeMetadata(repo.path), { 'archive/fix-123': { description: 'Login loop' } });
+    assertEquals((await Deno.readTextFile(join(repo.path, 'post-move.txt'))).trim(), 'archive/fix-123');
+  } finally {
+    await repo.cleanup();
+  }
+});
@@ -0,0 +1,115 @@
+/**
+ * Note command implementation
+ * Show or set the description of a worktree
+ */
+
+import { relative } from '$std/path';
+import { loadConfig } from '../lib/config.ts';
+import { findWorktree } from '../lib/git-utils.ts';
+import * as output from '../lib/output.ts';
+import { getWorktreeMetadata, updateWorktreeMetadata } from '../lib/worktree-metadata.ts';
+
+/**
+ * Parse note command arguments
+ */
+function parseNoteArgs(args: string[]): {
+  help: boolean;
+  clear: boolean;
+  worktree?: string;
+  text?: string;
+} {
+  const positional = args.filter((arg) => !arg.startsWith('-'));
+
+  return {
+    help: args.includes('--help') || args.includes('-h'),
+    clear: args.includes('--clear'),
+    worktree: positional[0],
+    text: positional.length > 1 ? positional.slice(1).join(' ') : undefined,
+  };
+}
+
+/**
+ * Show help for the note command
+ */
+function showNoteHelp(): void {
+  console.log(`Usage: gw note <worktree> [text] [options]
+
+Show or set the description of a worktree.
+
+Worktree names like 'fix-123' don't say much after a week. A note says what
+the worktree is for, and is shown next to it in 'gw list'. Notes are stored
+in .gw/worktrees.json and move along with 'gw move'.
+
+Arguments:
+  <worktree>       Worktree name, path or branch
+  [text]           Description to set (shows the current one when omitted)
+
+Options:
+  --clear          Remove the description
+  -h, --help       Show this help message
+
+Examples:
+  # Describe a worktree
+  gw note fix-123 "Login redirect loop on Safari"
+
+  # Show the description
+  gw note fix-123
+
+  # Remove it
+  gw note fix-123 --clear
+`);
+}
+
+/**
+ * Execute the note command
+ *
+ * @param args Command-line arguments for the note command
+ */
+export async function executeNote(args: string[]): Promise<void> {
+  const parsed = parseNoteArgs(args);
+
+  if (parsed.help) {
+    showNoteHelp();
+    Deno.exit(0);
+  }
+
+  if (!parsed.worktree) {
+    output.error('Worktree name is required');
+    console.log('Usage: gw note <worktree> [text]');
+    Deno.exit(1);
+  }
+
+  if (parsed.clear && parsed.text !== undefined) {
+    output.error('Cannot combine --clear with a description');
+    Deno.exit(1);
+  }
+
+  const { gitRoot } = await loadConfig();
+  const worktree = await findWorktree(gitRoot, parsed.worktree);
+
+  if (!worktree) {
+    output.error(`Worktree ${output.bold(parsed.worktree)} does not exist`);
+    Deno.exit(1);
+  }
+
+  const name = relative(gitRoot, worktree.path) || '.';
+
+  if (parsed.clear) {
+    await updateWorktreeMetadata(gitRoot, name, { description: undefined });
+    output.success(`Removed the note of ${output.bold(name)}`);
+    return;
+  }
+
+  if (parsed.text === undefined) {
+    const { description } = await getWorktreeMetadata(gitRoot, name);
+    if (description) {
+      console.log(description);
+    } else {
+      output.info(`${output.bold(name)} has no note`);
+    }
+    return;
+  }
+
+  await updateWorktreeMetadata(gitRoot, name, { description: parsed.text });
+  output.success(`Updated the note of ${output.bold(name)}`);
+}
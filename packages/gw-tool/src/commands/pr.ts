@@ -3,14 +3,19 @@
  * Fetches a pull request's branch and creates a worktree for it
  */
 
+import { relative } from '$std/path';
 import { promptAndRunAutoClean } from '../lib/auto-clean.ts';
-import { loadConfig } from '../lib/config.ts';
+import { loadConfig, resolveConfigForBranch } from '../lib/config.ts';
 import { copyFiles } from '../lib/file-ops.ts';
-import { listWorktrees } from '../lib/git-utils.ts';
-import { executeHooks, type HookVariables } from '../lib/hooks.ts';
+import { getRemotes, listWorktrees } from '../lib/git-utils.ts';
+import { buildHookVariables, executeCommandHooks, substituteVariables } from '../lib/hooks.ts';
+import { allocatePorts } from '../lib/ports.ts';
 import { resolveWorktreePath } from '../lib/path-resolver.ts';
 import { signalNavigation } from '../lib/shell-navigation.ts';
+import { recordCopyResults } from '../lib/sync-state.ts';
+import { recordWorktreeCreation } from '../lib/worktree-metadata.ts';
 import * as output from '../lib/output.ts';
+import type { CopyFile } from '../lib/types.ts';
 
 /**
  * Information about a pull request from gh CLI
@@ -18,6 +23,7 @@ import * as output from '../lib/output.ts';
 interface PrInfo {
   number: number;
   headRefName: string;
+  baseRefName: string;
   headRepository: { name: string };
   headRepositoryOwner: { login: string };
   isCrossRepository: boolean;
@@ -148,7 +154,7 @@ Requirements:
 How It Works:
   1. Resolves PR number/URL to branch information via gh CLI
   2. Fetches the PR branch (handles forks automatically)
-  3. Creates worktree with auto-copy files and hooks (same as gw add)
+  3. Creates worktree with auto-copy files and runs pre-pr/post-pr hooks
   4. Navigates to the new worktree
 
 If the PR's branch is already checked out in a worktree, the command
@@ -205,7 +211,7 @@ async function fetchPrInfo(prNumber: number): Promise<PrInfo | null> {
         'view',
         String(prNumber),
         '--json',
-        'number,headRefName,headRepository,headRepositoryOwner,isCrossRepository',
+        'number,headRefName,baseRefName,headRepository,headRepositoryOwner,isCrossRepository',
       ],
       stdout: 'piped',
       stderr: 'piped',
@@ -233,10 +239,14 @@ async function fetchPrInfo(prNumber: number): Promise<PrInfo | null> {
  * Fetch PR branch using pull/<number>/head ref pattern
  * This works for both same-repo and fork PRs
  */
-async function fetchPrBranch(prNumber: number, branchName: string): Promise<{ success: boolean; message?: string }> {
+async function fetchPrBranch(
+  prNumber: number,
+  branchName: string,
+  remote: string
+): Promise<{ success: boolean; message?: string }> {
   // Fetch the PR head into a local branch
   const cmd = new Deno.Command('git', {
-    args: ['fetch', 'origin', `pull/${prNumber}/head:${branchName}`],
+    args: ['fetch', remote, `pull/${prNumber}/head:${branchName}`],
     stdout: 'piped',
     stderr: 'piped',
   });
@@ -339,20 +349,13 @@ export async function executePr(args: string[]): Promise<void> {
   }
   console.log('');
 
-  // Load config
-  const { config, gitRoot } = await loadConfig();
+  // Load config, with the overrides matching the PR branch applied
+  const { config: baseConfig, gitRoot } = await loadConfig();
+  const config = resolveConfigForBranch(baseConfig, branchName);
 
   // Resolve worktree path
   const worktreePath = resolveWorktreePath(gitRoot, worktreeName);
 
-  // Prepare hook variables
-  const hookVariables: HookVariables = {
-    worktree: worktreeName,
-    worktreePath,
-    gitRoot,
-    branch: branchName,
-  };
-
   // Check if branch already exists in a worktree
   const worktrees = await listWorktrees();
   const existingWorktree = worktrees.find((wt) => wt.branch === branchName);
@@ -423,28 +426,34 @@ export async function executePr(args: string[]): Promise<void> {
     }
   }
 
-  // Execute pre-add hooks (abort on failure)
-  if (config.hooks?.checkout?.pre && config.hooks.checkout.pre.length > 0) {
-    const { allSuccessful } = await executeHooks(
-      config.hooks.checkout.pre,
-      gitRoot,
-      hookVariables,
-      'pre-checkout',
-      true // abort on failure
-    );
-
-    if (!allSuccessful) {
-      output.error('Pre-checkout hook failed. Aborting worktree creation.');
-      Deno.exit(1);
-    }
+  // Reserve a port range for the new worktree (exposed as {port} variables)
+  if (config.ports) {
+    await allocatePorts(gitRoot, config.ports, relative(gitRoot, worktreePath));
+  }
+
+  // Prepare hook variables
+  const hookVariables = await buildHookVariables(config, {
+    worktree: worktreeName,
+    worktreePath,
+    gitRoot,
+    branch: branchName,
+    baseBranch: prInfo.baseRefName,
+    prNumber: String(prNumber),
+  });
+
+  // Execute pre-pr hooks (abort on failure)
+  if (!(await executeCommandHooks(config.hooks, 'pr', 'pre', gitRoot, hookVariables))) {
+    output.error('Pre-pr hook failed. Aborting worktree creation.');
+    Deno.exit(1);
   }
 
-  // Fetch PR branch
+  // Fetch PR branch (pull requests live on the base remote)
+  const remotes = getRemotes(config);
   console.log(`Fetching PR branch...`);
-  console.log(output.dim(`  git fetch origin pull/${prNumber}/head:${branchName}`));
+  console.log(output.dim(`  git fetch ${remotes.base} pull/${prNumber}/head:${branchName}`));
   console.log('');
 
-  const fetchResult = await fetchPrBranch(prNumber, branchName);
+  const fetchResult = await fetchPrBranch(prNumber, branchName, remotes.base);
   if (!fetchResult.success) {
     output.error('Failed to fetch PR branch');
     console.log(fetchResult.message || 'Unknown error');
@@ -473,10 +482,10 @@ export async function executePr(args: string[]): Promise<void> {
     Deno.exit(code);
   }
 
-  // Set up tracking to origin for the PR branch
+  // Set up tracking to the push remote for the PR branch
   // This allows easy pushing of changes back to the PR
   const configRemoteCmd = new Deno.Command('git', {
-    args: ['-C', worktreePath, 'config', `branch.${branchName}.remote`, 'origin'],
+    args: ['-C', worktreePath, 'config', `branch.${branchName}.remote`, remotes.push],
     stdout: 'null',
     stderr: 'null',
   });
@@ -490,8 +499,15 @@ export async function executePr(args: string[]): Promise<void> {
   await configRemoteCmd.output();
   await configMergeCmd.output();
 
+  // Remember which pull request the worktree is for (see 'gw list')
+  await recordWorktreeCreation(gitRoot, relative(gitRoot, worktreePath), {
+    createdBy: 'pr',
+    sourceBranch: prInfo.baseRefName,
+    prNumber,
+  });
+
   // Determine which files to copy
-  let filesToCopy: string[] = [];
+  let filesToCopy: CopyFile[] = [];
 
   if (config.autoCopyFiles && config.autoCopyFiles.length > 0) {
     filesToCopy = config.autoCopyFiles;
@@ -512,22 +528,27 @@ export async function executePr(args: string[]): Promise<void> {
     }
 
     try {
-      const results = await copyFiles(sourcePath, worktreePath, filesToCopy, false);
+      const results = await copyFiles(sourcePath, worktreePath, filesToCopy, false, (content) =>
+        substituteVariables(content, hookVariables)
+      );
+      await recordCopyResults(gitRoot, relative(gitRoot, worktreePath), worktreePath, results);
 
       // Display results
       console.log();
       for (const result of results) {
-        if (result.success) {
+        if (result.success && !result.skipped) {
           console.log(`  ${output.checkmark()} ${result.message}`);
         } else {
           console.log(`  ${output.warningSymbol()} ${result.message}`);
         }
       }
 
-      const successCount = results.filter((r) => r.success).length;
+      // Patterns that matched nothing are only a warning, not a file that failed to copy
+      const copyResults = results.filter((r) => !r.skipped);
+      const successCount = copyResults.filter((r) => r.success).length;
       const fileWord = successCount === 1 ? 'file' : 'files';
       console.log();
-      console.log(`  Copied ${output.bold(`${successCount}/${results.length}`)} ${fileWord}`);
+      console.log(`  Copied ${output.bold(`${successCount}/${copyResults.length}`)} ${fileWord}`);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       output.warning(`Failed to copy files - ${message}`);
@@ -535,19 +556,9 @@ export async function executePr(args: string[]): Promise<void> {
     }
   }
 
-  // Execute post-checkout hooks (warn but don't abort on failure)
-  if (config.hooks?.checkout?.post && config.hooks.checkout.post.length > 0) {
-    const { allSuccessful } = await executeHooks(
-      config.hooks.checkout.post,
-      worktreePath,
-      hookVariables,
-      'post-checkout',
-      false // don't abort on failure, just warn
-    );
-
-    if (!allSuccessful) {
-      output.warning('One or more post-checkout hooks failed');
-    }
+  // Execute post-pr hooks in the new worktree (warn but don't abort on failure)
+  if (!(await executeCommandHooks(config.hooks, 'pr', 'post', worktreePath, hookVariables))) {
+    output.warning('One or more post-pr hooks failed');
   }
 
   // Auto-cleanup stale worktrees if enabled
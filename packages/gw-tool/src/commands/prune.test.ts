@@ -10,7 +10,11 @@ import {
   listWorktrees,
 } from '../lib/git-utils.ts';
 import { GitTestRepo } from '../test-utils/git-test-repo.ts';
+import { createMinimalConfig, writeTestConfig } from '../test-utils/fixtures.ts';
+import { withMockedExit } from '../test-utils/mock-exit.ts';
 import { join } from '$std/path';
+import { updateWorktreeMetadata } from '../lib/worktree-metadata.ts';
+import { executePrune } from './prune.ts';
 
 Deno.test('getCurrentWorktreePath - should return empty string when not in a worktree', async () => {
   const testRepo = new GitTestRepo();
@@ -284,3 +288,80 @@ Deno.test('branch with worktree should not be considered orphan', async () => {
     await testRepo.cleanup();
   }
 });
+
+Deno.test('prune command - outputs dry-run preview as JSON with --json', async () => {
+  const testRepo = new GitTestRepo();
+  try {
+    await testRepo.init();
+    await writeTestConfig(testRepo.path, createMinimalConfig(testRepo.path));
+
+    const originalCwd = Deno.cwd();
+
+    try {
+      Deno.chdir(testRepo.path);
+
+      const featurePath = await testRepo.createWorktree('feature-1-wt', 'feature-1');
+      await testRepo.createBranch('orphan-branch');
+
+      const { exitCode, stdout } = await withMockedExit(() => executePrune(['--dry-run', '--json']), {
+        captureOutput: true,
+      });
+
+      assertEquals(exitCode, 0);
+      const result = JSON.parse(stdout!);
+      assertEquals(result.schemaVersion, 1);
+      assertEquals(result.command, 'prune');
+
+      const feature = result.worktrees.find((wt: { path: string }) => wt.path === featurePath);
+      const main = result.worktrees.find((wt: { branch: string }) => wt.branch === 'main');
+      assertEquals(feature.canClean, true);
+      assertEquals(main.canClean, false);
+
+      const orphan = result.orphanBranches.find((b: { name: string }) => b.name === 'orphan-branch');
+      assertEquals(orphan.canDelete, false);
+      assertEquals(orphan.reason, 'has unpushed commits');
+
+      // Dry run must not remove anything
+      const worktrees = await listWorktrees();
+      assertEquals(
+        worktrees.some((wt) => wt.path === featurePath),
+        true
+      );
+    } finally {
+      Deno.chdir(originalCwd);
+    }
+  } finally {
+    await testRepo.cleanup();
+  }
+});
+
+Deno.test('prune command - keeps worktrees whose template is never cleaned', async () => {
+  const testRepo = new GitTestRepo();
+  try {
+    await testRepo.init();
+    const config = createMinimalConfig(testRepo.path);
+    config.templates = { review: { clean: 'never' } };
+    await writeTestConfig(testRepo.path, config);
+
+    const originalCwd = Deno.cwd();
+
+    try {
+      Deno.chdir(testRepo.path);
+
+      const reviewPath = await testRepo.createWorktree('review-wt', 'review');
+      await updateWorktreeMetadata(testRepo.path, 'review-wt', { template: 'review' });
+
+      const { stdout } = await withMockedExit(() => executePrune(['--dry-run', '--json']), {
+        captureOutput: true,
+      });
+
+      const review = JSON.parse(stdout!).worktrees.find((wt: { path: string }) => wt.path === reviewPath);
+      assertEquals(review.canClean, false);
+      assertEquals(review.reason, 'template "review" is never cleaned');
+    } finally {
+      Deno.chdir(originalCwd);
+    }
+  } finally {
+    await testRepo.cleanup();
+  }
+});
@@ -7,11 +7,13 @@
  * --no-branches: Skip branch cleanup
  */
 
+import { relative } from '$std/path';
 import { executeGitWorktree } from '../lib/git-proxy.ts';
-import { loadConfig } from '../lib/config.ts';
+import { getCleanThreshold, loadConfig } from '../lib/config.ts';
 import {
   deleteBranch,
   getCurrentWorktreePath,
+  getRemotes,
   hasBranchUnpushedCommits,
   hasUncommittedChanges,
   hasUnpushedCommits,
@@ -21,7 +23,10 @@ import {
   removeWorktree,
   type WorktreeInfo,
 } from '../lib/git-utils.ts';
+import { JSON_SCHEMA_VERSION, printJson, toJsonWorktree } from '../lib/json-output.ts';
 import * as output from '../lib/output.ts';
+import type { Config, PruneJsonOutput } from '../lib/types.ts';
+import { readWorktreeMetadata, unstackBranch } from '../lib/worktree-metadata.ts';
 
 /**
  * Parsed arguments for prune command
@@ -33,6 +38,7 @@ interface PruneArgs {
   dryRun: boolean;
   force: boolean;
   verbose: boolean;
+  json: boolean;
   gitArgs: string[]; // remaining args to pass to git
 }
 
@@ -67,6 +73,7 @@ function parsePruneArgs(args: string[]): PruneArgs {
     dryRun: false,
     force: false,
     verbose: false,
+    json: false,
     gitArgs: [],
   };
 
@@ -83,6 +90,8 @@ function parsePruneArgs(args: string[]): PruneArgs {
       result.force = true;
     } else if (arg === '--verbose' || arg === '-v') {
       result.verbose = true;
+    } else if (arg === '--json') {
+      result.json = true;
     } else {
       // Pass other args to git (only used in stale-only mode)
       result.gitArgs.push(arg);
@@ -115,12 +124,14 @@ Options:
   -n, --dry-run      Preview what would be removed without removing
   -f, --force        Skip confirmation prompt
   -v, --verbose      Show detailed output
+  --json             Output the dry-run preview as JSON (requires --dry-run)
   -h, --help         Show this help message
 
 Safety Features:
   - Default branch is protected (from .gw/config.json)
   - Current worktree is protected
   - Bare repository is never removed
+  - Worktrees whose template has "clean": "never" are kept
   - Branches with unpushed commits are protected
   - Confirmation prompt before removal (defaults to yes)
 
@@ -130,6 +141,7 @@ Examples:
   gw prune --dry-run         # Preview what would be removed
   gw prune --force           # Skip confirmation
   gw prune --verbose         # Show detailed output
+  gw prune --dry-run --json  # Machine-readable preview
 
   # Skip branch cleanup
   gw prune --no-branches     # Only clean worktrees
@@ -188,9 +200,13 @@ async function analyzeWorktrees(
   options: {
     currentPath: string;
     defaultBranch: string;
+    pushRemote: string;
+    config: Config;
+    gitRoot: string;
   }
 ): Promise<CleanableWorktree[]> {
   const analyzed: CleanableWorktree[] = [];
+  const metadata = await readWorktreeMetadata(options.gitRoot);
 
   for (const wt of worktrees) {
     // Skip bare repository
@@ -202,8 +218,9 @@ async function analyzeWorktrees(
     const isCurrent = options.currentPath && wt.path === options.currentPath;
     const isDefaultBranch = wt.branch === options.defaultBranch;
     const isGwRoot = wt.branch === 'gw_root';
+    const template = metadata[relative(options.gitRoot, wt.path)]?.template;
     const hasUncommitted = await hasUncommittedChanges(wt.path);
-    const hasUnpushed = await hasUnpushedCommits(wt.path);
+    const hasUnpushed = await hasUnpushedCommits(wt.path, options.pushRemote);
 
     // Determine if can clean and reason if not
     let canClean = true;
@@ -218,6 +235,9 @@ async function analyzeWorktrees(
     } else if (isGwRoot) {
       canClean = false;
       reason = 'gw_root (protected)';
+    } else if (getCleanThreshold(options.config, wt.branch, template) === null) {
+      canClean = false;
+      reason = `template "${template}" is never cleaned`;
     } else if (hasUncommitted) {
       canClean = false;
       reason = 'has uncommitted changes';
@@ -387,7 +407,7 @@ async function removeWorktrees(worktrees: CleanableWorktree[], verbose: boolean)
 /**
  * Delete orphan branches with error handling
  */
-async function deleteOrphanBranches(branches: OrphanBranch[], verbose: boolean): Promise<void> {
+async function deleteOrphanBranches(branches: OrphanBranch[], gitRoot: string, verbose: boolean): Promise<void> {
   const toDelete = branches.filter((b) => b.canDelete);
   if (toDelete.length === 0) return;
 
@@ -403,6 +423,7 @@ async function deleteOrphanBranches(branches: OrphanBranch[], verbose: boolean):
         console.log(`Deleting branch ${output.path(branch.name)}...`);
       }
       await deleteBranch(branch.name, false);
+      await unstackBranch(gitRoot, branch.name);
       results.push({ branch, success: true });
       if (verbose) {
         console.log(`  ${output.checkmark()} Deleted\n`);
@@ -439,26 +460,54 @@ async function deleteOrphanBranches(branches: OrphanBranch[], verbose: boolean):
  */
 async function executeFullCleanup(parsed: PruneArgs): Promise<void> {
   // Load config for defaultBranch
-  const { config } = await loadConfig();
+  const { config, gitRoot } = await loadConfig();
   const defaultBranch = config.defaultBranch ?? 'main';
 
-  // Run git worktree prune first
-  await runGitWorktreePrune(parsed.verbose);
+  // Run git worktree prune first (quietly in JSON mode to keep stdout clean)
+  await runGitWorktreePrune(parsed.verbose && !parsed.json);
 
   // Get current worktree path for protection
   const currentPath = await getCurrentWorktreePath();
 
   // List and analyze all worktrees
-  output.info('Analyzing worktrees and branches...');
+  if (!parsed.json) {
+    output.info('Analyzing worktrees and branches...');
+  }
   const worktrees = await listWorktrees();
   const analyzed = await analyzeWorktrees(worktrees, {
     currentPath,
     defaultBranch,
+    pushRemote: getRemotes(config).push,
+    config,
+    gitRoot,
   });
 
   // Find orphan branches (unless --no-branches)
   const orphanBranches = parsed.noBranches ? [] : await findOrphanBranches(worktrees, defaultBranch);
 
+  if (parsed.json) {
+    const payload: PruneJsonOutput = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      command: 'prune',
+      dryRun: true,
+      worktrees: analyzed.map((wt) => ({
+        ...toJsonWorktree(wt),
+        canClean: wt.canClean,
+        reason: wt.reason ?? null,
+        hasUncommitted: wt.hasUncommitted,
+        hasUnpushed: wt.hasUnpushed,
+      })),
+      orphanBranches: orphanBranches.map((branch) => ({
+        name: branch.name,
+        canDelete: branch.canDelete,
+        reason: branch.reason ?? null,
+        hasUnpushed: branch.hasUnpushed,
+      })),
+    };
+    printJson(payload);
+    Deno.exit(0);
+  }
+
   // Separate cleanable from protected
   const toClean = analyzed.filter((wt) => wt.canClean);
   const toSkip = analyzed.filter((wt) => !wt.canClean);
@@ -518,7 +567,7 @@ async function executeFullCleanup(parsed: PruneArgs): Promise<void> {
 
   // Delete orphan branches
   if (branchesToDelete.length > 0) {
-    await deleteOrphanBranches(orphanBranches, parsed.verbose);
+    await deleteOrphanBranches(orphanBranches, gitRoot, parsed.verbose);
   }
 }
 
@@ -541,6 +590,11 @@ export async function executePrune(args: string[]): Promise<void> {
     return;
   }
 
+  if (parsed.json && !parsed.dryRun) {
+    output.error('--json requires --dry-run');
+    Deno.exit(1);
+  }
+
   // Default: full cleanup
   await executeFullCleanup(parsed);
 }
@@ -0,0 +1,210 @@
+/**
+ * Tests for pull.ts command
+ */
+
+import { assertEquals, assertStringIncludes } from '$std/assert';
+import { join } from '$std/path';
+import { executePull } from './pull.ts';
+import { pathExists } from '../lib/path-resolver.ts';
+import { GitTestRepo } from '../test-utils/git-test-repo.ts';
+import { TempCwd } from '../test-utils/temp-env.ts';
+import { createMinimalConfig, writeTestConfig } from '../test-utils/fixtures.ts';
+import { withMockedExit } from '../test-utils/mock-exit.ts';
+
+/**
+ * Set up a bare "origin" remote with main and a "feature" worktree tracking origin/feature
+ *
+ * @returns The remote repo (to clean up) and the path of the feature worktree
+ */
+async function setupTrackedFeature(repo: GitTestRepo): Promise<{ remote: GitTestRepo; featurePath: string }> {
+  const remote = new GitTestRepo();
+  await remote.initBare();
+  await repo.runCommand('git', ['remote', 'add', 'origin', remote.path]);
+  await repo.runCommand('git', ['push', '-u', 'origin', 'main']);
+
+  const featurePath = await repo.createWorktree('feature', 'feature');
+  await repo.runCommand('git', ['push', '-u', 'origin', 'feature'], featurePath);
+
+  await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+  return { remote, featurePath };
+}
+
+/**
+ * Push a new commit to origin/feature, as if it was pushed from another machine
+ */
+async function pushRemoteFeatureCommit(repo: GitTestRepo, file: string): Promise<void> {
+  await repo.createFile(file, 'remote content');
+  await repo.createCommit(`Add ${file}`);
+  await repo.runCommand('git', ['push', 'origin', 'HEAD:refs/heads/feature']);
+  await repo.runCommand('git', ['reset', '--hard', 'HEAD~1']);
+}
+
+Deno.test('pull command - fast-forwards from the upstream branch', async () => {
+  const repo = new GitTestRepo();
+  let remote: GitTestRepo | undefined;
+  try {
+    await repo.init();
+    const setup = await setupTrackedFeature(repo);
+    remote = setup.remote;
+    await pushRemoteFeatureCommit(repo, 'remote-file.txt');
+
+    const cwd = new TempCwd(setup.featurePath);
+    try {
+      await executePull([]);
+
+      assertEquals(await Deno.readTextFile(join(setup.featurePath, 'remote-file.txt')), 'remote content');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+    await remote?.cleanup();
+  }
+});
+
+Deno.test('pull command - refuses to pull a branch that has diverged from its upstream', async () => {
+  const repo = new GitTestRepo();
+  let remote: GitTestRepo | undefined;
+  try {
+    await repo.init();
+    const setup = await setupTrackedFeature(repo);
+    remote = setup.remote;
+    await pushRemoteFeatureCommit(repo, 'remote-file.txt');
+
+    await Deno.writeTextFile(join(setup.featurePath, 'local-file.txt'), 'local content');
+    await repo.runCommand('git', ['add', 'local-file.txt'], setup.featurePath);
+    await repo.runCommand('git', ['commit', '-m', 'Local commit'], setup.featurePath);
+
+    const cwd = new TempCwd(setup.featurePath);
+    try {
+      const { exitCode, stderr } = await withMockedExit(() => executePull([]), { captureOutput: true });
+
+      assertEquals(exitCode, 1);
+      assertStringIncludes(stderr ?? '', 'Cannot fast-forward');
+      assertEquals(await pathExists(join(setup.featurePath, 'remote-file.txt')), false);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+    await remote?.cleanup();
+  }
+});
+
+Deno.test('pull command - --with-default also merges the default branch', async () => {
+  const repo = new GitTestRepo();
+  let remote: GitTestRepo | undefined;
+  try {
+    await repo.init();
+    const setup = await setupTrackedFeature(repo);
+    remote = setup.remote;
+    await pushRemoteFeatureCommit(repo, 'remote-file.txt');
+
+    await repo.createFile('main-file.txt', 'main content');
+    await repo.createCommit('Add main file');
+    await repo.runCommand('git', ['push', 'origin', 'main']);
+
+    const cwd = new TempCwd(setup.featurePath);
+    try {
+      await executePull(['--with-default']);
+
+      assertEquals(await Deno.readTextFile(join(setup.featurePath, 'remote-file.txt')), 'remote content');
+      assertEquals(await Deno.readTextFile(join(setup.featurePath, 'main-file.txt')), 'main content');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+    await remote?.cleanup();
+  }
+});
+
+Deno.test('pull command - requires an upstream branch unless --with-default', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    const featurePath = await repo.createWorktree('feature', 'feature');
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    await repo.createFile('main-file.txt', 'main content');
+    await repo.createCommit('Add main file');
+
+    const cwd = new TempCwd(featurePath);
+    try {
+      const { exitCode, stderr } = await withMockedExit(() => executePull([]), { captureOutput: true });
+      assertEquals(exitCode, 1);
+      assertStringIncludes(stderr ?? '', 'has no upstream branch');
+
+      await executePull(['--with-default']);
+      assertEquals(await Deno.readTextFile(join(featurePath, 'main-file.txt')), 'main content');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('pull command - blocks on uncommitted changes and detached HEAD', async () => {
+  const repo = new GitTestRepo();
+  let remote: GitTestRepo | undefined;
+  try {
+    await repo.init();
+    const setup = await setupTrackedFeature(repo);
+    remote = setup.remote;
+    await pushRemoteFeatureCommit(repo, 'remote-file.txt');
+
+    await Deno.writeTextFile(join(setup.featurePath, 'uncommitted.txt'), 'uncommitted');
+
+    const cwd = new TempCwd(setup.featurePath);
+    try {
+      const dirty = await withMockedExit(() => executePull([]), { captureOutput: true });
+      assertEquals(dirty.exitCode, 1);
+      assertStringIncludes(dirty.stderr ?? '', 'uncommitted changes');
+      assertEquals(await pathExists(join(setup.featurePath, 'remote-file.txt')), false);
+
+      await Deno.remove(join(setup.featurePath, 'uncommitted.txt'));
+      await repo.runCommand('git', ['checkout', '--detach'], setup.featurePath);
+
+      const detached = await withMockedExit(() => executePull([]), { captureOutput: true });
+      assertEquals(detached.exitCode, 1);
+      assertStringIncludes(detached.stderr ?? '', 'detached HEAD');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+    await remote?.cleanup();
+  }
+});
+
+Deno.test('pull command - dry run does not change the branch', async () => {
+  const repo = new GitTestRepo();
+  let remote: GitTestRepo | undefined;
+  try {
+    await repo.init();
+    const setup = await setupTrackedFeature(repo);
+    remote = setup.remote;
+    await pushRemoteFeatureCommit(repo, 'remote-file.txt');
+
+    const cwd = new TempCwd(setup.featurePath);
+    try {
+      // Dry run exits from inside the command's try block, so only the output and the tree are checked
+      const { stdout } = await withMockedExit(() => executePull(['--dry-run']), { captureOutput: true });
+
+      assertStringIncludes(stdout ?? '', 'Would fast-forward');
+      assertEquals(await pathExists(join(setup.featurePath, 'remote-file.txt')), false);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+    await remote?.cleanup();
+  }
+});
+
+Deno.test('pull command - shows help with --help', async () => {
+  const { exitCode } = await withMockedExit(() => executePull(['--help']));
+
+  assertEquals(exitCode, 0);
+});
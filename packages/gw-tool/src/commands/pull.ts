@@ -1,18 +1,65 @@
 /**
- * Pull command - merge latest version of default branch into current worktree
+ * Pull command - fast-forward the current worktree's branch from its upstream,
+ * optionally merging the latest version of the default branch afterwards
  */
 
+import { relative } from '$std/path';
 import { loadConfig } from '../lib/config.ts';
 import { parsePullArgs, showPullHelp } from '../lib/cli.ts';
 import {
+  fastForwardBranch,
   fetchAndGetStartPoint,
   getCurrentBranch,
   getCurrentWorktreePath,
+  getRemotes,
+  getUpdateInProgress,
+  getUpstreamBranch,
   hasUncommittedChanges,
   isDetachedHead,
   mergeBranch,
 } from '../lib/git-utils.ts';
+import { buildHookVariables, executeCommandHooks } from '../lib/hooks.ts';
 import * as output from '../lib/output.ts';
+import type { MergeResult } from '../lib/types.ts';
+
+/**
+ * Print the file stats and change summary of a successful merge
+ */
+function showMergeStats(result: MergeResult): void {
+  if (result.fileStats && result.fileStats.length > 0) {
+    console.log('');
+    for (const fileStat of result.fileStats) {
+      console.log(` ${output.colorizeFileStat(fileStat)}`);
+    }
+  }
+
+  if (result.filesChanged) {
+    console.log(output.dim(`${result.filesChanged} file${result.filesChanged === 1 ? '' : 's'} changed`));
+  }
+}
+
+/**
+ * Fetch a branch from a remote, falling back to a local ref when the fetch fails
+ *
+ * @returns Ref to merge from
+ */
+async function fetchBranch(branch: string, remote: string, fallback: string): Promise<string> {
+  console.log(`Fetching latest ${output.bold(branch)} from ${output.bold(remote)}...`);
+
+  const { startPoint, fetchSucceeded, message } = await fetchAndGetStartPoint(branch, remote);
+
+  if (fetchSucceeded) {
+    if (message) {
+      console.log(output.dim(message));
+    }
+    console.log(output.dim(`${output.checkmark()} Fetched successfully`));
+    return startPoint;
+  }
+
+  output.warning(message || 'Could not fetch from remote');
+  console.log(output.dim(`Using local ${fallback}`));
+  return fallback;
+}
 
 /**
  * Execute the pull command
@@ -29,22 +76,31 @@ export async function executePull(args: string[]): Promise<void> {
 
   try {
     // 3. Load config (get defaultBranch)
-    const { config } = await loadConfig();
+    const { config, gitRoot } = await loadConfig();
     const targetBranch = parsed.branch || config.defaultBranch || 'main';
+    const remotes = getRemotes(config);
 
     // 4. Get current worktree and branch
     const currentPath = await getCurrentWorktreePath();
     const currentBranch = await getCurrentBranch(currentPath);
 
-    // 5. Validate state - check for detached HEAD
+    // 5. Validate state - no merge or rebase in progress, no detached HEAD
+    const inProgress = await getUpdateInProgress(currentPath);
+    if (inProgress) {
+      output.error(`Cannot pull: a ${inProgress} is already in progress`);
+      console.log("Finish it with 'gw update --continue' or roll it back with 'gw update --abort'");
+      Deno.exit(1);
+    }
+
     if (await isDetachedHead(currentPath)) {
       output.error('Cannot pull: currently in detached HEAD state. Checkout a branch first.');
       Deno.exit(1);
     }
 
     // 6. Check for uncommitted changes (unless --force)
-    if (!parsed.force && (await hasUncommittedChanges(currentPath))) {
-      output.error('Cannot merge: uncommitted changes detected');
+    const dirty = await hasUncommittedChanges(currentPath);
+    if (!parsed.force && dirty) {
+      output.error('Cannot pull: uncommitted changes detected');
       console.log('');
       console.log('Please commit or stash your changes before pulling:');
       console.log('  git add .');
@@ -55,79 +111,132 @@ export async function executePull(args: string[]): Promise<void> {
     }
 
     // Show warning if forcing with uncommitted changes
-    if (parsed.force && (await hasUncommittedChanges(currentPath))) {
+    if (parsed.force && dirty) {
       output.warning('Proceeding with uncommitted changes due to --force flag');
     }
 
-    // 7. Fetch latest version of target branch
-    console.log(`Fetching latest ${output.bold(targetBranch)} from ${output.bold(parsed.remote)}...`);
+    // 7. Find the upstream branch (only optional with --with-default)
+    const upstream = await getUpstreamBranch(currentPath);
 
-    const { startPoint, fetchSucceeded, message } = await fetchAndGetStartPoint(targetBranch, parsed.remote);
+    if (!upstream && !parsed.withDefault) {
+      output.error(`Cannot pull: ${currentBranch} has no upstream branch`);
+      console.log('Set one with:');
+      console.log(`  git push -u ${remotes.push} ${currentBranch}`);
+      console.log(`  git branch --set-upstream-to=${remotes.push}/${currentBranch}`);
+      console.log('');
+      console.log(`Or use --with-default to only merge in ${targetBranch}`);
+      Deno.exit(1);
+    }
 
-    if (fetchSucceeded) {
-      if (message) {
-        console.log(output.dim(message));
-      }
-      console.log(output.dim(`${output.checkmark()} Fetched successfully`));
+    // 8. Fetch the upstream branch and the default branch
+    let upstreamRef: string | undefined;
+    if (upstream) {
+      upstreamRef =
+        upstream.remote === '.' ? upstream.ref : await fetchBranch(upstream.branch, upstream.remote, upstream.ref);
     } else {
-      output.warning(message || 'Could not fetch from remote');
-      console.log(output.dim('Using local branch'));
+      output.info(`${output.bold(currentBranch)} has no upstream branch, only merging ${output.bold(targetBranch)}`);
     }
 
+    const defaultRef = parsed.withDefault
+      ? await fetchBranch(targetBranch, parsed.remote || remotes.base, targetBranch)
+      : undefined;
+
     console.log('');
 
-    // 8. Dry run check
+    // 9. Dry run check
     if (parsed.dryRun) {
-      output.info(`Would merge ${output.bold(startPoint)} into ${output.bold(currentBranch)}`);
+      if (upstreamRef) {
+        output.info(`Would fast-forward ${output.bold(currentBranch)} to ${output.bold(upstreamRef)}`);
+      }
+      if (defaultRef) {
+        output.info(`Would merge ${output.bold(defaultRef)} into ${output.bold(currentBranch)}`);
+      }
       Deno.exit(0);
     }
 
-    // 9. Execute merge
-    console.log(`Merging ${output.bold(startPoint)} into ${output.bold(currentBranch)}...`);
+    // 10. Execute pre-pull hooks in the worktree (abort on failure)
+    const hookVariables = await buildHookVariables(config, {
+      worktree: relative(gitRoot, currentPath) || '.',
+      worktreePath: currentPath,
+      gitRoot,
+      branch: currentBranch,
+      baseBranch: targetBranch,
+      remote: upstream && upstream.remote !== '.' ? upstream.remote : parsed.remote,
+    });
+
+    if (!(await executeCommandHooks(config.hooks, 'pull', 'pre', currentPath, hookVariables))) {
+      output.error('Pre-pull hook failed. Aborting pull.');
+      Deno.exit(1);
+    }
+
+    // 11. Fast-forward from the upstream branch
+    if (upstreamRef) {
+      console.log(`Fast-forwarding ${output.bold(currentBranch)} to ${output.bold(upstreamRef)}...`);
 
-    const mergeResult = await mergeBranch(currentPath, startPoint);
+      const ffResult = await fastForwardBranch(currentPath, upstreamRef);
 
-    // 10. Handle result
-    if (mergeResult.success) {
-      if (mergeResult.message === 'Already up to date') {
+      if (!ffResult.success) {
         console.log('');
-        output.info(`Already up to date with ${output.bold(startPoint)}`);
+        output.error(ffResult.message || 'Fast-forward failed');
+        console.log(`Your branch and ${upstreamRef} both have new commits. Combine them with one of:`);
+        console.log(`  git rebase ${upstreamRef}`);
+        console.log(`  git merge ${upstreamRef}`);
+        Deno.exit(1);
+      }
+
+      if (ffResult.message === 'Already up to date') {
+        output.info(`Already up to date with ${output.bold(upstreamRef)}`);
       } else {
-        console.log(output.dim(`${output.checkmark()} Merged successfully`));
+        console.log(output.dim(`${output.checkmark()} Fast-forwarded successfully`));
+        console.log('');
+        output.success(`Updated ${output.bold(currentBranch)} with new commits from ${output.bold(upstreamRef)}`);
+        showMergeStats(ffResult);
+      }
+    }
+
+    // 12. Merge the default branch
+    if (defaultRef) {
+      if (upstreamRef) {
         console.log('');
-        output.success(`Updated ${output.bold(currentBranch)} with latest changes from ${output.bold(targetBranch)}`);
+      }
+      console.log(`Merging ${output.bold(defaultRef)} into ${output.bold(currentBranch)}...`);
 
-        // Display file stats if available
-        if (mergeResult.fileStats && mergeResult.fileStats.length > 0) {
+      const mergeResult = await mergeBranch(currentPath, defaultRef);
+
+      if (mergeResult.success) {
+        if (mergeResult.message === 'Already up to date') {
+          output.info(`Already up to date with ${output.bold(defaultRef)}`);
+        } else {
+          console.log(output.dim(`${output.checkmark()} Merged successfully`));
           console.log('');
-          for (const fileStat of mergeResult.fileStats) {
-            console.log(` ${output.colorizeFileStat(fileStat)}`);
-          }
+          output.success(`Updated ${output.bold(currentBranch)} with latest changes from ${output.bold(targetBranch)}`);
+          showMergeStats(mergeResult);
         }
-
-        // Display summary
-        if (mergeResult.filesChanged) {
-          console.log(
-            output.dim(`${mergeResult.filesChanged} file${mergeResult.filesChanged === 1 ? '' : 's'} changed`)
-          );
+      } else if (mergeResult.conflicted) {
+        console.log('');
+        output.error('Merge conflict detected');
+        for (const file of mergeResult.conflictedFiles ?? []) {
+          console.log(`  ${output.path(file)}`);
         }
+        console.log('');
+        console.log('Resolve conflicts manually:');
+        console.log('  1. Edit conflicted files');
+        console.log('  2. git add <resolved-files>');
+        console.log('  3. git commit');
+        console.log('');
+        console.log('Or abort the merge:');
+        console.log('  git merge --abort');
+        Deno.exit(1);
+      } else {
+        console.log('');
+        output.error(mergeResult.message || 'Merge failed');
+        Deno.exit(1);
       }
-    } else if (mergeResult.conflicted) {
-      console.log('');
-      output.error('Merge conflict detected');
-      console.log('');
-      console.log('Resolve conflicts manually:');
-      console.log('  1. Edit conflicted files');
-      console.log('  2. git add <resolved-files>');
-      console.log('  3. git commit');
-      console.log('');
-      console.log('Or abort the merge:');
-      console.log('  git merge --abort');
-      Deno.exit(1);
-    } else {
-      console.log('');
-      output.error(mergeResult.message || 'Merge failed');
-      Deno.exit(1);
+    }
+
+    // 13. Execute post-pull hooks (warn but don't abort on failure)
+    if (!(await executeCommandHooks(config.hooks, 'pull', 'post', currentPath, hookVariables))) {
+      output.warning('One or more post-pull hooks failed');
     }
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
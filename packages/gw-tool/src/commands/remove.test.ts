@@ -467,3 +467,59 @@ Deno.test('remove command - handles unmerged branch gracefully', async () => {
     await repo.cleanup();
   }
 });
+
+Deno.test('remove command - runs pre-remove and post-remove hooks', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    const worktreePath = await repo.createWorktree('feat-branch', 'feat-branch');
+
+    const config = createMinimalConfig(repo.path);
+    config.hooks = {
+      remove: {
+        pre: ['pwd > {gitRoot}/pre-remove.txt'],
+        post: ['echo {branch} > {gitRoot}/post-remove.txt'],
+      },
+    };
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await executeRemove(['--yes', 'feat-branch']);
+
+      await assertWorktreeNotExists(repo.path, 'feat-branch');
+      // Pre hook ran inside the worktree before it was deleted
+      assertEquals((await Deno.readTextFile(join(repo.path, 'pre-remove.txt'))).trim(), worktreePath);
+      assertEquals((await Deno.readTextFile(join(repo.path, 'post-remove.txt'))).trim(), 'feat-branch');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('remove command - failing pre-remove hook aborts removal', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    const worktreePath = await repo.createWorktree('feat-branch', 'feat-branch');
+
+    const config = createMinimalConfig(repo.path);
+    config.hooks = { remove: { pre: ['exit 1'] } };
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { exitCode } = await withMockedExit(() => executeRemove(['--yes', 'feat-branch']));
+
+      assertEquals(exitCode, 1);
+      const stat = await Deno.stat(worktreePath);
+      assertEquals(stat.isDirectory, true);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
@@ -3,7 +3,7 @@
  * Removes a worktree from the repository
  */
 
-import { resolve } from '$std/path';
+import { relative, resolve } from '$std/path';
 import { executeGitWorktree } from '../lib/git-proxy.ts';
 import { loadConfig } from '../lib/config.ts';
 import {
@@ -11,10 +11,17 @@ import {
   hasUncommittedChanges,
   hasUnpushedCommits,
   deleteLocalBranch,
+  getRemotes,
   isBranchCheckedOutElsewhere,
 } from '../lib/git-utils.ts';
+import { buildHookVariables, executeCommandHooks } from '../lib/hooks.ts';
 import { resolveWorktreePath } from '../lib/path-resolver.ts';
+import { releasePorts } from '../lib/ports.ts';
+import { clearSyncState } from '../lib/sync-state.ts';
+import { clearWorktreeMetadata, getWorktreeMetadata, unstackBranch } from '../lib/worktree-metadata.ts';
 import * as output from '../lib/output.ts';
+import { isInteractive, PICKER_CANCELLED_EXIT_CODE, pickWorktree } from '../lib/picker.ts';
+import type { Config } from '../lib/types.ts';
 
 /**
  * Check if a path is inside or equal to another path
@@ -37,6 +44,7 @@ export async function executeRemove(args: string[]): Promise<void> {
 
 Usage:
   gw remove [options] <worktree>
+  gw remove            # Pick the worktree interactively
 
 This command wraps 'git worktree remove' and provides smart confirmation prompts.
 
@@ -59,6 +67,11 @@ If you remove the worktree you're currently in:
   - With shell integration installed, your shell will also navigate to the root
   - Without shell integration, you'll need to manually run: cd "$(gw root)"
 
+Hooks:
+  Pre-remove hooks (hooks.remove.pre) run inside the worktree before it is
+  removed and abort the removal on failure. Post-remove hooks run in the git
+  root afterwards.
+
 Options:
   All 'git worktree remove' options are supported
   --preserve-branch   Keep the local branch after removing the worktree
@@ -90,6 +103,21 @@ For full git worktree remove documentation:
     }
   }
 
+  // Without a worktree name, pick one interactively in a terminal
+  if (!worktreeName && isInteractive()) {
+    const { config, gitRoot } = await loadConfig();
+    const defaultBranch = config.defaultBranch || 'main';
+    const removable = (await listWorktrees()).filter(
+      (wt) => !wt.bare && wt.branch !== defaultBranch && wt.branch !== 'gw_root'
+    );
+    const picked = await pickWorktree(removable, { message: 'Remove which worktree?', gitRoot });
+    if (!picked) {
+      Deno.exit(PICKER_CANCELLED_EXIT_CODE);
+    }
+    worktreeName = picked.path;
+    args = [...args, picked.path]; // Passed on to 'git worktree remove'
+  }
+
   if (!worktreeName) {
     output.error('Missing worktree name');
     console.log('Usage: gw remove [options] <worktree>');
@@ -106,9 +134,13 @@ For full git worktree remove documentation:
   let worktreeBranch: string | undefined;
   let isValidWorktree = false;
   let isLeftoverDirectory = false;
+  let repoConfig: Config = {};
+  let repoRoot = '';
 
   try {
     const { config, gitRoot } = await loadConfig();
+    repoConfig = config;
+    repoRoot = gitRoot;
     const worktrees = await listWorktrees();
 
     // First, try to find an EXACT match by worktree name or path
@@ -266,7 +298,7 @@ For full git worktree remove documentation:
       // Check if worktree has uncommitted changes or unpushed commits
       const [uncommitted, unpushed] = await Promise.all([
         hasUncommittedChanges(worktreePath),
-        hasUnpushedCommits(worktreePath),
+        hasUnpushedCommits(worktreePath, getRemotes(repoConfig).push),
       ]);
 
       if (uncommitted || unpushed) {
@@ -310,6 +342,26 @@ For full git worktree remove documentation:
     console.log('');
   }
 
+  // Prepare hook variables (hooks only run for real worktrees, not leftover directories)
+  const hookVariables =
+    isValidWorktree && worktreePath && worktreeName
+      ? await buildHookVariables(repoConfig, {
+          worktree: worktreeName,
+          worktreePath,
+          gitRoot: repoRoot,
+          branch: worktreeBranch || '',
+        })
+      : undefined;
+
+  // Execute pre-remove hooks in the worktree before it is deleted (abort on failure)
+  if (
+    hookVariables &&
+    !(await executeCommandHooks(repoConfig.hooks, 'remove', 'pre', hookVariables.worktreePath, hookVariables))
+  ) {
+    output.error('Pre-remove hook failed. Aborting worktree removal.');
+    Deno.exit(1);
+  }
+
   // If we're removing the current worktree, change to the git root first
   // This ensures git operations run from a safe location
   if (isRemovingCurrentWorktree) {
@@ -355,6 +407,11 @@ For full git worktree remove documentation:
 
         if (deleteResult.success) {
           output.success(`Deleted branch ${output.bold(`"${worktreeBranch}"`)}`);
+          if (worktreePath) {
+            // Branches stacked on the deleted branch move onto its parent
+            const { parent } = await getWorktreeMetadata(repoRoot, relative(repoRoot, worktreePath));
+            await unstackBranch(repoRoot, worktreeBranch, parent);
+          }
         } else {
           // Show warning but don't fail - worktree was already removed
           output.warning(`Could not delete branch: ${deleteResult.message}`);
@@ -366,6 +423,18 @@ For full git worktree remove documentation:
     }
   }
 
+  // Free the worktree's port range and forget its synced files and metadata
+  if (isValidWorktree && worktreePath) {
+    await releasePorts(repoRoot, relative(repoRoot, worktreePath));
+    await clearSyncState(repoRoot, relative(repoRoot, worktreePath));
+    await clearWorktreeMetadata(repoRoot, relative(repoRoot, worktreePath));
+  }
+
+  // Execute post-remove hooks in the git root (the worktree no longer exists)
+  if (hookVariables && !(await executeCommandHooks(repoConfig.hooks, 'remove', 'post', repoRoot, hookVariables))) {
+    output.warning('One or more post-remove hooks failed');
+  }
+
   // If we removed the current worktree, show a helpful message
   if (isRemovingCurrentWorktree) {
     console.log('');
@@ -0,0 +1,96 @@
+/**
+ * Tests for restack.ts command
+ */
+
+import { assertEquals, assertStringIncludes } from '$std/assert';
+import { join } from '$std/path';
+import { executeRestack } from './restack.ts';
+import { executeStack } from './stack.ts';
+import { updateWorktreeMetadata } from '../lib/worktree-metadata.ts';
+import { GitTestRepo } from '../test-utils/git-test-repo.ts';
+import { TempCwd } from '../test-utils/temp-env.ts';
+import { createMinimalConfig, writeTestConfig } from '../test-utils/fixtures.ts';
+import { withMockedExit } from '../test-utils/mock-exit.ts';
+
+/**
+ * Set up the stack main <- feat-a <- feat-b <- feat-c, each in its own worktree
+ *
+ * @returns Worktree paths by branch name
+ */
+async function setupStack(repo: GitTestRepo): Promise<Record<string, string>> {
+  await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+  const paths: Record<string, string> = {};
+  let parent = 'main';
+  for (const branch of ['feat-a', 'feat-b', 'feat-c']) {
+    await repo.runCommand('git', ['worktree', 'add', '-b', branch, branch, parent]);
+    paths[branch] = join(repo.path, branch);
+    await commitFile(repo, paths[branch], `${branch}.txt`, branch);
+    if (parent !== 'main') {
+      await updateWorktreeMetadata(repo.path, branch, { parent });
+    }
+    parent = branch;
+  }
+  return paths;
+}
+
+/**
+ * Commit a file in a worktree
+ */
+async function commitFile(repo: GitTestRepo, worktreePath: string, file: string, content: string): Promise<void> {
+  await Deno.writeTextFile(join(worktreePath, file), content);
+  await repo.runCommand('git', ['add', file], worktreePath);
+  await repo.runCommand('git', ['commit', '-m', `Add ${file}`], worktreePath);
+}
+
+Deno.test('restack command - rebases every stacked branch onto its updated parent', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    const paths = await setupStack(repo);
+    await commitFile(repo, paths['feat-a'], 'update.txt', 'new on feat-a');
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { stdout } = await withMockedExit(() => executeStack([]), { captureOutput: true });
+      assertStringIncludes(stdout ?? '', '└── ');
+      assertStringIncludes(stdout ?? '', 'needs restack');
+
+      await executeRestack([]);
+
+      // The new commit on feat-a travels all the way up the stack
+      assertEquals(await Deno.readTextFile(join(paths['feat-b'], 'update.txt')), 'new on feat-a');
+      assertEquals(await Deno.readTextFile(join(paths['feat-c'], 'update.txt')), 'new on feat-a');
+      assertEquals(await Deno.readTextFile(join(paths['feat-c'], 'feat-b.txt')), 'feat-b');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('restack command - stops at the first conflict and names the worktree', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    const paths = await setupStack(repo);
+    await commitFile(repo, paths['feat-a'], 'feat-b.txt', 'conflicting change on feat-a');
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { exitCode, stdout, stderr } = await withMockedExit(() => executeRestack([]), { captureOutput: true });
+
+      assertEquals(exitCode, 1);
+      assertStringIncludes(stderr ?? '', 'Rebase conflict in worktree');
+      assertStringIncludes(stderr ?? '', 'feat-b');
+      assertStringIncludes(stdout ?? '', 'feat-b.txt');
+      // feat-c is left alone until the conflict is resolved
+      assertEquals(stdout?.includes('feat-c'), false);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
@@ -0,0 +1,163 @@
+/**
+ * Restack command implementation
+ * Rebase stacked branches onto their updated parent branches, parents first
+ */
+
+import { relative } from '$std/path';
+import { loadConfig } from '../lib/config.ts';
+import { getUpdateInProgress, hasUncommittedChanges, listWorktrees, rebaseBranch } from '../lib/git-utils.ts';
+import * as output from '../lib/output.ts';
+import { getStackOrder, readWorktreeMetadata } from '../lib/worktree-metadata.ts';
+
+/**
+ * Parse restack command arguments
+ */
+function parseRestackArgs(args: string[]): { help: boolean; dryRun: boolean } {
+  return {
+    help: args.includes('--help') || args.includes('-h'),
+    dryRun: args.includes('--dry-run') || args.includes('-n'),
+  };
+}
+
+/**
+ * Show help for the restack command
+ */
+function showRestackHelp(): void {
+  console.log(`Usage: gw restack [options]
+
+Rebase stacked branches onto their updated parent branches.
+
+Every branch created with 'gw checkout <branch> --from <parent>' is rebased
+onto its parent, in order: a parent is restacked before the branches stacked
+on it, so new commits on the bottom of a stack travel all the way up.
+
+Restacking stops at the first conflict and names the worktree that needs
+attention. Resolve the conflict there, finish the rebase with
+'gw update --continue' (or 'git rebase --continue'), and run 'gw restack'
+again to restack the rest.
+
+Options:
+  -n, --dry-run    Show what would be rebased without executing
+  -h, --help       Show this help message
+
+Safety checks:
+  - Blocks if a stacked worktree has uncommitted changes
+  - Blocks if a merge or rebase is already in progress in a stacked worktree
+
+Examples:
+  # Show the stacks, then rebase every branch onto its parent
+  gw stack
+  gw restack
+
+  # Preview what would be rebased
+  gw restack --dry-run
+`);
+}
+
+/**
+ * Execute the restack command
+ *
+ * @param args Command-line arguments for the restack command
+ */
+export async function executeRestack(args: string[]): Promise<void> {
+  const parsed = parseRestackArgs(args);
+
+  if (parsed.help) {
+    showRestackHelp();
+    Deno.exit(0);
+  }
+
+  try {
+    const { gitRoot } = await loadConfig();
+    const worktrees = new Map((await listWorktrees()).map((wt) => [relative(gitRoot, wt.path) || '.', wt]));
+    const branches = Object.fromEntries([...worktrees].map(([name, wt]) => [name, wt.branch]));
+    const order = getStackOrder(await readWorktreeMetadata(gitRoot), branches);
+
+    if (order.length === 0) {
+      output.info('No stacked branches to restack');
+      console.log(`Stack a branch on another one with ${output.bold('gw checkout <branch> --from <parent>')}`);
+      return;
+    }
+
+    let rebased = 0;
+    let upToDate = 0;
+
+    for (const { worktree: name, branch, parent } of order) {
+      const worktree = worktrees.get(name);
+      if (!worktree) continue;
+
+      const inProgress = await getUpdateInProgress(worktree.path);
+      if (inProgress) {
+        output.error(`Cannot restack ${output.bold(branch)}: a ${inProgress} is already in progress in ${name}`);
+        console.log(`  ${output.path(worktree.path)}`);
+        console.log('');
+        console.log(`Finish it with 'gw update --continue', then run ${output.bold('gw restack')} again`);
+        Deno.exit(1);
+      }
+
+      if (await hasUncommittedChanges(worktree.path)) {
+        output.error(`Cannot restack ${output.bold(branch)}: uncommitted changes detected in ${name}`);
+        console.log(`  ${output.path(worktree.path)}`);
+        console.log('');
+        console.log(`Commit or stash them, then run ${output.bold('gw restack')} again`);
+        Deno.exit(1);
+      }
+
+      if (parsed.dryRun) {
+        output.info(`Would rebase ${output.bold(branch)} onto ${output.bold(parent)} in ${name}`);
+        continue;
+      }
+
+      console.log(`Rebasing ${output.bold(branch)} onto ${output.bold(parent)}...`);
+      const result = await rebaseBranch(worktree.path, parent);
+
+      if (result.conflicted) {
+        console.log('');
+        output.error(`Rebase conflict in worktree ${output.bold(name)}`);
+        console.log(`  ${output.path(worktree.path)}`);
+        console.log('');
+        if (result.conflictedFiles && result.conflictedFiles.length > 0) {
+          console.log('Conflicted files:');
+          for (const file of result.conflictedFiles) {
+            console.log(`  ${output.errorSymbol()} ${file}`);
+          }
+          console.log('');
+        }
+        console.log('Resolve conflicts:');
+        console.log(`  1. Edit conflicted files in ${name}`);
+        console.log('  2. git add <resolved-files>');
+        console.log("  3. gw update --continue (or 'git rebase --continue')");
+        console.log(`  4. gw restack, to restack the remaining branches`);
+        console.log('');
+        console.log("Or abort the rebase with 'gw update --abort'");
+        Deno.exit(1);
+      }
+
+      if (!result.success) {
+        console.log('');
+        output.error(`Failed to rebase ${branch} in ${name}: ${result.message || 'Rebase failed'}`);
+        Deno.exit(1);
+      }
+
+      if (result.message === 'Already up to date') {
+        console.log(output.dim(`${output.checkmark()} ${branch} is up to date with ${parent}`));
+        upToDate++;
+      } else {
+        console.log(output.dim(`${output.checkmark()} Rebased ${branch} onto ${parent}`));
+        rebased++;
+      }
+    }
+
+    if (!parsed.dryRun) {
+      console.log('');
+      output.success(`Restacked ${rebased} branch${rebased === 1 ? '' : 'es'}`);
+      if (upToDate > 0) {
+        console.log(output.dim(`${upToDate} already up to date`));
+      }
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    output.error(`Failed to restack: ${errorMsg}`);
+    Deno.exit(1);
+  }
+}
@@ -4,6 +4,8 @@
  */
 
 import { loadConfig } from '../lib/config.ts';
+import { JSON_SCHEMA_VERSION, printJson } from '../lib/json-output.ts';
+import type { RootJsonOutput } from '../lib/types.ts';
 
 /**
  * Execute the root command
@@ -13,7 +15,7 @@ import { loadConfig } from '../lib/config.ts';
 export async function executeRoot(args: string[]): Promise<void> {
   // Check for help flag
   if (args.includes('--help') || args.includes('-h')) {
-    console.log(`Usage: gw root
+    console.log(`Usage: gw root [options]
 
 Get the root directory of the current git repository.
 
@@ -24,8 +26,10 @@ Examples:
   gw root                    # Print repository root path
   cd "$(gw root)"            # Navigate to repository root
   ls "$(gw root)"            # List files in repository root
+  gw root --json             # Print repository root as JSON
 
 Options:
+  --json                     Output machine-readable JSON
   -h, --help                 Show this help message
 `);
     Deno.exit(0);
@@ -34,6 +38,13 @@ Options:
   try {
     // Load config (this will auto-detect and create config on first run)
     const { gitRoot } = await loadConfig();
+
+    if (args.includes('--json')) {
+      const payload: RootJsonOutput = { schemaVersion: JSON_SCHEMA_VERSION, command: 'root', root: gitRoot };
+      printJson(payload);
+      return;
+    }
+
     console.log(gitRoot);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -256,3 +256,33 @@ Deno.test('show-init command - uses --root when no remote exists', async () => {
     await repo.cleanup();
   }
 });
+
+Deno.test('show-init command - outputs command and config as JSON with --json', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const config: Config = {
+      root: repo.path,
+      defaultBranch: 'develop',
+      cleanThreshold: 7,
+    };
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { stdout } = await withMockedExit(() => executeShowInit(['--json']), { captureOutput: true });
+
+      const result = JSON.parse(stdout!);
+      assertEquals(result.schemaVersion, 1);
+      assertEquals(result.command, 'show-init');
+      assertEquals(result.remoteUrl, null);
+      assertEquals(result.config.defaultBranch, 'develop');
+      assertEquals(result.initCommand.includes('--default-source develop'), true);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
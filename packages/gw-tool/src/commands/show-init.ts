@@ -4,7 +4,10 @@
  */
 
 import { loadConfig } from '../lib/config.ts';
+import { normalizeCopyFile } from '../lib/file-ops.ts';
+import { JSON_SCHEMA_VERSION, printJson } from '../lib/json-output.ts';
 import * as output from '../lib/output.ts';
+import type { CopyFile, Hook, ShowInitJsonOutput } from '../lib/types.ts';
 
 /**
  * Show help for the show-init command
@@ -19,6 +22,7 @@ This command reads your existing .gw/config.json and outputs the equivalent
 the same configuration in another repository.
 
 Options:
+  --json                          Output the command and config as JSON
   -h, --help                      Show this help message
 
 Examples:
@@ -30,6 +34,9 @@ Examples:
 
   # Save to a file
   gw show-init > init-command.txt
+
+  # Machine-readable output
+  gw show-init --json
 `);
 }
 
@@ -73,6 +80,13 @@ async function getRemoteUrl(gitRoot?: string): Promise<string | null> {
   }
 }
 
+/**
+ * Get the shell command of a hook
+ */
+function hookCommand(hook: Hook): string {
+  return typeof hook === 'string' ? hook : hook.command;
+}
+
 /**
  * Generate a gw init command from a config object
  */
@@ -80,16 +94,17 @@ function generateInitCommand(
   config: {
     root?: string;
     defaultBranch?: string;
-    autoCopyFiles?: string[];
+    autoCopyFiles?: CopyFile[];
     hooks?: {
       checkout?: {
-        pre?: string[];
-        post?: string[];
+        pre?: Hook[];
+        post?: Hook[];
       };
     };
     cleanThreshold?: number;
     autoClean?: boolean;
     updateStrategy?: 'merge' | 'rebase';
+    updateAutostash?: boolean;
   },
   remoteUrl?: string | null
 ): string {
@@ -108,23 +123,23 @@ function generateInitCommand(
     parts.push(`--default-source ${escapeShellArg(config.defaultBranch)}`);
   }
 
-  // Add auto-copy files
+  // Add auto-copy files (copy modes only carry over their path)
   if (config.autoCopyFiles && config.autoCopyFiles.length > 0) {
-    const filesArg = config.autoCopyFiles.join(',');
+    const filesArg = config.autoCopyFiles.map((file) => normalizeCopyFile(file).path).join(',');
     parts.push(`--auto-copy-files ${escapeShellArg(filesArg)}`);
   }
 
-  // Add pre-checkout hooks
+  // Add pre-checkout hooks (object-form hooks only carry over their command)
   if (config.hooks?.checkout?.pre && config.hooks.checkout.pre.length > 0) {
     for (const hook of config.hooks.checkout.pre) {
-      parts.push(`--pre-checkout ${escapeShellArg(hook)}`);
+      parts.push(`--pre-checkout ${escapeShellArg(hookCommand(hook))}`);
     }
   }
 
   // Add post-checkout hooks
   if (config.hooks?.checkout?.post && config.hooks.checkout.post.length > 0) {
     for (const hook of config.hooks.checkout.post) {
-      parts.push(`--post-checkout ${escapeShellArg(hook)}`);
+      parts.push(`--post-checkout ${escapeShellArg(hookCommand(hook))}`);
     }
   }
 
@@ -143,6 +158,11 @@ function generateInitCommand(
     parts.push(`--update-strategy ${config.updateStrategy}`);
   }
 
+  // Add update autostash if enabled
+  if (config.updateAutostash) {
+    parts.push('--update-autostash');
+  }
+
   return parts.join(' ');
 }
 
@@ -168,6 +188,18 @@ export async function executeShowInit(args: string[]): Promise<void> {
     // Generate the init command with URL
     const initCommand = generateInitCommand(config, remoteUrl);
 
+    if (args.includes('--json')) {
+      const payload: ShowInitJsonOutput = {
+        schemaVersion: JSON_SCHEMA_VERSION,
+        command: 'show-init',
+        initCommand,
+        remoteUrl,
+        config,
+      };
+      printJson(payload);
+      return;
+    }
+
     // Output the command
     console.log(initCommand);
   } catch (error) {
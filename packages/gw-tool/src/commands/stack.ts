@@ -0,0 +1,122 @@
+/**
+ * Stack command implementation
+ * Show stacked branches (created with 'gw checkout <branch> --from <parent>') as a tree
+ */
+
+import { relative } from '$std/path';
+import { loadConfig } from '../lib/config.ts';
+import { getAheadBehind, listWorktrees, type WorktreeInfo } from '../lib/git-utils.ts';
+import * as output from '../lib/output.ts';
+import { getStackOrder, readWorktreeMetadata } from '../lib/worktree-metadata.ts';
+
+/**
+ * Show help for the stack command
+ */
+function showStackHelp(): void {
+  console.log(`Usage: gw stack [options]
+
+Show stacked branches as a tree.
+
+A branch created with 'gw checkout <branch> --from <parent>' is stacked on its
+parent branch. Each stacked branch shows its worktree and how far it is
+ahead of and behind its parent. A branch that is behind its parent needs a
+'gw restack' to pick up the parent's new commits.
+
+Options:
+  -h, --help       Show this help message
+
+Examples:
+  # Stack feat/child on feat/parent, then show the stack
+  gw checkout feat/child --from feat/parent
+  gw stack
+
+  # Rebase the stacked branches onto their updated parents
+  gw restack
+`);
+}
+
+/**
+ * Describe a branch in the tree: its worktree and how it relates to its parent
+ */
+async function describeBranch(
+  gitRoot: string,
+  branch: string,
+  parent: string | undefined,
+  worktree: WorktreeInfo | undefined
+): Promise<string> {
+  if (!worktree) {
+    return `${output.bold(branch)} ${output.dim('(no worktree)')}`;
+  }
+
+  const parts = [output.bold(branch), output.dim(relative(gitRoot, worktree.path) || '.')];
+
+  const aheadBehind = parent ? await getAheadBehind(worktree.path, parent) : null;
+  if (aheadBehind) {
+    parts.push(output.dim(`↑${aheadBehind.ahead} ↓${aheadBehind.behind}`));
+    if (aheadBehind.behind > 0) {
+      parts.push(output.yellow('needs restack'));
+    }
+  }
+
+  return parts.join('  ');
+}
+
+/**
+ * Execute the stack command
+ *
+ * @param args Command-line arguments for the stack command
+ */
+export async function executeStack(args: string[]): Promise<void> {
+  if (args.includes('--help') || args.includes('-h')) {
+    showStackHelp();
+    Deno.exit(0);
+  }
+
+  try {
+    const { gitRoot } = await loadConfig();
+    const worktrees = await listWorktrees();
+    const branches = Object.fromEntries(worktrees.map((wt) => [relative(gitRoot, wt.path) || '.', wt.branch]));
+    const order = getStackOrder(await readWorktreeMetadata(gitRoot), branches);
+
+    if (order.length === 0) {
+      output.info('No stacked branches');
+      console.log(`Stack a branch on another one with ${output.bold('gw checkout <branch> --from <parent>')}`);
+      return;
+    }
+
+    const findWorktree = (branch: string) => worktrees.find((wt) => wt.branch === branch);
+
+    const children = new Map<string, string[]>();
+    for (const { branch, parent } of order) {
+      children.set(parent, [...(children.get(parent) ?? []), branch]);
+    }
+
+    const printChildren = async (parent: string, indent: string) => {
+      const branches = children.get(parent) ?? [];
+      for (const [index, branch] of branches.entries()) {
+        const last = index === branches.length - 1;
+        console.log(
+          `${indent}${last ? '└── ' : '├── '}${await describeBranch(gitRoot, branch, parent, findWorktree(branch))}`
+        );
+        await printChildren(branch, indent + (last ? '    ' : '│   '));
+      }
+    };
+
+    // Roots come first in the restack order, followed by everything stacked on them
+    const roots = [...new Set(order.map((entry) => entry.parent))].filter(
+      (parent) => !order.some((entry) => entry.branch === parent)
+    );
+
+    for (const [index, root] of roots.entries()) {
+      if (index > 0) {
+        console.log('');
+      }
+      console.log(await describeBranch(gitRoot, root, undefined, findWorktree(root)));
+      await printChildren(root, '');
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    output.error(`Failed to show stacks: ${errorMsg}`);
+    Deno.exit(1);
+  }
+}
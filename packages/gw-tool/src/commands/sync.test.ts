@@ -65,6 +65,28 @@ Deno.test('sync command - syncs with explicit target', async () => {
   }
 });
 
+Deno.test('sync command - passes the worktree name to hooks when the target is a path', async () => {
+  const { repo, mainPath, featurePath } = await setupBareRepoWithWorktrees();
+  try {
+    await Deno.writeTextFile(join(mainPath, '.env'), 'SECRET=abc');
+
+    const config = createConfig(repo.path, ['.env']);
+    config.hooks = { sync: { pre: ['echo {worktree} > "{gitRoot}/hook.txt"'] } };
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(mainPath);
+    try {
+      await executeCopy([featurePath]);
+
+      await assertFileContent(join(repo.path, 'hook.txt'), 'feat-branch\n');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
 Deno.test('sync command - defaults to current worktree when no target given', async () => {
   const { repo, mainPath, featurePath } = await setupBareRepoWithWorktrees();
   try {
@@ -172,3 +194,100 @@ Deno.test('sync command - errors when trying to sync worktree to itself', async
     await repo.cleanup();
   }
 });
+
+Deno.test('sync command - --check exits non-zero when files drifted', async () => {
+  const { repo, mainPath, featurePath } = await setupBareRepoWithWorktrees();
+  try {
+    await Deno.writeTextFile(join(mainPath, '.env'), 'SECRET=abc');
+
+    const config = createConfig(repo.path, ['.env']);
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(mainPath);
+    try {
+      await executeCopy(['feat-branch']);
+
+      // In sync right after copying
+      const inSync = await withMockedExit(() => executeCopy(['--check', 'feat-branch']), { captureOutput: true });
+      if (inSync.exitCode !== undefined) {
+        throw new Error(`Expected no exit, got exit code ${inSync.exitCode}`);
+      }
+
+      await Deno.writeTextFile(join(featurePath, '.env'), 'SECRET=local');
+
+      const drifted = await withMockedExit(() => executeCopy(['--check', 'feat-branch']), { captureOutput: true });
+      if (drifted.exitCode !== 1) {
+        throw new Error(`Expected exit code 1, got ${drifted.exitCode}`);
+      }
+      if (!drifted.stdout?.includes('modified in feat-branch since the last sync')) {
+        throw new Error(`Expected the modified file to be reported, got: ${drifted.stdout}`);
+      }
+
+      // --check never copies
+      await assertFileContent(join(featurePath, '.env'), 'SECRET=local');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('sync command - skips locally modified files unless --force is given', async () => {
+  const { repo, mainPath, featurePath } = await setupBareRepoWithWorktrees();
+  try {
+    await Deno.writeTextFile(join(mainPath, '.env'), 'SECRET=abc');
+
+    const config = createConfig(repo.path, ['.env']);
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(mainPath);
+    try {
+      await executeCopy(['feat-branch']);
+      await Deno.writeTextFile(join(featurePath, '.env'), 'SECRET=local');
+      await Deno.writeTextFile(join(mainPath, '.env'), 'SECRET=updated');
+
+      // stdin isn't a terminal in tests, so the modified file is skipped without prompting
+      await withMockedExit(() => executeCopy(['feat-branch']), { captureOutput: true });
+      await assertFileContent(join(featurePath, '.env'), 'SECRET=local');
+
+      await withMockedExit(() => executeCopy(['--force', 'feat-branch']), { captureOutput: true });
+      await assertFileContent(join(featurePath, '.env'), 'SECRET=updated');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('sync command - --reverse copies changes back into the source worktree', async () => {
+  const { repo, mainPath, featurePath } = await setupBareRepoWithWorktrees();
+  try {
+    await Deno.writeTextFile(join(mainPath, '.env'), 'SECRET=abc');
+
+    const config = createConfig(repo.path, ['.env']);
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(mainPath);
+    try {
+      await executeCopy(['feat-branch']);
+      await Deno.writeTextFile(join(featurePath, '.env'), 'SECRET=rotated');
+
+      await executeCopy(['--reverse', 'feat-branch', '.env']);
+      await assertFileContent(join(mainPath, '.env'), 'SECRET=rotated');
+
+      // Both worktrees now match what was last synced
+      const { exitCode } = await withMockedExit(() => executeCopy(['--check', 'feat-branch']), {
+        captureOutput: true,
+      });
+      if (exitCode !== undefined) {
+        throw new Error(`Expected no exit, got exit code ${exitCode}`);
+      }
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
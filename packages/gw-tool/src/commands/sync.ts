@@ -2,13 +2,264 @@
  * Copy command implementation
  */
 
-import { basename } from '$std/path';
+import { basename, join, relative } from '$std/path';
 import { parseCopyArgs, showCopyHelp } from '../lib/cli.ts';
-import { loadConfig } from '../lib/config.ts';
-import { copyFiles } from '../lib/file-ops.ts';
-import { getCurrentWorktreePath } from '../lib/git-utils.ts';
-import { resolveWorktreePath, validatePathExists } from '../lib/path-resolver.ts';
+import { loadConfig, resolveConfigForBranch } from '../lib/config.ts';
+import {
+  copyFiles,
+  escapeGlob,
+  expandCopyPatterns,
+  isGlobPattern,
+  listFiles,
+  TEMPLATE_SUFFIX,
+} from '../lib/file-ops.ts';
+import { getCurrentBranch, getCurrentWorktreePath, listWorktrees } from '../lib/git-utils.ts';
+import { buildHookVariables, executeCommandHooks, substituteVariables } from '../lib/hooks.ts';
+import { isDirectory, pathExists, resolveWorktreePath, validatePathExists } from '../lib/path-resolver.ts';
+import { getSyncedHashes, hashContent, hashFile, recordSyncedHashes } from '../lib/sync-state.ts';
 import * as output from '../lib/output.ts';
+import { isInteractive, PICKER_CANCELLED_EXIT_CODE, pickWorktree } from '../lib/picker.ts';
+import type { CopyFile, CopyMode, CopyResult } from '../lib/types.ts';
+
+/**
+ * How a file in the destination compares to the source
+ * - new: doesn't exist in the destination yet
+ * - unchanged: same content as the source
+ * - updated: differs, but the destination wasn't touched since the last sync
+ * - modified: the destination copy was changed since the last sync (conflict)
+ */
+type SyncStatus = 'new' | 'unchanged' | 'updated' | 'modified';
+
+/**
+ * A file covered by a sync
+ */
+interface SyncFile {
+  /** Path relative to the source root */
+  path: string;
+  /** Path relative to the destination root (differs for rendered templates) */
+  destinationPath: string;
+  /** Content hash of what the sync writes (null for symlinks) */
+  hash: string | null;
+  /** How the destination compares to the source */
+  status: SyncStatus;
+}
+
+/**
+ * One expanded path to sync (a file or directory) and the files it covers
+ */
+interface SyncItem {
+  /** Path relative to the source root, as expanded from the entry */
+  path: string;
+  /** How the path is copied */
+  mode: CopyMode;
+  /** Entry passed to copyFiles */
+  entry: CopyFile;
+  /** Files covered by the path (empty for unmatched globs and missing paths) */
+  files: SyncFile[];
+}
+
+/**
+ * Turn a path into a copyFiles entry that matches exactly that path
+ */
+function literalEntry(path: string, mode: CopyMode, isDir: boolean): CopyFile {
+  const escaped = escapeGlob(path.replace(/\/+$/, ''));
+  // Escaped paths are globs, which only match directories with a trailing slash
+  return { path: isDir && escaped !== path.replace(/\/+$/, '') ? `${escaped}/` : escaped, mode };
+}
+
+/**
+ * Expand the entries to sync and compare each file with the destination
+ *
+ * @param fromRoot Root of the worktree files are copied from
+ * @param toRoot Root of the worktree files are copied to
+ * @param entries Paths or glob patterns to sync
+ * @param syncedHashes Hashes recorded by the last sync (destination path -> hash)
+ * @param render Renders templates (only when syncing into a worktree)
+ * @param reverse Whether files are synced back into the source worktree (symlinks are skipped)
+ */
+async function planSync(
+  fromRoot: string,
+  toRoot: string,
+  entries: CopyFile[],
+  syncedHashes: Record<string, string>,
+  render: ((content: string) => string) | undefined,
+  reverse: boolean
+): Promise<SyncItem[]> {
+  const items: SyncItem[] = [];
+  const seen = new Set<string>();
+
+  for (const expansion of await expandCopyPatterns(fromRoot, entries)) {
+    if (expansion.negated || (reverse && expansion.mode === 'symlink')) continue;
+
+    // Unmatched globs and missing paths are reported by copyFiles
+    if (expansion.glob && expansion.paths.length === 0) {
+      items.push({ path: expansion.pattern, mode: expansion.mode, entry: expansion.pattern, files: [] });
+      continue;
+    }
+
+    for (const path of expansion.paths) {
+      if (seen.has(path)) continue;
+      seen.add(path);
+
+      const sourcePath = join(fromRoot, path);
+      if (!(await pathExists(sourcePath))) {
+        items.push({ path, mode: expansion.mode, entry: { path, mode: expansion.mode }, files: [] });
+        continue;
+      }
+
+      const entry = literalEntry(path, expansion.mode, await isDirectory(sourcePath));
+
+      // Symlinks share the source, so there is nothing to compare file by file
+      if (expansion.mode === 'symlink') {
+        const linkedPath = await Deno.realPath(join(toRoot, path)).catch(() => null);
+        const status = linkedPath === (await Deno.realPath(sourcePath)) ? 'unchanged' : 'new';
+        items.push({
+          path,
+          mode: expansion.mode,
+          entry,
+          files: [{ path, destinationPath: path, hash: null, status }],
+        });
+        continue;
+      }
+
+      const files: SyncFile[] = [];
+      for (const file of await listFiles(fromRoot, path)) {
+        const template = render !== undefined && file.endsWith(TEMPLATE_SUFFIX);
+        const destinationPath = template ? file.slice(0, -TEMPLATE_SUFFIX.length) : file;
+
+        const content = await Deno.readFile(join(fromRoot, file));
+        const hash = await hashContent(
+          template ? new TextEncoder().encode(render(new TextDecoder().decode(content))) : content
+        );
+        const destinationHash = await hashFile(join(toRoot, destinationPath));
+        const syncedHash = syncedHashes[destinationPath];
+
+        let status: SyncStatus;
+        if (destinationHash === null) {
+          status = 'new';
+        } else if (destinationHash === hash) {
+          status = 'unchanged';
+        } else if (syncedHash === undefined || destinationHash === syncedHash) {
+          // Files synced before gw tracked them are overwritten, as they always were
+          status = 'updated';
+        } else {
+          status = 'modified';
+        }
+
+        files.push({ path: file, destinationPath, hash, status });
+      }
+
+      items.push({ path, mode: expansion.mode, entry, files });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Print how the files of each item compare and whether anything drifted
+ *
+ * @returns Whether any file differs between the worktrees
+ */
+function reportDrift(items: SyncItem[], fromName: string, toName: string): boolean {
+  let total = 0;
+  let drifted = 0;
+
+  for (const item of items) {
+    if (item.files.length === 0) {
+      const reason = isGlobPattern(item.path) ? 'No files match' : 'Source not found';
+      console.log(`  ${output.warningSymbol()} ${reason}: ${item.path}`);
+      continue;
+    }
+
+    for (const file of item.files) {
+      total++;
+      if (file.status === 'unchanged') {
+        console.log(`  ${output.checkmark()} ${file.destinationPath}`);
+        continue;
+      }
+
+      drifted++;
+      const reason =
+        file.status === 'new'
+          ? `missing in ${toName}`
+          : file.status === 'modified'
+            ? `modified in ${toName} since the last sync`
+            : `differs from ${fromName}`;
+      console.log(`  ${output.errorSymbol()} ${file.destinationPath} ${output.dim(`(${reason})`)}`);
+    }
+  }
+
+  if (drifted > 0) {
+    output.warning(`${output.bold(`${drifted}/${total}`)} ${total === 1 ? 'file differs' : 'files differ'}`);
+  } else {
+    output.success(`All ${output.bold(`${total}`)} ${total === 1 ? 'file is' : 'files are'} in sync`);
+  }
+
+  return drifted > 0;
+}
+
+/**
+ * Show a diff between the destination file and what the sync would write
+ */
+async function showConflictDiff(
+  file: SyncFile,
+  fromRoot: string,
+  toRoot: string,
+  render?: (content: string) => string
+): Promise<void> {
+  let incomingPath = join(fromRoot, file.path);
+  let renderedPath: string | undefined;
+
+  // Templates are compared after rendering
+  if (render && file.path !== file.destinationPath) {
+    renderedPath = await Deno.makeTempFile();
+    await Deno.writeTextFile(renderedPath, render(await Deno.readTextFile(incomingPath)));
+    incomingPath = renderedPath;
+  }
+
+  try {
+    await new Deno.Command('git', {
+      args: ['--no-pager', 'diff', '--no-index', '--', join(toRoot, file.destinationPath), incomingPath],
+      stdout: 'inherit',
+      stderr: 'inherit',
+    }).output();
+  } finally {
+    if (renderedPath) {
+      await Deno.remove(renderedPath);
+    }
+  }
+}
+
+/**
+ * Ask whether to overwrite a file that was modified in the destination
+ *
+ * @returns Whether to overwrite the file
+ */
+async function confirmOverwrite(
+  file: SyncFile,
+  toName: string,
+  fromRoot: string,
+  toRoot: string,
+  render?: (content: string) => string
+): Promise<boolean> {
+  while (true) {
+    const response = prompt(
+      `  ${output.warningSymbol()} ${output.bold(file.destinationPath)} was modified in ${output.bold(toName)}. ` +
+        `[o]verwrite, [s]kip, [d]iff? [s]:`
+    );
+    const answer = (response ?? '').trim().toLowerCase();
+
+    if (answer === 'o' || answer === 'overwrite') {
+      return true;
+    }
+    if (answer === 'd' || answer === 'diff') {
+      await showConflictDiff(file, fromRoot, toRoot, render);
+      continue;
+    }
+    return false;
+  }
+}
 
 /**
  * Execute the copy command
@@ -26,7 +277,7 @@ export async function executeCopy(args: string[]): Promise<void> {
   }
 
   // 3. Load config (needed for autoCopyFiles and defaultBranch)
-  const { config, gitRoot } = await loadConfig();
+  const { config: baseConfig, gitRoot } = await loadConfig();
 
   // 4. Resolve target - default to current worktree if not specified
   let target = parsed.target;
@@ -40,8 +291,11 @@ export async function executeCopy(args: string[]): Promise<void> {
     target = basename(currentWorktreePath);
   }
 
+  // Apply the overrides matching the target worktree's branch
+  const config = resolveConfigForBranch(baseConfig, await getCurrentBranch(resolveWorktreePath(gitRoot, target)));
+
   // 5. Determine files to copy - use autoCopyFiles from config if no files specified
-  let filesToCopy = parsed.files;
+  let filesToCopy: CopyFile[] = parsed.files;
   if (filesToCopy.length === 0 && config.autoCopyFiles?.length) {
     filesToCopy = config.autoCopyFiles;
   }
@@ -52,8 +306,20 @@ export async function executeCopy(args: string[]): Promise<void> {
     Deno.exit(1);
   }
 
-  // 6. Resolve paths
-  const sourceWorktree = parsed.from || config.defaultBranch || 'main';
+  // 6. Resolve paths (in a terminal, an empty or unknown --from is picked interactively)
+  let sourceWorktree = parsed.from || config.defaultBranch || 'main';
+  if (
+    parsed.from !== undefined &&
+    isInteractive() &&
+    (!parsed.from || !(await pathExists(resolveWorktreePath(gitRoot, parsed.from))))
+  ) {
+    const worktrees = (await listWorktrees()).filter((wt) => !wt.bare);
+    const picked = await pickWorktree(worktrees, { message: 'Sync from which worktree?', query: parsed.from, gitRoot });
+    if (!picked) {
+      Deno.exit(PICKER_CANCELLED_EXIT_CODE);
+    }
+    sourceWorktree = relative(gitRoot, picked.path) || '.';
+  }
   const sourcePath = resolveWorktreePath(gitRoot, sourceWorktree);
   const targetPath = resolveWorktreePath(gitRoot, target);
 
@@ -80,30 +346,149 @@ export async function executeCopy(args: string[]): Promise<void> {
     Deno.exit(1);
   }
 
-  // 9. Copy files
+  // 9. Sync direction: --reverse copies from the target back into the source
+  const [fromName, fromPath, toName, toPath] = parsed.reverse
+    ? [target, targetPath, sourceWorktree, sourcePath]
+    : [sourceWorktree, sourcePath, target, targetPath];
+
+  // Sync state is tracked per (non-source) worktree
+  const stateKey = relative(gitRoot, targetPath) || '.';
+
+  // 10. Compare the files in both worktrees
+  const syncedHashes = await getSyncedHashes(gitRoot, stateKey);
+  const hookVariables = await buildHookVariables(config, {
+    worktree: stateKey,
+    worktreePath: targetPath,
+    gitRoot,
+    branch: await getCurrentBranch(targetPath),
+    baseBranch: sourceWorktree,
+  });
+
+  // Templates are only rendered when syncing into a worktree
+  const render = parsed.reverse ? undefined : (content: string) => substituteVariables(content, hookVariables);
+  const plan = () => planSync(fromPath, toPath, filesToCopy, syncedHashes, render, parsed.reverse ?? false);
+
+  // With --check, only report drift
+  if (parsed.check) {
+    console.log(`Comparing ${output.bold(toName)} with ${output.bold(fromName)}...\n`);
+    if (reportDrift(await plan(), fromName, toName)) {
+      Deno.exit(1);
+    }
+    return;
+  }
+
+  // 11. Execute pre-sync hooks in the target worktree (abort on failure, skipped in dry run)
+  if (!parsed.dryRun && !(await executeCommandHooks(config.hooks, 'sync', 'pre', targetPath, hookVariables))) {
+    output.error('Pre-sync hook failed. Aborting sync.');
+    Deno.exit(1);
+  }
+
+  // 12. Copy files
   const dryRunNotice = parsed.dryRun ? output.dim(' (DRY RUN)') : '';
-  console.log(`Copying from ${output.bold(sourceWorktree)} to ${output.bold(target)}${dryRunNotice}...\n`);
+  console.log(`Copying from ${output.bold(fromName)} to ${output.bold(toName)}${dryRunNotice}...\n`);
 
-  const results = await copyFiles(sourcePath, targetPath, filesToCopy, parsed.dryRun);
+  // Show what glob patterns and exclusions expanded to
+  if (parsed.dryRun) {
+    const expansions = (await expandCopyPatterns(fromPath, filesToCopy)).filter((e) => e.glob || e.negated);
+    for (const expansion of expansions) {
+      const count = expansion.paths.length;
+      const modeNote = expansion.mode !== 'copy' ? ` (${expansion.mode})` : '';
+      const summary = expansion.negated
+        ? `excludes ${count} ${count === 1 ? 'path' : 'paths'}`
+        : `matches ${count} ${count === 1 ? 'path' : 'paths'}${modeNote}`;
+      console.log(`  ${output.bold(expansion.pattern)} ${output.dim(summary)}`);
+      for (const path of expansion.paths) {
+        console.log(`    ${output.dim(path)}`);
+      }
+    }
+    if (expansions.length > 0) {
+      console.log();
+    }
+  }
+
+  // Files modified in the destination since the last sync are only overwritten when confirmed
+  // (planned after the pre-sync hooks, which may change the files)
+  const items = await plan();
+  const conflicts = parsed.force ? [] : items.flatMap((item) => item.files).filter((f) => f.status === 'modified');
+  const interactive = Deno.stdin.isTerminal() && !parsed.dryRun;
+  const skipped = new Set<SyncFile>();
+  for (const file of conflicts) {
+    if (!interactive || !(await confirmOverwrite(file, toName, fromPath, toPath, render))) {
+      skipped.add(file);
+    }
+  }
+  if (interactive && conflicts.length > 0) {
+    console.log();
+  }
 
-  // 10. Display results
+  // Items with skipped files are copied file by file
+  const entries: CopyFile[] = [];
+  const skippedResults: CopyResult[] = [];
+  for (const item of items) {
+    const kept = item.files.filter((file) => !skipped.has(file));
+    if (kept.length === item.files.length) {
+      entries.push(item.entry);
+      continue;
+    }
+
+    entries.push(...kept.map((file) => literalEntry(file.path, item.mode, false)));
+    for (const file of item.files.filter((file) => skipped.has(file))) {
+      skippedResults.push({
+        success: true,
+        skipped: true,
+        message: parsed.dryRun
+          ? `Would ask before overwriting (modified in ${toName}): ${file.destinationPath}`
+          : `Skipped (modified in ${toName}): ${file.destinationPath}`,
+        path: file.path,
+      });
+    }
+  }
+
+  const results = [...(await copyFiles(fromPath, toPath, entries, parsed.dryRun, render)), ...skippedResults];
+
+  // Remember what was synced, so the next sync can tell whether the files were changed
+  if (!parsed.dryRun) {
+    const copied = new Set(results.filter((r) => r.success && !r.skipped).map((r) => r.path));
+    const hashes: Record<string, string> = {};
+    for (const item of items) {
+      for (const file of item.files) {
+        if (file.hash && !skipped.has(file) && (copied.has(item.path) || copied.has(file.path))) {
+          hashes[file.destinationPath] = file.hash;
+        }
+      }
+    }
+    await recordSyncedHashes(gitRoot, stateKey, hashes);
+  }
+
+  // 13. Display results
   for (const result of results) {
-    if (result.success) {
+    if (result.success && !result.skipped) {
       console.log(`  ${output.checkmark()} ${result.message}`);
     } else {
       console.log(`  ${output.warningSymbol()} ${result.message}`);
     }
   }
 
-  // 11. Summary
-  const successCount = results.filter((r) => r.success).length;
+  if (skippedResults.length > 0 && !parsed.dryRun) {
+    const fileWord = skippedResults.length === 1 ? 'file was' : 'files were';
+    output.warning(`${skippedResults.length} locally modified ${fileWord} skipped (use --force to overwrite)`);
+  }
+
+  // 14. Summary (patterns that matched nothing and skipped files are only a warning)
+  const copyResults = results.filter((r) => !r.skipped);
+  const successCount = copyResults.filter((r) => r.success).length;
   const verb = parsed.dryRun ? 'Would copy' : 'Copied';
   const fileWord = successCount === 1 ? 'file' : 'files';
 
-  if (successCount === results.length) {
-    output.success(`${verb} ${output.bold(`${successCount}/${results.length}`)} ${fileWord}`);
+  if (successCount === copyResults.length) {
+    // Execute post-sync hooks (warn but don't abort on failure)
+    if (!parsed.dryRun && !(await executeCommandHooks(config.hooks, 'sync', 'post', targetPath, hookVariables))) {
+      output.warning('One or more post-sync hooks failed');
+    }
+
+    output.success(`${verb} ${output.bold(`${successCount}/${copyResults.length}`)} ${fileWord}`);
   } else {
-    output.warning(`${verb} ${output.bold(`${successCount}/${results.length}`)} ${fileWord}`);
+    output.warning(`${verb} ${output.bold(`${successCount}/${copyResults.length}`)} ${fileWord}`);
     Deno.exit(1);
   }
 }
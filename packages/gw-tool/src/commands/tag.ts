@@ -0,0 +1,119 @@
+/**
+ * Tag command implementation
+ * Show, add or remove the tags of a worktree
+ */
+
+import { relative } from '$std/path';
+import { loadConfig } from '../lib/config.ts';
+import { findWorktree } from '../lib/git-utils.ts';
+import * as output from '../lib/output.ts';
+import { getWorktreeMetadata, updateWorktreeMetadata } from '../lib/worktree-metadata.ts';
+
+/**
+ * Parse tag command arguments
+ */
+function parseTagArgs(args: string[]): {
+  help: boolean;
+  remove: boolean;
+  worktree?: string;
+  tags: string[];
+} {
+  const positional = args.filter((arg) => !arg.startsWith('-'));
+
+  return {
+    help: args.includes('--help') || args.includes('-h'),
+    remove: args.includes('--remove') || args.includes('-r'),
+    worktree: positional[0],
+    tags: positional.slice(1),
+  };
+}
+
+/**
+ * Show help for the tag command
+ */
+function showTagHelp(): void {
+  console.log(`Usage: gw tag <worktree> [tags...] [options]
+
+Show, add or remove the tags of a worktree.
+
+Tags group related worktrees (e.g., "review", "blocked", "release-2.3") and are
+shown next to them in 'gw list'. They are stored in .gw/worktrees.json and
+move along with 'gw move'.
+
+Arguments:
+  <worktree>       Worktree name, path or branch
+  [tags...]        Tags to add (shows the current tags when omitted)
+
+Options:
+  -r, --remove     Remove the given tags instead of adding them
+  -h, --help       Show this help message
+
+Examples:
+  # Tag a worktree
+  gw tag fix-123 review urgent
+
+  # Show its tags
+  gw tag fix-123
+
+  # Remove a tag
+  gw tag fix-123 --remove urgent
+`);
+}
+
+/**
+ * Execute the tag command
+ *
+ * @param args Command-line arguments for the tag command
+ */
+export async function executeTag(args: string[]): Promise<void> {
+  const parsed = parseTagArgs(args);
+
+  if (parsed.help) {
+    showTagHelp();
+    Deno.exit(0);
+  }
+
+  if (!parsed.worktree) {
+    output.error('Worktree name is required');
+    console.log('Usage: gw tag <worktree> [tags...]');
+    Deno.exit(1);
+  }
+
+  if (parsed.remove && parsed.tags.length === 0) {
+    output.error('No tags to remove');
+    console.log('Usage: gw tag <worktree> --remove <tags...>');
+    Deno.exit(1);
+  }
+
+  const { gitRoot } = await loadConfig();
+  const worktree = await findWorktree(gitRoot, parsed.worktree);
+
+  if (!worktree) {
+    output.error(`Worktree ${output.bold(parsed.worktree)} does not exist`);
+    Deno.exit(1);
+  }
+
+  const name = relative(gitRoot, worktree.path) || '.';
+  const current = (await getWorktreeMetadata(gitRoot, name)).tags ?? [];
+
+  if (parsed.tags.length === 0) {
+    if (current.length > 0) {
+      console.log(current.join('\n'));
+    } else {
+      output.info(`${output.bold(name)} has no tags`);
+    }
+    return;
+  }
+
+  const tags = parsed.remove
+    ? current.filter((tag) => !parsed.tags.includes(tag))
+    : [...new Set([...current, ...parsed.tags])];
+
+  await updateWorktreeMetadata(gitRoot, name, { tags: tags.length > 0 ? tags : undefined });
+
+  if (tags.length > 0) {
+    output.success(`Tags of ${output.bold(name)}: ${tags.join(', ')}`);
+  } else {
+    output.success(`Removed all tags of ${output.bold(name)}`);
+  }
+}
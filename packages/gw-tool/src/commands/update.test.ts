@@ -2,9 +2,10 @@
  * Tests for update.ts command
  */
 
-import { assertEquals } from '$std/assert';
+import { assertEquals, assertStringIncludes } from '$std/assert';
 import { join } from '$std/path';
 import { executeUpdate } from './update.ts';
+import { pathExists } from '../lib/path-resolver.ts';
 import { GitTestRepo } from '../test-utils/git-test-repo.ts';
 import { TempCwd } from '../test-utils/temp-env.ts';
 import { createMinimalConfig, writeTestConfig } from '../test-utils/fixtures.ts';
@@ -565,3 +566,258 @@ Deno.test('update command - allows --from with no remote configured', async () =
     await repo.cleanup();
   }
 });
+
+Deno.test('update command - --all updates clean worktrees and continues past conflicts', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const cleanPath = await repo.createWorktree('feat-clean', 'feat-clean');
+    const conflictPath = await repo.createWorktree('feat-conflict', 'feat-conflict');
+    const dirtyPath = await repo.createWorktree('feat-dirty', 'feat-dirty');
+
+    // Conflicting change on one feature branch
+    await Deno.writeTextFile(join(conflictPath, 'shared.txt'), 'feature content');
+    await repo.runCommand('git', ['add', 'shared.txt'], conflictPath);
+    await repo.runCommand('git', ['commit', '-m', 'Feature change'], conflictPath);
+
+    // Add commit to main
+    await repo.createFile('shared.txt', 'main content');
+    await repo.runCommand('git', ['add', 'shared.txt'], repo.path);
+    await repo.runCommand('git', ['commit', '-m', 'Main change'], repo.path);
+
+    await Deno.writeTextFile(join(dirtyPath, 'uncommitted.txt'), 'uncommitted');
+
+    const config = createMinimalConfig(repo.path);
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { exitCode, stdout } = await withMockedExit(() => executeUpdate(['--all']), { captureOutput: true });
+
+      // Conflicts make the command fail, but the other worktrees are still handled
+      assertEquals(exitCode, 1);
+      assertEquals(await Deno.readTextFile(join(cleanPath, 'shared.txt')), 'main content');
+      assertEquals(await Deno.readTextFile(join(conflictPath, 'shared.txt')), 'feature content');
+      assertEquals(await pathExists(join(dirtyPath, 'shared.txt')), false);
+
+      // The conflicting merge was aborted
+      assertEquals(await pathExists(join(repo.path, '.git', 'worktrees', 'feat-conflict', 'MERGE_HEAD')), false);
+
+      assertStringIncludes(stdout ?? '', '1 updated, 0 up to date, 2 skipped, 1 conflicted, 0 failed');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('update command - --all --dry-run leaves the worktrees untouched', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const featPath = await repo.createWorktree('feat', 'feat');
+    await repo.createFile('main.txt', 'main content');
+    await repo.runCommand('git', ['add', 'main.txt'], repo.path);
+    await repo.runCommand('git', ['commit', '-m', 'Main change'], repo.path);
+
+    // Autostash recorded by an earlier update that stopped at a conflict
+    const autostashPath = join(repo.path, '.git', 'worktrees', 'feat', 'gw-autostash');
+    await Deno.writeTextFile(autostashPath, 'abc123\n');
+
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { stdout } = await withMockedExit(() => executeUpdate(['--all', '--dry-run']), { captureOutput: true });
+
+      assertStringIncludes(stdout ?? '', 'would update');
+      assertEquals(await pathExists(join(featPath, 'main.txt')), false);
+      assertEquals(await Deno.readTextFile(autostashPath), 'abc123\n');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('update command - updates only the listed worktrees', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const featureAPath = await repo.createWorktree('feat-a', 'feat-a');
+    const featureBPath = await repo.createWorktree('feat-b', 'feat-b');
+
+    // Add commit to main
+    await repo.createFile('main-file.txt', 'main content');
+    await repo.runCommand('git', ['add', 'main-file.txt'], repo.path);
+    await repo.runCommand('git', ['commit', '-m', 'Add main file'], repo.path);
+
+    const config = createMinimalConfig(repo.path);
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await executeUpdate(['feat-a']);
+
+      assertEquals(await pathExists(join(featureAPath, 'main-file.txt')), true);
+      assertEquals(await pathExists(join(featureBPath, 'main-file.txt')), false);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+/**
+ * Create a feature worktree whose change to shared.txt conflicts with main
+ */
+async function setupConflictingWorktree(repo: GitTestRepo): Promise<string> {
+  const featurePath = await repo.createWorktree('feature', 'feature');
+
+  await Deno.writeTextFile(join(featurePath, 'shared.txt'), 'feature content');
+  await repo.runCommand('git', ['add', 'shared.txt'], featurePath);
+  await repo.runCommand('git', ['commit', '-m', 'Feature change'], featurePath);
+
+  await repo.createFile('shared.txt', 'main content');
+  await repo.runCommand('git', ['add', 'shared.txt'], repo.path);
+  await repo.runCommand('git', ['commit', '-m', 'Main change'], repo.path);
+
+  await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+  return featurePath;
+}
+
+Deno.test('update command - --continue finishes a merge after conflicts are resolved', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    const featurePath = await setupConflictingWorktree(repo);
+
+    const cwd = new TempCwd(featurePath);
+    try {
+      const update = await withMockedExit(() => executeUpdate([]), { captureOutput: true });
+      assertEquals(update.exitCode, 1);
+
+      const status = await withMockedExit(() => executeUpdate(['--status']), { captureOutput: true });
+      assertEquals(status.exitCode, undefined);
+      assertStringIncludes(status.stdout ?? '', 'shared.txt');
+
+      // Starting another update or continuing before the conflict is resolved fails
+      assertEquals((await withMockedExit(() => executeUpdate([]), { captureOutput: true })).exitCode, 1);
+      assertEquals((await withMockedExit(() => executeUpdate(['--continue']), { captureOutput: true })).exitCode, 1);
+
+      await Deno.writeTextFile(join(featurePath, 'shared.txt'), 'resolved content');
+      await repo.runCommand('git', ['add', 'shared.txt'], featurePath);
+
+      const resumed = await withMockedExit(() => executeUpdate(['--continue']), { captureOutput: true });
+      assertEquals(resumed.exitCode, undefined);
+      assertEquals(await pathExists(join(repo.path, '.git', 'worktrees', 'feature', 'MERGE_HEAD')), false);
+      assertEquals(await Deno.readTextFile(join(featurePath, 'shared.txt')), 'resolved content');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('update command - --abort rolls back a conflicted rebase', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    const featurePath = await setupConflictingWorktree(repo);
+
+    const cwd = new TempCwd(featurePath);
+    try {
+      const update = await withMockedExit(() => executeUpdate(['--rebase']), { captureOutput: true });
+      assertEquals(update.exitCode, 1);
+
+      const aborted = await withMockedExit(() => executeUpdate(['--abort']), { captureOutput: true });
+      assertEquals(aborted.exitCode, undefined);
+      assertEquals(await Deno.readTextFile(join(featurePath, 'shared.txt')), 'feature content');
+
+      // Nothing left to abort
+      assertEquals((await withMockedExit(() => executeUpdate(['--abort']), { captureOutput: true })).exitCode, 1);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('update command - --autostash stashes and re-applies uncommitted changes', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createFile('tracked.txt', 'original');
+    await repo.runCommand('git', ['add', 'tracked.txt'], repo.path);
+    await repo.runCommand('git', ['commit', '-m', 'Add tracked file'], repo.path);
+
+    const featurePath = await repo.createWorktree('feature', 'feature');
+
+    // Add commit to main
+    await repo.createFile('main-file.txt', 'main content');
+    await repo.runCommand('git', ['add', 'main-file.txt'], repo.path);
+    await repo.runCommand('git', ['commit', '-m', 'Add main file'], repo.path);
+
+    await writeTestConfig(repo.path, createMinimalConfig(repo.path));
+
+    // Tracked and untracked changes
+    await Deno.writeTextFile(join(featurePath, 'tracked.txt'), 'local edit');
+    await Deno.writeTextFile(join(featurePath, 'untracked.txt'), 'new file');
+
+    const cwd = new TempCwd(featurePath);
+    try {
+      await executeUpdate(['--autostash']);
+
+      assertEquals(await Deno.readTextFile(join(featurePath, 'main-file.txt')), 'main content');
+      assertEquals(await Deno.readTextFile(join(featurePath, 'tracked.txt')), 'local edit');
+      assertEquals(await Deno.readTextFile(join(featurePath, 'untracked.txt')), 'new file');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('update command - keeps the stash when re-applying it conflicts', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    const featurePath = await repo.createWorktree('feature', 'feature');
+
+    // Main adds shared.txt, and the feature worktree has an untracked file with the same name
+    await repo.createFile('shared.txt', 'main content');
+    await repo.runCommand('git', ['add', 'shared.txt'], repo.path);
+    await repo.runCommand('git', ['commit', '-m', 'Main change'], repo.path);
+    await Deno.writeTextFile(join(featurePath, 'shared.txt'), 'local content');
+
+    const config = createMinimalConfig(repo.path);
+    config.updateAutostash = true;
+    await writeTestConfig(repo.path, config);
+
+    const cwd = new TempCwd(featurePath);
+    try {
+      const { exitCode, stdout } = await withMockedExit(() => executeUpdate([]), { captureOutput: true });
+
+      assertEquals(exitCode, 1);
+      assertStringIncludes(stdout ?? '', 'kept in the stash');
+
+      // The update itself went through, and the local change is still in the stash
+      assertEquals(await Deno.readTextFile(join(featurePath, 'shared.txt')), 'main content');
+      const stash = new Deno.Command('git', { args: ['stash', 'list'], cwd: featurePath, stdout: 'piped' });
+      assertStringIncludes(new TextDecoder().decode((await stash.output()).stdout), 'gw update autostash');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
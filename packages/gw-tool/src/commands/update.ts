@@ -1,19 +1,535 @@
 /**
- * Update command - update current worktree with latest changes from default branch
+ * Update command - update worktrees with latest changes from default branch
  */
 
-import { loadConfig } from '../lib/config.ts';
+import { relative } from '$std/path';
+import { loadConfig, resolveConfigForBranch } from '../lib/config.ts';
 import { parseUpdateArgs, showUpdateHelp } from '../lib/cli.ts';
 import {
+  abortUpdate,
+  continueUpdate,
   fetchAndGetStartPoint,
+  getConflictedFiles,
   getCurrentBranch,
   getCurrentWorktreePath,
+  getGitPath,
+  getRemotes,
+  getUpdateInProgress,
   hasUncommittedChanges,
   isDetachedHead,
+  listWorktrees,
   mergeBranch,
   rebaseBranch,
+  restoreStash,
+  stashChanges,
+  type WorktreeInfo,
 } from '../lib/git-utils.ts';
+import { buildHookVariables, executeCommandHooks } from '../lib/hooks.ts';
+import { resolveWorktreePath } from '../lib/path-resolver.ts';
 import * as output from '../lib/output.ts';
+import { isInteractive, PICKER_CANCELLED_EXIT_CODE, pickWorktree } from '../lib/picker.ts';
+import type { Config, UpdateOptions } from '../lib/types.ts';
+
+/** Result of updating one worktree with --all or a list of worktrees */
+type UpdateStatus = 'updated' | 'up to date' | 'would update' | 'skipped' | 'conflicted' | 'failed';
+
+interface WorktreeUpdate {
+  worktree: string;
+  branch: string;
+  status: UpdateStatus;
+  details: string;
+}
+
+/** Stash message for changes stashed by autostash */
+const AUTOSTASH_MESSAGE = 'gw update autostash';
+
+/**
+ * File in the worktree's git directory that holds the autostash of an update that stopped
+ * at a conflict, so --continue and --abort can re-apply it
+ */
+const PENDING_AUTOSTASH_FILE = 'gw-autostash';
+
+/**
+ * Get the autostash of an update that stopped at a conflict, if any
+ */
+async function readPendingAutostash(worktreePath: string): Promise<string | null> {
+  try {
+    return (await Deno.readTextFile(await getGitPath(worktreePath, PENDING_AUTOSTASH_FILE))).trim() || null;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remember (or forget, with null) the autostash of an update that stopped at a conflict
+ */
+async function writePendingAutostash(worktreePath: string, stash: string | null): Promise<void> {
+  const path = await getGitPath(worktreePath, PENDING_AUTOSTASH_FILE);
+  if (stash) {
+    await Deno.writeTextFile(path, `${stash}\n`);
+  } else {
+    await Deno.remove(path).catch(() => {});
+  }
+}
+
+/**
+ * Re-apply changes stashed by autostash
+ * If they conflict with the update, the stash entry is kept and the user is told how to finish.
+ *
+ * @returns Whether the changes were re-applied cleanly
+ */
+async function reapplyAutostash(worktreePath: string, stash: string): Promise<boolean> {
+  const restored = await restoreStash(worktreePath, stash);
+
+  if (restored.success) {
+    console.log(output.dim(`${output.checkmark()} Re-applied stashed changes`));
+    return true;
+  }
+
+  output.warning('Your stashed changes could not be re-applied cleanly');
+  if (restored.conflictedFiles.length > 0) {
+    console.log('Conflicted files:');
+    for (const file of restored.conflictedFiles) {
+      console.log(`  ${output.errorSymbol()} ${file}`);
+    }
+    console.log('');
+  } else if (restored.message) {
+    console.log(output.dim(restored.message));
+    console.log('');
+  }
+  console.log(`Nothing is lost: the changes are kept in the stash (${output.bold(stash.slice(0, 7))}).`);
+  console.log(`Resolve the conflicts, then remove the entry with ${output.bold('git stash drop')}`);
+  console.log(`(see ${output.bold('git stash list')}).`);
+  return false;
+}
+
+/**
+ * Fetch the latest version of the branch to update from
+ * Exits when a branch given with --from can't be fetched; otherwise falls back to the local branch.
+ *
+ * @param remote Remote to fetch from (--remote, or the configured base remote)
+ * @returns The ref to merge or rebase onto
+ */
+async function fetchSourceBranch(targetBranch: string, remote: string, parsed: UpdateOptions): Promise<string> {
+  console.log(`Fetching latest ${output.bold(targetBranch)} from ${output.bold(remote)}...`);
+
+  const { startPoint, fetchSucceeded, message } = await fetchAndGetStartPoint(targetBranch, remote);
+
+  if (fetchSucceeded) {
+    if (message) {
+      console.log(output.dim(message));
+    }
+    console.log(output.dim(`${output.checkmark()} Fetched successfully`));
+  } else {
+    // Check if failure is due to no remote (acceptable) or fetch failure (problematic)
+    const noRemoteConfigured = message && message.includes('No remote');
+
+    // When --from is explicitly specified and remote exists but fetch failed
+    if (parsed.branch && !noRemoteConfigured) {
+      console.log('');
+      output.error(message || 'Could not fetch from remote');
+      console.log('');
+      console.log(`Cannot update from ${output.bold(targetBranch)} because the remote fetch failed.`);
+      console.log('This would use a potentially outdated local branch.');
+      console.log('');
+      console.log('Possible causes:');
+      console.log('  • Network connectivity issues');
+      console.log(`  • Branch ${output.bold(targetBranch)} doesn't exist on remote`);
+      console.log('  • Authentication issues');
+      console.log('');
+      console.log('Options:');
+      console.log(`  1. Check your network connection and try again`);
+      console.log(`  2. Verify the branch exists: ${output.bold(`git ls-remote ${remote} ${targetBranch}`)}`);
+      console.log(`  3. Use a different source branch: ${output.bold(`gw update --from <branch>`)}`);
+      console.log(`  4. Update from default branch: ${output.bold(`gw update`)}`);
+      console.log('');
+      Deno.exit(1);
+    }
+
+    // For default branch (no --from specified) or no remote configured, warn but allow
+    output.warning(message || 'Could not fetch from remote');
+    console.log(output.dim('Using local branch'));
+  }
+
+  return startPoint;
+}
+
+/**
+ * Determine the branch to update from and the strategy, from the flags or the config
+ */
+function getUpdateSettings(
+  parsed: UpdateOptions,
+  config: Config
+): { targetBranch: string; strategy: 'merge' | 'rebase' } {
+  let strategy: 'merge' | 'rebase' = 'merge'; // default
+  if (parsed.merge) {
+    strategy = 'merge';
+  } else if (parsed.rebase) {
+    strategy = 'rebase';
+  } else if (config.updateStrategy) {
+    strategy = config.updateStrategy;
+  }
+
+  return { targetBranch: parsed.branch || config.defaultBranch || 'main', strategy };
+}
+
+/**
+ * Resolve the worktrees to update from --all or the worktree arguments
+ */
+async function resolveUpdateTargets(gitRoot: string, parsed: UpdateOptions): Promise<WorktreeInfo[]> {
+  const worktrees = (await listWorktrees()).filter((wt) => !wt.bare);
+
+  if (parsed.all) {
+    return worktrees;
+  }
+
+  const targets: WorktreeInfo[] = [];
+  for (const name of parsed.worktrees) {
+    const path = resolveWorktreePath(gitRoot, name);
+    let worktree = worktrees.find((wt) => wt.path === path) ?? worktrees.find((wt) => wt.branch === name);
+
+    // Let the user choose the worktree in a terminal, starting from the name as a search
+    if (!worktree && isInteractive()) {
+      worktree =
+        (await pickWorktree(worktrees, { message: 'Update which worktree?', query: name, gitRoot })) ?? undefined;
+      if (!worktree) {
+        Deno.exit(PICKER_CANCELLED_EXIT_CODE);
+      }
+    }
+
+    if (!worktree) {
+      output.error(`Worktree not found: ${name}`);
+      Deno.exit(1);
+    }
+    if (!targets.includes(worktree)) {
+      targets.push(worktree);
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Merge or rebase one worktree as part of a multi-worktree update
+ * Conflicts are aborted so the worktree is left as it was.
+ */
+async function updateWorktree(
+  worktree: WorktreeInfo,
+  parsed: UpdateOptions,
+  config: Config,
+  gitRoot: string,
+  targetBranch: string,
+  startPoint: string,
+  strategy: 'merge' | 'rebase',
+  autostash: boolean
+): Promise<WorktreeUpdate> {
+  const name = relative(gitRoot, worktree.path) || '.';
+  const result = (status: UpdateStatus, details = ''): WorktreeUpdate => ({
+    worktree: name,
+    branch: worktree.branch,
+    status,
+    details,
+  });
+
+  const inProgress = await getUpdateInProgress(worktree.path);
+  if (inProgress) {
+    return result('skipped', `${inProgress} in progress`);
+  }
+  if (!parsed.dryRun) {
+    await writePendingAutostash(worktree.path, null);
+  }
+  if (!worktree.branch) {
+    return result('skipped', 'detached HEAD');
+  }
+  if (worktree.branch === targetBranch) {
+    return result('skipped', `is the ${targetBranch} branch`);
+  }
+  const dirty = await hasUncommittedChanges(worktree.path);
+  if (dirty && !parsed.force && !autostash) {
+    return result('skipped', 'uncommitted changes');
+  }
+
+  const operation =
+    strategy === 'merge'
+      ? `merge ${startPoint} into ${worktree.branch}`
+      : `rebase ${worktree.branch} onto ${startPoint}`;
+  if (parsed.dryRun) {
+    return result('would update', dirty && autostash ? `${operation} (with autostash)` : operation);
+  }
+
+  console.log(`Updating ${output.bold(worktree.branch)} ${output.dim(`(${output.path(name)})`)}...`);
+
+  const hookVariables = await buildHookVariables(config, {
+    worktree: name,
+    worktreePath: worktree.path,
+    gitRoot,
+    branch: worktree.branch,
+    baseBranch: targetBranch,
+    remote: parsed.remote,
+  });
+
+  if (!(await executeCommandHooks(config.hooks, 'update', 'pre', worktree.path, hookVariables))) {
+    return result('failed', 'pre-update hook failed');
+  }
+
+  const stash = dirty && autostash ? await stashChanges(worktree.path, AUTOSTASH_MESSAGE) : null;
+  const updateResult =
+    strategy === 'merge' ? await mergeBranch(worktree.path, startPoint) : await rebaseBranch(worktree.path, startPoint);
+
+  if (updateResult.conflicted) {
+    const aborted = await abortUpdate(worktree.path, strategy);
+    const files = updateResult.conflictedFiles?.length ? ` (${updateResult.conflictedFiles.join(', ')})` : '';
+    if (!aborted) {
+      // Leave the stash for 'gw update --continue' or '--abort' to re-apply
+      if (stash) {
+        await writePendingAutostash(worktree.path, stash);
+      }
+      return result('conflicted', `could not abort the ${strategy}, resolve manually${files}`);
+    }
+    const restored = stash ? await reapplyAutostash(worktree.path, stash) : true;
+    return result('conflicted', `${strategy} aborted${files}${restored ? '' : ', stashed changes kept in the stash'}`);
+  }
+  if (!updateResult.success) {
+    if (stash) {
+      await reapplyAutostash(worktree.path, stash);
+    }
+    return result('failed', (updateResult.message || `${strategy} failed`).trim().split('\n')[0]);
+  }
+
+  if (stash && !(await reapplyAutostash(worktree.path, stash))) {
+    return result('conflicted', `updated, but the stashed changes conflict and were kept in the stash`);
+  }
+
+  if (!(await executeCommandHooks(config.hooks, 'update', 'post', worktree.path, hookVariables))) {
+    output.warning('One or more post-update hooks failed');
+  }
+
+  if (updateResult.message === 'Already up to date') {
+    return result('up to date');
+  }
+
+  const files = updateResult.filesChanged;
+  return result('updated', files ? `${files} file${files === 1 ? '' : 's'} changed` : '');
+}
+
+/**
+ * Update several worktrees (--all or a list of worktrees)
+ * Each source branch is fetched once, then each clean worktree is merged or rebased in turn,
+ * with the overrides matching its branch applied (e.g., a different defaultBranch for release/*).
+ */
+async function updateWorktrees(
+  parsed: UpdateOptions,
+  config: Config,
+  gitRoot: string,
+  autostash: boolean
+): Promise<void> {
+  const targets = (await resolveUpdateTargets(gitRoot, parsed)).map((worktree) => {
+    const worktreeConfig = resolveConfigForBranch(config, worktree.branch);
+    return { worktree, config: worktreeConfig, ...getUpdateSettings(parsed, worktreeConfig) };
+  });
+
+  const startPoints = new Map<string, string>();
+  for (const { targetBranch } of targets) {
+    if (!startPoints.has(targetBranch)) {
+      startPoints.set(
+        targetBranch,
+        await fetchSourceBranch(targetBranch, parsed.remote || getRemotes(config).base, parsed)
+      );
+    }
+  }
+  console.log('');
+
+  const results: WorktreeUpdate[] = [];
+  for (const target of targets) {
+    const startPoint = startPoints.get(target.targetBranch)!;
+    results.push(
+      await updateWorktree(
+        target.worktree,
+        parsed,
+        target.config,
+        gitRoot,
+        target.targetBranch,
+        startPoint,
+        target.strategy,
+        autostash
+      )
+    );
+  }
+
+  const statusColors: Record<UpdateStatus, (text: string) => string> = {
+    updated: output.green,
+    'up to date': output.dim,
+    'would update': output.bold,
+    skipped: output.yellow,
+    conflicted: output.yellow,
+    failed: output.yellow,
+  };
+
+  console.log('');
+  console.log(
+    output.table(
+      ['WORKTREE', 'BRANCH', 'RESULT', 'DETAILS'],
+      results.map((r) => [
+        output.path(r.worktree),
+        r.branch || output.dim('(detached)'),
+        statusColors[r.status](r.status),
+        output.dim(r.details),
+      ])
+    )
+  );
+
+  const count = (status: UpdateStatus) => results.filter((r) => r.status === status).length;
+  const problems = count('conflicted') + count('failed');
+  const summary = parsed.dryRun
+    ? `${count('would update')} would be updated, ${count('skipped')} skipped`
+    : `${count('updated')} updated, ${count('up to date')} up to date, ${count('skipped')} skipped, ` +
+      `${count('conflicted')} conflicted, ${count('failed')} failed`;
+
+  if (problems > 0) {
+    output.warning(summary);
+    Deno.exit(1);
+  }
+  output.success(summary);
+}
+
+/**
+ * Show the conflicted files and how to resolve them
+ */
+function showConflictHelp(strategy: 'merge' | 'rebase', conflictedFiles: string[]): void {
+  console.log('');
+  output.error(`${strategy === 'merge' ? 'Merge' : 'Rebase'} conflict detected`);
+
+  if (conflictedFiles.length > 0) {
+    console.log('Conflicted files:');
+    for (const file of conflictedFiles) {
+      console.log(`  ${output.errorSymbol()} ${file}`);
+    }
+    console.log('');
+  }
+
+  console.log('Resolve conflicts:');
+  console.log('  1. Edit conflicted files');
+  console.log('  2. git add <resolved-files>');
+  console.log(`  3. ${output.bold('gw update --continue')}`);
+  console.log('');
+  console.log(`Or abort the ${strategy}:`);
+  console.log(`  ${output.bold('gw update --abort')}`);
+}
+
+/**
+ * Handle --continue, --abort and --status for a merge or rebase in the current worktree
+ */
+async function resolveInProgressUpdate(parsed: UpdateOptions): Promise<void> {
+  if ([parsed.continue, parsed.abort, parsed.status].filter(Boolean).length > 1) {
+    output.error('Cannot combine --continue, --abort and --status. Please choose one.');
+    Deno.exit(1);
+  }
+
+  const { config: baseConfig, gitRoot } = await loadConfig();
+  const worktreePath = await getCurrentWorktreePath();
+  const name = relative(gitRoot, worktreePath) || '.';
+
+  const inProgress = await getUpdateInProgress(worktreePath);
+  if (!inProgress) {
+    if (parsed.status) {
+      output.info(`No merge or rebase in progress in ${name}`);
+      return;
+    }
+    output.error(`No merge or rebase in progress in ${name}`);
+    Deno.exit(1);
+  }
+
+  const conflictedFiles = await getConflictedFiles(worktreePath);
+  const stash = await readPendingAutostash(worktreePath);
+
+  if (parsed.status) {
+    console.log(`A ${output.bold(inProgress)} is in progress in ${output.path(name)}\n`);
+
+    if (conflictedFiles.length > 0) {
+      console.log(`Conflicted files (${conflictedFiles.length}):`);
+      for (const file of conflictedFiles) {
+        console.log(`  ${output.errorSymbol()} ${file}`);
+      }
+      console.log('');
+      console.log(`Resolve them, stage them with 'git add', then run ${output.bold('gw update --continue')}`);
+    } else {
+      console.log(`${output.checkmark()} All conflicts are resolved`);
+      console.log('');
+      console.log(`Run ${output.bold('gw update --continue')} to finish the ${inProgress}`);
+    }
+    console.log(`Or roll it back with ${output.bold('gw update --abort')}`);
+    if (stash) {
+      console.log('');
+      console.log(
+        output.dim('Uncommitted changes from before the update are stashed and will be re-applied afterwards')
+      );
+    }
+    return;
+  }
+
+  if (parsed.abort) {
+    if (!(await abortUpdate(worktreePath, inProgress))) {
+      output.error(`Could not abort the ${inProgress}`);
+      Deno.exit(1);
+    }
+    output.success(`Aborted the ${inProgress} in ${output.bold(name)}`);
+    await writePendingAutostash(worktreePath, null);
+    if (stash && !(await reapplyAutostash(worktreePath, stash))) {
+      Deno.exit(1);
+    }
+    return;
+  }
+
+  // --continue
+  if (conflictedFiles.length > 0) {
+    const fileWord = conflictedFiles.length === 1 ? 'file still has' : 'files still have';
+    output.error(`Cannot continue: ${conflictedFiles.length} ${fileWord} conflicts`);
+    for (const file of conflictedFiles) {
+      console.log(`  ${output.errorSymbol()} ${file}`);
+    }
+    console.log('');
+    console.log(`Resolve them and stage them with 'git add' first`);
+    Deno.exit(1);
+  }
+
+  console.log(`Continuing the ${inProgress}...`);
+  const result = await continueUpdate(worktreePath, inProgress);
+
+  if (result.conflicted) {
+    // A rebase stopped at the next conflicting commit
+    showConflictHelp(inProgress, result.conflictedFiles ?? []);
+    Deno.exit(1);
+  }
+  if (!result.success) {
+    output.error(result.message || `Could not continue the ${inProgress}`);
+    Deno.exit(1);
+  }
+
+  const branch = await getCurrentBranch(worktreePath);
+  const config = resolveConfigForBranch(baseConfig, branch);
+  output.success(`Finished the ${inProgress}, ${output.bold(branch || name)} is up to date`);
+
+  await writePendingAutostash(worktreePath, null);
+  if (stash && !(await reapplyAutostash(worktreePath, stash))) {
+    Deno.exit(1);
+  }
+
+  // The post-update hooks were skipped when the update stopped at the conflict
+  const hookVariables = await buildHookVariables(config, {
+    worktree: name,
+    worktreePath,
+    gitRoot,
+    branch,
+    baseBranch: parsed.branch || config.defaultBranch || 'main',
+    remote: parsed.remote,
+  });
+  if (!(await executeCommandHooks(config.hooks, 'update', 'post', worktreePath, hookVariables))) {
+    output.warning('One or more post-update hooks failed');
+  }
+}
 
 /**
  * Execute the update command
@@ -28,6 +544,12 @@ export async function executeUpdate(args: string[]): Promise<void> {
     Deno.exit(0);
   }
 
+  // --continue, --abort and --status act on a merge or rebase that stopped at a conflict
+  if (parsed.continue || parsed.abort || parsed.status) {
+    await resolveInProgressUpdate(parsed);
+    return;
+  }
+
   try {
     // 3. Validate mutually exclusive flags
     if (parsed.merge && parsed.rebase) {
@@ -36,86 +558,64 @@ export async function executeUpdate(args: string[]): Promise<void> {
     }
 
     // 4. Load config (get defaultBranch and updateStrategy)
-    const { config } = await loadConfig();
-    const targetBranch = parsed.branch || config.defaultBranch || 'main';
+    const { config: baseConfig, gitRoot } = await loadConfig();
+    const autostash = parsed.autostash ?? baseConfig.updateAutostash ?? false;
 
-    // 5. Determine update strategy
-    let strategy: 'merge' | 'rebase' = 'merge'; // default
-    if (parsed.merge) {
-      strategy = 'merge';
-    } else if (parsed.rebase) {
-      strategy = 'rebase';
-    } else if (config.updateStrategy) {
-      strategy = config.updateStrategy;
+    // With --all or a list of worktrees, update each of them in turn
+    if (parsed.all || parsed.worktrees.length > 0) {
+      await updateWorktrees(parsed, baseConfig, gitRoot, autostash);
+      return;
     }
 
-    // 6. Get current worktree and branch
+    // 5. Get current worktree and branch
     const currentPath = await getCurrentWorktreePath();
     const currentBranch = await getCurrentBranch(currentPath);
 
+    // 6. Determine target branch and update strategy, with the overrides matching the branch applied
+    const config = resolveConfigForBranch(baseConfig, currentBranch);
+    const { targetBranch, strategy } = getUpdateSettings(parsed, config);
+
+    // Don't start an update on top of one that stopped at a conflict
+    const inProgress = await getUpdateInProgress(currentPath);
+    if (inProgress) {
+      output.error(`Cannot update: a ${inProgress} is already in progress`);
+      console.log(
+        `Finish it with ${output.bold('gw update --continue')} or roll it back with ${output.bold('gw update --abort')}`
+      );
+      console.log('');
+      Deno.exit(1);
+    }
+
+    // An autostash left from an update finished with plain git no longer belongs to anything
+    await writePendingAutostash(currentPath, null);
+
     // 7. Validate state - check for detached HEAD
     if (await isDetachedHead(currentPath)) {
       output.error('Cannot update: currently in detached HEAD state. Checkout a branch first.');
       Deno.exit(1);
     }
 
-    // 8. Check for uncommitted changes (unless --force)
-    if (!parsed.force && (await hasUncommittedChanges(currentPath))) {
+    // 8. Check for uncommitted changes (unless --force or autostash)
+    const dirty = await hasUncommittedChanges(currentPath);
+    if (dirty && !parsed.force && !autostash) {
       output.error(`Cannot ${strategy}: uncommitted changes detected`);
       console.log('');
       console.log(`Please commit or stash your changes before updating:`);
       console.log('  git add .');
       console.log('  git commit -m "your message"');
       console.log('');
+      console.log('Or use --autostash to stash them and re-apply them after the update');
       console.log('Or use --force to skip this check (not recommended)');
       Deno.exit(1);
     }
 
     // Show warning if forcing with uncommitted changes
-    if (parsed.force && (await hasUncommittedChanges(currentPath))) {
+    if (dirty && parsed.force && !autostash) {
       output.warning('Proceeding with uncommitted changes due to --force flag');
     }
 
     // 9. Fetch latest version of target branch
-    console.log(`Fetching latest ${output.bold(targetBranch)} from ${output.bold(parsed.remote)}...`);
-
-    const { startPoint, fetchSucceeded, message } = await fetchAndGetStartPoint(targetBranch, parsed.remote);
-
-    if (fetchSucceeded) {
-      if (message) {
-        console.log(output.dim(message));
-      }
-      console.log(output.dim(`${output.checkmark()} Fetched successfully`));
-    } else {
-      // Check if failure is due to no remote (acceptable) or fetch failure (problematic)
-      const noRemoteConfigured = message && message.includes('No remote');
-
-      // When --from is explicitly specified and remote exists but fetch failed
-      if (parsed.branch && !noRemoteConfigured) {
-        console.log('');
-        output.error(message || 'Could not fetch from remote');
-        console.log('');
-        console.log(`Cannot update from ${output.bold(targetBranch)} because the remote fetch failed.`);
-        console.log('This would use a potentially outdated local branch.');
-        console.log('');
-        console.log('Possible causes:');
-        console.log('  • Network connectivity issues');
-        console.log(`  • Branch ${output.bold(targetBranch)} doesn't exist on remote`);
-        console.log('  • Authentication issues');
-        console.log('');
-        console.log('Options:');
-        console.log(`  1. Check your network connection and try again`);
-        console.log(`  2. Verify the branch exists: ${output.bold(`git ls-remote ${parsed.remote} ${targetBranch}`)}`);
-        console.log(`  3. Use a different source branch: ${output.bold(`gw update --from <branch>`)}`);
-        console.log(`  4. Update from default branch: ${output.bold(`gw update`)}`);
-        console.log('');
-        Deno.exit(1);
-      }
-
-      // For default branch (no --from specified) or no remote configured, warn but allow
-      output.warning(message || 'Could not fetch from remote');
-      console.log(output.dim('Using local branch'));
-    }
+    const startPoint = await fetchSourceBranch(targetBranch, parsed.remote || getRemotes(config).base, parsed);
 
     console.log('');
 
@@ -133,17 +633,39 @@ export async function executeUpdate(args: string[]): Promise<void> {
 
     // 11. Dry run check
     if (parsed.dryRun) {
-      output.info(`Would perform: ${operationMessage}`);
+      const stashNote = dirty && autostash ? ' (stashing uncommitted changes around it)' : '';
+      output.info(`Would perform: ${operationMessage}${stashNote}`);
       Deno.exit(0);
     }
 
-    // 12. Execute update (merge or rebase)
+    // 12. Execute pre-update hooks in the worktree (abort on failure)
+    const worktreeName = relative(gitRoot, currentPath) || '.';
+    const hookVariables = await buildHookVariables(config, {
+      worktree: worktreeName,
+      worktreePath: currentPath,
+      gitRoot,
+      branch: currentBranch,
+      baseBranch: targetBranch,
+      remote: parsed.remote,
+    });
+
+    if (!(await executeCommandHooks(config.hooks, 'update', 'pre', currentPath, hookVariables))) {
+      output.error('Pre-update hook failed. Aborting update.');
+      Deno.exit(1);
+    }
+
+    // 13. Execute update (merge or rebase), stashing uncommitted changes first with autostash
+    const stash = dirty && autostash ? await stashChanges(currentPath, AUTOSTASH_MESSAGE) : null;
+    if (stash) {
+      console.log(output.dim(`${output.checkmark()} Stashed uncommitted changes`));
+    }
+
     console.log(`${operationMessage}...`);
 
     const result =
       strategy === 'merge' ? await mergeBranch(currentPath, startPoint) : await rebaseBranch(currentPath, startPoint);
 
-    // 13. Handle result
+    // 14. Handle result
     if (result.success) {
       if (result.message === 'Already up to date') {
         console.log('');
@@ -166,28 +688,32 @@ export async function executeUpdate(args: string[]): Promise<void> {
           console.log(output.dim(`${result.filesChanged} file${result.filesChanged === 1 ? '' : 's'} changed`));
         }
       }
+
+      if (stash && !(await reapplyAutostash(currentPath, stash))) {
+        Deno.exit(1);
+      }
+
+      // Execute post-update hooks (warn but don't abort on failure)
+      if (!(await executeCommandHooks(config.hooks, 'update', 'post', currentPath, hookVariables))) {
+        output.warning('One or more post-update hooks failed');
+      }
     } else if (result.conflicted) {
-      console.log('');
-      output.error(`${strategy === 'merge' ? 'Merge' : 'Rebase'} conflict detected`);
-      console.log('');
-      console.log('Resolve conflicts manually:');
-      console.log('  1. Edit conflicted files');
-      console.log('  2. git add <resolved-files>');
-      if (strategy === 'merge') {
-        console.log('  3. git commit');
+      showConflictHelp(strategy, result.conflictedFiles ?? []);
+      if (stash) {
+        await writePendingAutostash(currentPath, stash);
         console.log('');
-        console.log('Or abort the merge:');
-        console.log('  git merge --abort');
-      } else {
-        console.log('  3. git rebase --continue');
-        console.log('');
-        console.log('Or abort the rebase:');
-        console.log('  git rebase --abort');
+        console.log('Your uncommitted changes are stashed and will be re-applied when the update is finished');
+        console.log(
+          `with ${output.bold('gw update --continue')} or rolled back with ${output.bold('gw update --abort')}.`
+        );
       }
       Deno.exit(1);
     } else {
       console.log('');
       output.error(result.message || `${strategy === 'merge' ? 'Merge' : 'Rebase'} failed`);
+      if (stash) {
+        await reapplyAutostash(currentPath, stash);
+      }
       Deno.exit(1);
     }
   } catch (error) {
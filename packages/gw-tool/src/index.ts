@@ -1,5 +1,28 @@
 // Public API exports
-export type { Config, CopyOptions, CopyResult, GlobalArgs } from './lib/types.ts';
+export type {
+  Config,
+  CopyFile,
+  CopyFileEntry,
+  CopyMode,
+  CopyOptions,
+  CopyResult,
+  GlobalArgs,
+  Hook,
+  HookDefinition,
+} from './lib/types.ts';
+export type {
+  CdJsonOutput,
+  CleanJsonOutput,
+  JsonCleanableWorktree,
+  JsonOrphanBranch,
+  JsonOutputBase,
+  JsonWorktree,
+  JsonWorktreeStatus,
+  ListJsonOutput,
+  PruneJsonOutput,
+  RootJsonOutput,
+  ShowInitJsonOutput,
+} from './lib/types.ts';
 export { loadConfig, saveConfig } from './lib/config.ts';
 export { copyFiles } from './lib/file-ops.ts';
 export {
@@ -3,8 +3,10 @@
  * Runs automatically on configured commands with cooldown
  */
 
-import { loadConfig, saveConfig } from './config.ts';
+import { relative } from '$std/path';
+import { getCleanThreshold, loadConfig, updateRepoConfig } from './config.ts';
 import {
+  getRemotes,
   getWorktreeAgeDays,
   hasUncommittedChanges,
   hasUnpushedCommits,
@@ -13,6 +15,8 @@ import {
   type WorktreeInfo,
 } from './git-utils.ts';
 import * as output from './output.ts';
+import type { Config } from './types.ts';
+import { readWorktreeMetadata } from './worktree-metadata.ts';
 
 /** 24 hours in milliseconds */
 const COOLDOWN_MS = 24 * 60 * 60 * 1000;
@@ -43,10 +47,15 @@ function shouldRunAutoClean(lastRunTime: number | undefined): boolean {
  * Analyze worktrees and determine which are safe to clean
  * Reuses safety check logic from clean.ts
  *
- * @param threshold Minimum age in days for a worktree to be considered stale
- * @param defaultBranch Branch name that should never be cleaned (e.g., "main")
+ * @param config Effective config; its cleanThreshold (after branch overrides and template
+ *   clean policies) is the minimum age in days for a worktree to be considered stale, and
+ *   its defaultBranch is never cleaned
+ * @param gitRoot Root of the git repository
  */
-async function getCleanableWorktrees(threshold: number, defaultBranch: string): Promise<CleanableWorktree[]> {
+async function getCleanableWorktrees(config: Config, gitRoot: string): Promise<CleanableWorktree[]> {
+  const defaultBranch = config.defaultBranch ?? 'main';
+  const pushRemote = getRemotes(config).push;
+  const metadata = await readWorktreeMetadata(gitRoot);
   const worktrees = await listWorktrees();
 
   // Filter out bare repository
@@ -62,13 +71,14 @@ async function getCleanableWorktrees(threshold: number, defaultBranch: string):
 
     const ageDays = await getWorktreeAgeDays(wt.path);
 
-    // Skip if not old enough
-    if (ageDays < threshold) {
+    // Skip if not old enough, or kept by its template
+    const threshold = getCleanThreshold(config, wt.branch, metadata[relative(gitRoot, wt.path)]?.template);
+    if (threshold === null || ageDays < threshold) {
       continue;
     }
 
     const hasUncommitted = await hasUncommittedChanges(wt.path);
-    const hasUnpushed = await hasUnpushedCommits(wt.path);
+    const hasUnpushed = await hasUnpushedCommits(wt.path, pushRemote);
 
     // Only include if passes ALL safety checks (no force mode in auto-clean)
     if (!hasUncommitted && !hasUnpushed) {
@@ -105,17 +115,12 @@ export async function executeAutoClean(): Promise<number> {
       return 0;
     }
 
-    // Get threshold (default 7 days) and defaultBranch
-    const threshold = config.cleanThreshold ?? 7;
-    const defaultBranch = config.defaultBranch ?? 'main';
-
     // Find cleanable worktrees (excludes defaultBranch)
-    const cleanableWorktrees = await getCleanableWorktrees(threshold, defaultBranch);
+    const cleanableWorktrees = await getCleanableWorktrees(config, gitRoot);
 
     if (cleanableWorktrees.length === 0) {
       // Update timestamp even if nothing to clean
-      config.lastAutoCleanTime = Date.now();
-      await saveConfig(gitRoot, config);
+      await updateRepoConfig(gitRoot, { lastAutoCleanTime: Date.now() });
       return 0;
     }
 
@@ -132,8 +137,7 @@ export async function executeAutoClean(): Promise<number> {
     }
 
     // Update timestamp after cleanup
-    config.lastAutoCleanTime = Date.now();
-    await saveConfig(gitRoot, config);
+    await updateRepoConfig(gitRoot, { lastAutoCleanTime: Date.now() });
 
     return removedCount;
   } catch {
@@ -186,13 +190,10 @@ export async function promptAndRunAutoClean(): Promise<void> {
     }
 
     // Get cleanable worktrees
-    const threshold = config.cleanThreshold ?? 7;
-    const defaultBranch = config.defaultBranch ?? 'main';
-    const cleanableWorktrees = await getCleanableWorktrees(threshold, defaultBranch);
+    const cleanableWorktrees = await getCleanableWorktrees(config, gitRoot);
 
     // Update timestamp BEFORE prompting to prevent repeated prompts
-    config.lastAutoCleanTime = Date.now();
-    await saveConfig(gitRoot, config);
+    await updateRepoConfig(gitRoot, { lastAutoCleanTime: Date.now() });
 
     // Return if nothing to clean (silent)
     if (cleanableWorktrees.length === 0) {
@@ -202,8 +203,9 @@ export async function promptAndRunAutoClean(): Promise<void> {
     // Show prompt
     console.log();
     const worktreeWord = cleanableWorktrees.length === 1 ? 'worktree' : 'worktrees';
+    const minAgeDays = Math.min(...cleanableWorktrees.map((wt) => wt.ageDays));
     const response = prompt(
-      `🧹 Found ${cleanableWorktrees.length} stale ${worktreeWord} (${threshold}+ days old). Clean them up? [Y/n]: `
+      `🧹 Found ${cleanableWorktrees.length} stale ${worktreeWord} (${minAgeDays}+ days old). Clean them up? [Y/n]: `
     );
 
     // Handle response (default to yes if empty or Enter)
@@ -3,7 +3,7 @@
  */
 
 import { parseArgs as denoParseArgs } from '$std/cli/parse-args';
-import type { CopyOptions, GlobalArgs, UpdateOptions } from './types.ts';
+import type { CopyOptions, GlobalArgs, PullOptions, UpdateOptions } from './types.ts';
 import { VERSION } from './version.ts';
 
 /**
@@ -78,16 +78,23 @@ Commands:
   checkout, co     Create a new worktree or switch branches (alias: add)
   cd               Navigate to a worktree directory
   pr               Check out a pull request into a new worktree
-  update           Update current worktree with latest changes from default branch
+  update           Update worktrees with latest changes from default branch
+  pull             Fast-forward the current branch from its upstream
+  stack            Show stacked branches (created with checkout --from) as a tree
+  restack          Rebase stacked branches onto their updated parents
+  note             Show or set the description of a worktree
+  tag              Show, add or remove the tags of a worktree
   sync             Sync files/directories between worktrees
   init             Initialize gw configuration for a repository
   show-init        Generate a 'gw init' command from current configuration
+  config           Read and change configuration values
   install-shell    Install shell integration for gw cd (auto-runs on npm install)
   root             Get the root directory of the current git repository
   clean            Remove safe worktrees (use --use-autoclean-threshold for age-based)
+  hooks            Show the hook log or re-run configured hooks
 
 Git Worktree Proxy Commands:
-  list, ls         List all worktrees in the repository
+  list, ls         List worktrees with status (ahead/behind, dirty, age)
   remove, rm       Remove a worktree from the repository
   move, mv         Move a worktree to a new location
   prune            Full cleanup: remove clean worktrees and orphan branches
@@ -104,12 +111,17 @@ Examples:
   gw co feat-branch -b my-branch
   gw cd feat-branch
   gw add feat-branch           # 'add' works as an alias for checkout
+  gw pull --with-default
+  gw restack
+  gw note fix-123 "Login redirect loop on Safari"
   gw sync feat-branch .env components/agents/.env
   gw sync                                           (sync autoCopyFiles to current worktree)
   gw list
   gw remove feat-branch
   gw init --root /path/to/repo.git --auto-copy-files .env,secrets/
+  gw config set updateStrategy rebase --user
   gw clean --dry-run
+  gw hooks log
 
 For command-specific help:
   gw <command> --help
@@ -121,11 +133,12 @@ For command-specific help:
  */
 export function parseCopyArgs(args: string[]): CopyOptions {
   const parsed = denoParseArgs(args, {
-    boolean: ['help', 'dry-run'],
+    boolean: ['help', 'dry-run', 'check', 'reverse', 'force'],
     string: ['from'],
     alias: {
       h: 'help',
       n: 'dry-run',
+      f: 'force',
     },
     '--': true,
   });
@@ -139,6 +152,9 @@ export function parseCopyArgs(args: string[]): CopyOptions {
     target: target as string | undefined,
     files: files as string[],
     dryRun: parsed['dry-run'] as boolean | undefined,
+    check: parsed.check as boolean | undefined,
+    reverse: parsed.reverse as boolean | undefined,
+    force: parsed.force as boolean | undefined,
   };
 }
 
@@ -158,12 +174,21 @@ Arguments:
                        If omitted, defaults to the current worktree
 
   [files...]           One or more files or directories to sync
-                       Paths are relative to the worktree root
+                       Paths are relative to the worktree root and may be
+                       glob patterns ("**/.env.local") or "!" exclusions
                        If omitted, uses autoCopyFiles from .gw/config.json
 
 Options:
   --from <source>      Source worktree name (default: from config or "main")
-  -n, --dry-run        Show what would be synced without actually syncing
+                       In a terminal, an empty or unknown source is picked
+                       interactively
+  --check              Report files that differ between the worktrees (by
+                       content hash) without syncing; exits 1 on drift
+  --reverse            Sync from the target worktree back into the source
+                       (e.g., to bring a changed .env back into main)
+  -f, --force          Overwrite locally modified files without asking
+  -n, --dry-run        Show what would be synced (and how patterns expanded)
+                       without actually syncing
   -h, --help           Show this help message
 
 Description:
@@ -174,6 +199,11 @@ Description:
   The source and target worktrees must exist. Parent directories for synced
   files are created automatically if needed.
 
+  gw remembers what it last synced into each worktree (.gw/sync-state.json).
+  If a file was modified in the destination since then, you're asked whether
+  to overwrite it, skip it, or show a diff. Without a terminal, such files are
+  skipped unless --force is given.
+
 Examples:
   # Sync autoCopyFiles to current worktree (if inside a worktree)
   gw sync
@@ -190,6 +220,15 @@ Examples:
   # Sync entire directory
   gw sync feat-branch components/ui/.vercel
 
+  # Sync every package's .env.local, except those in node_modules
+  gw sync feat-branch '**/.env.local' '!**/node_modules/**'
+
+  # Check which synced files differ from main
+  gw sync --check feat-branch
+
+  # Bring a changed .env from feat-branch back into main
+  gw sync --reverse feat-branch .env
+
   # Use custom source worktree
   gw sync --from develop feat-branch .env
 
@@ -219,7 +258,19 @@ Configuration:
  */
 export function parseUpdateArgs(args: string[]): UpdateOptions {
   const parsed = denoParseArgs(args, {
-    boolean: ['help', 'force', 'dry-run', 'merge', 'rebase'],
+    boolean: [
+      'help',
+      'force',
+      'dry-run',
+      'merge',
+      'rebase',
+      'autostash',
+      'no-autostash',
+      'all',
+      'continue',
+      'abort',
+      'status',
+    ],
     string: ['from', 'remote'],
     alias: {
       h: 'help',
@@ -227,6 +278,7 @@ export function parseUpdateArgs(args: string[]): UpdateOptions {
       n: 'dry-run',
       m: 'merge',
       r: 'rebase',
+      a: 'all',
     },
     '--': true,
   });
@@ -236,9 +288,15 @@ export function parseUpdateArgs(args: string[]): UpdateOptions {
     force: parsed.force as boolean,
     dryRun: parsed['dry-run'] as boolean,
     branch: parsed.from as string | undefined,
-    remote: (parsed.remote as string) || 'origin',
+    remote: parsed.remote as string | undefined,
     merge: parsed.merge as boolean | undefined,
     rebase: parsed.rebase as boolean | undefined,
+    autostash: parsed['no-autostash'] ? false : parsed.autostash ? true : undefined,
+    all: parsed.all as boolean | undefined,
+    worktrees: parsed._.map(String),
+    continue: parsed.continue as boolean | undefined,
+    abort: parsed.abort as boolean | undefined,
+    status: parsed.status as boolean | undefined,
   };
 }
 
@@ -247,20 +305,34 @@ export function parseUpdateArgs(args: string[]): UpdateOptions {
  */
 export function showUpdateHelp(): void {
   console.log(`
-gw update - Update current worktree with latest changes from default branch
+gw update - Update worktrees with latest changes from default branch
 
 Usage:
-  gw update [options]
+  gw update [options] [worktree...]
+
+Arguments:
+  [worktree...]        Worktrees to update (default: the current worktree)
+                       In a terminal, an unknown name opens a picker to choose
+                       the worktree
 
 Options:
+  -a, --all            Update every worktree
   --from <branch>      Update from specified branch instead of defaultBranch
-  --remote <name>      Specify remote name (default: "origin")
+  --remote <name>      Specify remote name (default: remotes.base, or "origin")
   -m, --merge          Force merge strategy (overrides config)
   -r, --rebase         Force rebase strategy (overrides config)
+  --autostash          Stash uncommitted changes before updating and
+                       re-apply them afterwards (overrides config)
+  --no-autostash       Don't stash, even if updateAutostash is configured
   -f, --force          Skip uncommitted changes check (dangerous)
   -n, --dry-run        Show what would happen without executing
   -h, --help           Show this help message
 
+Resolving conflicts:
+  --status             Show the merge or rebase in progress and its conflicted files
+  --continue           Finish the merge or rebase after resolving and staging the conflicts
+  --abort              Roll back the merge or rebase
+
 Description:
   Fetches the latest version of the configured default branch (typically "main")
   from the remote and updates your current worktree's active branch using either
@@ -276,9 +348,29 @@ Description:
   - Can be overridden per-command with --merge or --rebase flags
 
   Safety checks:
-  - Blocks if you have uncommitted changes (use --force to override)
+  - Blocks if you have uncommitted changes (use --autostash to stash them
+    around the update, or --force to override)
   - Blocks if you're in a detached HEAD state
   - Handles merge/rebase conflicts gracefully
+  - Blocks if a merge or rebase is already in progress
+
+  When a conflict stops the update, the conflicted files are listed. Edit them,
+  stage them with 'git add', and run 'gw update --continue' (or roll back with
+  'gw update --abort'). A rebase can stop again at a later commit.
+
+  Updating several worktrees:
+  With --all or a list of worktrees, the branch is fetched once and each
+  worktree is updated in turn. Worktrees with uncommitted changes (unless
+  autostash is on) or a detached HEAD are skipped, and a worktree that hits a
+  conflict is restored with 'git merge --abort' (or 'git rebase --abort')
+  before moving on. A summary table lists what happened to each worktree.
+
+  Autostash:
+  With --autostash (or "updateAutostash": true), tracked and untracked changes
+  are stashed before the merge or rebase and re-applied afterwards. If they
+  conflict with the update, the stash entry is kept so nothing is lost.
+  When the update itself stops at a conflict, 'gw update --continue' and
+  'gw update --abort' re-apply the stash once the update is finished.
 
 Examples:
   # Update with configured strategy (or merge if not configured)
@@ -296,19 +388,111 @@ Examples:
   # Preview what would happen without executing
   gw update --dry-run
 
+  # Stash uncommitted changes, update, then re-apply them
+  gw update --autostash
+
   # Force update even with uncommitted changes (not recommended)
   gw update --force
 
   # Use a different remote
   gw update --remote upstream
 
+  # Update every worktree
+  gw update --all
+
+  # Update specific worktrees
+  gw update feat-a feat-b
+
+  # After a conflict: check what's left, then finish or roll back
+  gw update --status
+  gw update --continue
+  gw update --abort
+
 Configuration:
   The default branch and update strategy are configured in .gw/config.json:
   {
     "defaultBranch": "main",
-    "updateStrategy": "merge"  // or "rebase"
+    "updateStrategy": "merge",  // or "rebase"
+    "updateAutostash": true     // stash uncommitted changes around updates
   }
 
   If updateStrategy is not configured, defaults to "merge".
 `);
 }
+
+/**
+ * Parse arguments for the pull command
+ */
+export function parsePullArgs(args: string[]): PullOptions {
+  const parsed = denoParseArgs(args, {
+    boolean: ['help', 'force', 'dry-run', 'with-default'],
+    string: ['from', 'remote'],
+    alias: {
+      h: 'help',
+      f: 'force',
+      n: 'dry-run',
+      d: 'with-default',
+    },
+  });
+
+  return {
+    help: parsed.help as boolean,
+    force: parsed.force as boolean,
+    dryRun: parsed['dry-run'] as boolean,
+    withDefault: parsed['with-default'] as boolean,
+    branch: parsed.from as string | undefined,
+    remote: parsed.remote as string | undefined,
+  };
+}
+
+/**
+ * Display help text for the pull command
+ */
+export function showPullHelp(): void {
+  console.log(`
+gw pull - Fast-forward the current branch from its upstream
+
+Usage:
+  gw pull [options]
+
+Options:
+  -d, --with-default   Also merge the latest default branch afterwards
+  --from <branch>      Branch to merge with --with-default instead of defaultBranch
+  --remote <name>      Remote to fetch the default branch from
+                       (default: remotes.base, or "origin")
+  -f, --force          Skip uncommitted changes check (dangerous)
+  -n, --dry-run        Show what would happen without executing
+  -h, --help           Show this help message
+
+Description:
+  Fetches the upstream of the current worktree's branch (e.g., origin/feat-a)
+  and fast-forwards the branch to it, picking up commits pushed from another
+  machine or by a collaborator. It never creates a merge commit: if the branch
+  has diverged from its upstream, the pull stops and nothing is changed.
+
+  With --with-default, the latest default branch (typically "main") is merged
+  in afterwards, like 'gw update --merge'. A branch without an upstream is
+  then only updated from the default branch.
+
+  Use 'gw update' to bring in the default branch with your configured
+  strategy (merge or rebase), or to update several worktrees at once.
+
+  Safety checks:
+  - Blocks if you have uncommitted changes (use --force to override)
+  - Blocks if you're in a detached HEAD state
+  - Blocks if a merge or rebase is already in progress
+
+Examples:
+  # Fast-forward from the upstream branch
+  gw pull
+
+  # Fast-forward, then merge in the latest main
+  gw pull --with-default
+
+  # Merge in develop instead of the default branch
+  gw pull --with-default --from develop
+
+  # Preview what would happen without executing
+  gw pull --dry-run
+`);
+}
@@ -0,0 +1,73 @@
+/**
+ * Tests for completions.ts
+ */
+
+import { assertEquals } from '$std/assert';
+import { getCompletions } from './completions.ts';
+import { GitTestRepo } from '../test-utils/git-test-repo.ts';
+import { TempCwd } from '../test-utils/temp-env.ts';
+import { createMinimalConfig, writeTestConfig } from '../test-utils/fixtures.ts';
+
+const execute = () => Promise.resolve();
+const COMMANDS = {
+  checkout: execute,
+  co: execute,
+  remove: () => Promise.resolve(),
+  init: () => Promise.resolve(),
+  __complete: () => Promise.resolve(),
+};
+
+const values = async (words: string[]) => (await getCompletions(words, COMMANDS)).map((candidate) => candidate.value);
+
+Deno.test('getCompletions - completes command names, flags and fixed values', async () => {
+  assertEquals(await values(['c']), ['checkout', 'co']);
+  assertEquals(await values(['']), ['checkout', 'co', 'remove', 'init']);
+  assertEquals(await values(['co', '--f']), ['--from', '--force']);
+  assertEquals(await values(['init', '--update-strategy', '']), ['merge', 'rebase']);
+  assertEquals(await values(['init', '--root', '']), []);
+  assertEquals(await values(['unknown', '']), []);
+});
+
+Deno.test('getCompletions - completes worktrees and branches', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createWorktree('feat-a', 'feat-a');
+    await repo.runCommand('git', ['branch', 'feat-b']);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      assertEquals(await getCompletions(['remove', 'f'], COMMANDS), [{ value: 'feat-a', description: 'feat-a' }]);
+      assertEquals(await values(['remove', 'feat-a', '']), []);
+      assertEquals(await values(['checkout', 'feat']), ['feat-a', 'feat-b']);
+      assertEquals(await values(['checkout', 'new-branch', '--from', 'm']), ['main']);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('getCompletions - completes template names', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await writeTestConfig(repo.path, {
+      ...createMinimalConfig(repo.path),
+      templates: { hotfix: { branch: 'hotfix/{name}' }, spike: {} },
+    });
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      assertEquals(await getCompletions(['checkout', 'login-bug', '--template', 'h'], COMMANDS), [
+        { value: 'hotfix', description: 'hotfix/{name}' },
+      ]);
+      assertEquals(await values(['co', '-t', '']), ['hotfix', 'spike']);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
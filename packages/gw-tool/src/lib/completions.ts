@@ -0,0 +1,348 @@
+/**
+ * Shell completions
+ * Completion scripts for zsh, bash and fish, and the candidates they get from the hidden
+ * 'gw __complete' command: command names, flags, worktrees, branches and open PRs
+ */
+
+import { relative } from '$std/path';
+import { readConfigLayer } from './config.ts';
+import { listLocalBranches, listWorktrees } from './git-utils.ts';
+import { findGitRoot } from './path-resolver.ts';
+import type { Config } from './types.ts';
+
+/**
+ * Where the values of an argument come from: dynamic values, or a fixed list
+ */
+type CompletionSource = 'worktrees' | 'branches' | 'prs' | 'templates' | string[];
+
+/**
+ * How the arguments of a command complete
+ */
+interface CommandCompletionSpec {
+  /** Flags of the command */
+  flags: string[];
+  /** Values of the first positional argument */
+  argument?: CompletionSource;
+  /** Whether every positional argument completes like the first one */
+  variadic?: boolean;
+  /** Flags that take a value, and where the value comes from (null: no completion) */
+  values?: Record<string, CompletionSource | null>;
+}
+
+/**
+ * A completion candidate
+ */
+export interface CompletionCandidate {
+  value: string;
+  /** Shown next to the value by shells that support it (zsh, fish) */
+  description?: string;
+}
+
+const HELP_FLAGS = ['--help', '-h'];
+
+/**
+ * Completion specs by command name (aliases resolve to the command they alias)
+ */
+const COMMAND_COMPLETIONS: Record<string, CommandCompletionSpec> = {
+  checkout: {
+    flags: ['--no-cd', '--from', '--template', '-t', '-b', '-B', '--detach', '--force', '-f', '--track', ...HELP_FLAGS],
+    argument: 'branches',
+    values: { '--from': 'branches', '--template': 'templates', '-t': 'templates', '-b': null, '-B': null },
+  },
+  cd: { flags: ['--json', ...HELP_FLAGS], argument: 'worktrees' },
+  update: {
+    flags: [
+      '--all',
+      '-a',
+      '--from',
+      '--remote',
+      '--merge',
+      '-m',
+      '--rebase',
+      '-r',
+      '--autostash',
+      '--no-autostash',
+      '--continue',
+      '--abort',
+      '--status',
+      '--force',
+      '-f',
+      '--dry-run',
+      '-n',
+      ...HELP_FLAGS,
+    ],
+    argument: 'worktrees',
+    variadic: true,
+    values: { '--from': 'branches', '--remote': null },
+  },
+  pull: {
+    flags: ['--with-default', '-d', '--from', '--remote', '--force', '-f', '--dry-run', '-n', ...HELP_FLAGS],
+    values: { '--from': 'branches', '--remote': null },
+  },
+  stack: { flags: HELP_FLAGS },
+  restack: { flags: ['--dry-run', '-n', ...HELP_FLAGS] },
+  note: { flags: ['--clear', ...HELP_FLAGS], argument: 'worktrees' },
+  tag: { flags: ['--remove', '-r', ...HELP_FLAGS], argument: 'worktrees' },
+  sync: {
+    flags: ['--from', '--check', '--reverse', '--force', '-f', '--dry-run', '-n', ...HELP_FLAGS],
+    argument: 'worktrees',
+    values: { '--from': 'worktrees' },
+  },
+  init: {
+    flags: [
+      '--interactive',
+      '-i',
+      '--root',
+      '--default-source',
+      '--auto-copy-files',
+      '--pre-checkout',
+      '--post-checkout',
+      '--clean-threshold',
+      '--auto-clean',
+      '--update-strategy',
+      '--update-autostash',
+      ...HELP_FLAGS,
+    ],
+    values: {
+      '--root': null,
+      '--default-source': null,
+      '--auto-copy-files': null,
+      '--pre-checkout': null,
+      '--post-checkout': null,
+      '--clean-threshold': null,
+      '--update-strategy': ['merge', 'rebase'],
+    },
+  },
+  'install-shell': {
+    flags: ['--name', '-n', '--command', '-c', '--remove', '-r', '--quiet', '-q', ...HELP_FLAGS],
+    values: { '--name': null, '-n': null, '--command': null, '-c': null },
+  },
+  root: { flags: ['--json', ...HELP_FLAGS] },
+  list: { flags: ['--json', '--raw', '--porcelain', '--verbose', '-v', ...HELP_FLAGS] },
+  remove: { flags: ['--force', '-f', '--preserve-branch', '--yes', '-y', ...HELP_FLAGS], argument: 'worktrees' },
+  move: { flags: HELP_FLAGS, argument: 'worktrees' },
+  prune: {
+    flags: [
+      '--dry-run',
+      '-n',
+      '--force',
+      '-f',
+      '--json',
+      '--no-branches',
+      '--stale-only',
+      '--verbose',
+      '-v',
+      ...HELP_FLAGS,
+    ],
+  },
+  lock: { flags: ['--reason', ...HELP_FLAGS], argument: 'worktrees', values: { '--reason': null } },
+  unlock: { flags: HELP_FLAGS, argument: 'worktrees' },
+  repair: { flags: HELP_FLAGS },
+  clean: { flags: ['--dry-run', '-n', '--force', '-f', '--json', '--use-autoclean-threshold', ...HELP_FLAGS] },
+  'show-init': { flags: ['--json', ...HELP_FLAGS] },
+  config: {
+    flags: ['--user', '--local', '--show-origin', ...HELP_FLAGS],
+    argument: ['get', 'set', 'unset', 'add', 'remove', 'list', 'edit'],
+  },
+  pr: { flags: ['--name', '--no-cd', ...HELP_FLAGS], argument: 'prs', values: { '--name': null } },
+  hooks: {
+    flags: ['--limit', '-n', '--full', ...HELP_FLAGS],
+    argument: ['log', 'run'],
+    values: { '--limit': null, '-n': null },
+  },
+};
+
+/**
+ * Get the completion candidates for a command line
+ *
+ * @param words Words after 'gw', the last one being the (possibly empty) word to complete
+ * @param commands Command names mapped to their handlers (aliases share a handler)
+ * @returns Candidates starting with the word to complete
+ */
+export async function getCompletions(
+  words: string[],
+  commands: Record<string, (args: string[]) => Promise<void>>
+): Promise<CompletionCandidate[]> {
+  const current = words.at(-1) ?? '';
+  const previous = words.slice(0, -1);
+  const matching = (candidates: CompletionCandidate[]) =>
+    candidates.filter((candidate) => candidate.value.startsWith(current));
+
+  // The command itself (hidden commands like '__complete' start with '__')
+  if (previous.length === 0) {
+    return matching(
+      Object.keys(commands)
+        .filter((name) => !name.startsWith('__'))
+        .map((value) => ({ value }))
+    );
+  }
+
+  const handler = commands[previous[0]];
+  const command = Object.keys(commands).find((name) => commands[name] === handler);
+  const spec = command ? COMMAND_COMPLETIONS[command] : undefined;
+  if (!spec) {
+    return [];
+  }
+
+  // The value of a flag
+  const lastWord = previous.at(-1)!;
+  if (spec.values && lastWord in spec.values) {
+    const source = spec.values[lastWord];
+    return source ? matching(await getSourceCandidates(source)) : [];
+  }
+
+  if (current.startsWith('-')) {
+    return matching(spec.flags.map((value) => ({ value })));
+  }
+
+  // Positional arguments: skip flags and the values they take
+  const positional = previous.slice(1).filter((word, index, args) => {
+    const flagBefore = index > 0 ? args[index - 1] : undefined;
+    return !word.startsWith('-') && !(flagBefore && spec.values && flagBefore in spec.values);
+  });
+
+  if (spec.argument && (positional.length === 0 || spec.variadic)) {
+    return matching(await getSourceCandidates(spec.argument));
+  }
+
+  return [];
+}
+
+/**
+ * Get the values of a completion source
+ * Failures (e.g., outside a repository, or without the GitHub CLI) yield no candidates.
+ */
+async function getSourceCandidates(source: CompletionSource): Promise<CompletionCandidate[]> {
+  if (Array.isArray(source)) {
+    return source.map((value) => ({ value }));
+  }
+
+  try {
+    switch (source) {
+      case 'worktrees': {
+        // Not loadConfig(): completing must not create a config or print anything
+        const gitRoot = await findGitRoot();
+        return (await listWorktrees())
+          .filter((wt) => !wt.bare && wt.path !== gitRoot)
+          .map((wt) => ({ value: relative(gitRoot, wt.path), description: wt.branch || undefined }));
+      }
+      case 'branches':
+        return [...new Set([...(await listLocalBranches()), ...(await listRemoteBranches())])].map((value) => ({
+          value,
+        }));
+      case 'prs':
+        return await listOpenPullRequests();
+      case 'templates':
+        return await listTemplates();
+    }
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List remote branches without their remote prefix (e.g., "feat/login" for "origin/feat/login")
+ */
+async function listRemoteBranches(): Promise<string[]> {
+  const { code, stdout } = await new Deno.Command('git', {
+    args: ['for-each-ref', '--format=%(refname:short)', 'refs/remotes/'],
+    stdout: 'piped',
+    stderr: 'null',
+  }).output();
+
+  if (code !== 0) return [];
+
+  return new TextDecoder()
+    .decode(stdout)
+    .split('\n')
+    .filter((ref) => ref.includes('/') && !ref.endsWith('/HEAD'))
+    .map((ref) => ref.slice(ref.indexOf('/') + 1));
+}
+
+/**
+ * List the worktree templates of every config layer, described by their branch pattern
+ */
+async function listTemplates(): Promise<CompletionCandidate[]> {
+  const gitRoot = await findGitRoot();
+  const templates: NonNullable<Config['templates']> = {};
+  for (const layer of ['user', 'repo', 'local'] as const) {
+    Object.assign(templates, (await readConfigLayer(layer, gitRoot)).templates);
+  }
+
+  return Object.entries(templates).map(([value, template]) => ({
+    value,
+    description: template.branch,
+  }));
+}
+
+/**
+ * List the open pull requests of the repository with the GitHub CLI
+ */
+async function listOpenPullRequests(): Promise<CompletionCandidate[]> {
+  const { code, stdout } = await new Deno.Command('gh', {
+    args: ['pr', 'list', '--state', 'open', '--limit', '50', '--json', 'number,title'],
+    stdout: 'piped',
+    stderr: 'null',
+  }).output();
+
+  if (code !== 0) return [];
+
+  const prs = JSON.parse(new TextDecoder().decode(stdout)) as Array<{ number: number; title: string }>;
+  return prs.map((pr) => ({ value: String(pr.number), description: pr.title }));
+}
+
+/**
+ * Get the completion script for a shell
+ * Bash and zsh source it from the integration script; fish loads it from its completions
+ * directory. Without candidates, the shells fall back to completing file names.
+ *
+ * @param shell Shell to generate the script for
+ * @param commandName Name of the command to complete (e.g., "gw")
+ * @param actualCommand Command to run for the candidates (default: 'command <name>')
+ */
+export function getCompletionScript(
+  shell: 'zsh' | 'bash' | 'fish',
+  commandName = 'gw',
+  actualCommand?: string
+): string {
+  const cmdPrefix = actualCommand || `command ${commandName}`;
+  const functionName = `_${commandName.replace(/[^a-zA-Z0-9_]/g, '_')}_complete`;
+
+  switch (shell) {
+    case 'zsh':
+      return `# gw-tools shell completions
+${functionName}() {
+  local -a candidates
+  candidates=("\${(@f)$(${cmdPrefix} __complete "\${(@)words[2,CURRENT]}" 2>/dev/null)}")
+  candidates=("\${(@)candidates:#}")
+  if (( \${#candidates} )); then
+    candidates=("\${(@)candidates//$'\\t'/:}")
+    _describe '${commandName}' candidates
+  else
+    _files
+  fi
+}
+(( $+functions[compdef] )) && compdef ${functionName} ${commandName}`;
+    case 'bash':
+      return `# gw-tools shell completions
+${functionName}() {
+  local IFS=$'\\n'
+  COMPREPLY=($(${cmdPrefix} __complete "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null | cut -f1))
+}
+complete -o default -F ${functionName} ${commandName}`;
+    case 'fish':
+      return `# gw-tools shell completions
+function ${functionName}
+    set -l tokens (commandline -opc)
+    set -e tokens[1]
+    set -l current (commandline -ct)
+    set -l candidates (${cmdPrefix} __complete $tokens "$current" 2>/dev/null)
+    if test (count $candidates) -gt 0
+        printf '%s\\n' $candidates
+    else
+        __fish_complete_path "$current"
+    end
+end
+complete -c ${commandName} -f -a '(${functionName})'`;
+  }
+}
@@ -34,9 +34,9 @@ Deno.test('runMigrations - migrates hooks.add to hooks.checkout (v0 -> v1)', ()
   const result = runMigrations(config);
 
   assertEquals(result.migrated, true);
-  assertEquals(result.appliedMigrations.length, 1);
+  assertEquals(result.appliedMigrations.length, MIGRATIONS.length);
   assertEquals(result.appliedMigrations[0], 'v1: Rename hooks.add to hooks.checkout (command rename)');
-  assertEquals(result.config.configVersion, 1);
+  assertEquals(result.config.configVersion, CURRENT_CONFIG_VERSION);
   assertEquals(result.config.hooks?.checkout?.pre, ['echo pre']);
   assertEquals(result.config.hooks?.checkout?.post, ['npm install']);
   assertEquals((result.config.hooks as Record<string, unknown>).add, undefined);
@@ -74,7 +74,7 @@ Deno.test('runMigrations - handles config without hooks', () => {
   const result = runMigrations(config);
 
   assertEquals(result.migrated, true);
-  assertEquals(result.config.configVersion, 1);
+  assertEquals(result.config.configVersion, CURRENT_CONFIG_VERSION);
   assertEquals(result.config.hooks, undefined);
 });
 
@@ -88,7 +88,46 @@ Deno.test('runMigrations - handles config with empty hooks', () => {
   const result = runMigrations(config);
 
   assertEquals(result.migrated, true);
-  assertEquals(result.config.configVersion, 1);
+  assertEquals(result.config.configVersion, CURRENT_CONFIG_VERSION);
+});
+
+Deno.test('runMigrations - copies hooks.checkout to hooks.pr (v1 -> v2)', () => {
+  const config = {
+    configVersion: 1,
+    root: '/test/path',
+    hooks: {
+      checkout: {
+        post: ['pnpm install'],
+      },
+    },
+  };
+
+  const result = runMigrations(config);
+
+  assertEquals(result.migrated, true);
+  assertEquals(result.appliedMigrations, ['v2: Copy hooks.checkout to hooks.pr (pr command has its own hooks)']);
+  assertEquals(result.config.configVersion, 2);
+  assertEquals(result.config.hooks?.pr?.post, ['pnpm install']);
+  assertEquals(result.config.hooks?.checkout?.post, ['pnpm install']);
+
+  // The copies must be independent
+  result.config.hooks!.pr!.post!.push('echo pr');
+  assertEquals(result.config.hooks?.checkout?.post, ['pnpm install']);
+});
+
+Deno.test('runMigrations - does not overwrite existing hooks.pr', () => {
+  const config = {
+    configVersion: 1,
+    root: '/test/path',
+    hooks: {
+      checkout: { post: ['pnpm install'] },
+      pr: { post: ['gh pr view'] },
+    },
+  };
+
+  const result = runMigrations(config);
+
+  assertEquals(result.config.hooks?.pr?.post, ['gh pr view']);
 });
 
 Deno.test('needsMigration - returns true for config without version', () => {
@@ -34,7 +34,7 @@ import type { Config } from './types.ts';
 /**
  * Current config version - increment when adding migrations
  */
-export const CURRENT_CONFIG_VERSION = 1;
+export const CURRENT_CONFIG_VERSION = 2;
 
 /**
  * Migration definition
@@ -67,13 +67,26 @@ export const MIGRATIONS: Migration[] = [
       return config;
     },
   },
+  {
+    version: 2,
+    description: 'Copy hooks.checkout to hooks.pr (pr command has its own hooks)',
+    migrate: (config) => {
+      // Migration: gw pr used to run the checkout hooks - keep that behavior explicit
+      const hooks = config.hooks as Record<string, unknown> | undefined;
+      if (hooks?.checkout && !hooks?.pr) {
+        hooks.pr = structuredClone(hooks.checkout);
+      }
+      config.configVersion = 2;
+      return config;
+    },
+  },
   // Future migrations go here...
   // {
-  //   version: 2,
+  //   version: 3,
   //   description: 'Example future migration',
   //   migrate: (config) => {
   //     // Transform config...
-  //     config.configVersion = 2;
+  //     config.configVersion = 3;
   //     return config;
   //   },
   // },
@@ -0,0 +1,114 @@
+/**
+ * Tests for config-schema.ts
+ */
+
+import { assertEquals } from '$std/assert';
+import schema from '../../schema/config.schema.json' with { type: 'json' };
+import { suggestKey, validateConfigSchema } from './config-schema.ts';
+import { COPY_MODES } from './file-ops.ts';
+import { HOOK_COMMANDS } from './hooks.ts';
+
+Deno.test('validateConfigSchema - accepts every option', () => {
+  const config = {
+    $schema: schema.$id,
+    _comment: 'Keys starting with an underscore are ignored',
+    configVersion: 2,
+    root: '/repo',
+    defaultBranch: 'main',
+    autoCopyFiles: ['.env', { path: 'node_modules', mode: 'symlink' }],
+    hooks: {
+      checkout: {
+        pre: ['echo pre'],
+        post: [{ command: 'pnpm install', cwd: 'worktree', timeout: 60, env: { CI: '1' } }],
+      },
+      clean: { post: ['echo done'] },
+    },
+    ports: { base: 3000, rangeSize: 10, named: { web: 0, api: 1 } },
+    cleanThreshold: 7,
+    autoClean: true,
+    lastAutoCleanTime: 1700000000000,
+    updateStrategy: 'rebase',
+    updateAutostash: false,
+    remotes: { base: 'upstream', push: 'origin' },
+    overrides: [
+      { branch: 'release/*', autoCopyFiles: ['.env.release'], hooks: { checkout: { post: ['pnpm build'] } } },
+      { branch: 'spike/**', cleanThreshold: 30, updateStrategy: 'merge', defaultBranch: 'develop' },
+    ],
+    templates: {
+      hotfix: { from: 'v*', branch: 'hotfix/{name}', autoCopyFiles: ['.env.production'], lock: 'Hotfix', clean: 14 },
+      review: { hooks: { post: [] }, lock: true, clean: 'never' },
+    },
+  };
+
+  assertEquals(validateConfigSchema(config), []);
+});
+
+Deno.test('validateConfigSchema - reports every problem with its path', () => {
+  const config = {
+    defaultbranch: 'main',
+    cleanThreshold: '7',
+    updateStrategy: 'squash',
+    autoCopyFiles: [42, { path: '.env', mode: 'copi' }],
+    hooks: {
+      chekout: { post: ['pnpm install'] },
+      checkout: { post: [{ command: 'pnpm install', timeout: 0 }, { cwd: 'worktree' }] },
+    },
+    ports: { base: 70000 },
+  };
+
+  assertEquals(validateConfigSchema(config), [
+    { path: 'defaultbranch', message: 'unknown key (did you mean "defaultBranch"?)' },
+    { path: 'cleanThreshold', message: 'expected a number, got a string ("7")' },
+    { path: 'updateStrategy', message: 'expected one of "merge", "rebase", got "squash"' },
+    { path: 'autoCopyFiles[0]', message: 'expected a string or an object, got a number (42)' },
+    { path: 'autoCopyFiles[1].mode', message: 'expected one of "copy", "symlink", "hardlink", "reflink", got "copi"' },
+    { path: 'hooks.chekout', message: 'unknown key (did you mean "checkout"?)' },
+    { path: 'hooks.checkout.post[0].timeout', message: 'expected a number > 0, got 0' },
+    { path: 'hooks.checkout.post[1].command', message: 'required' },
+    { path: 'ports.base', message: 'expected an integer <= 65535, got 70000' },
+  ]);
+  assertEquals(validateConfigSchema([]), [{ path: '', message: 'expected an object, got a list' }]);
+});
+
+Deno.test('validateConfigSchema - validates overrides like the options they override', () => {
+  const config = {
+    overrides: [
+      { branch: 'release/*', autoClean: true, hooks: { chekout: {} } },
+      { cleanThreshold: -1, updateStrategy: 'squash' },
+    ],
+  };
+
+  assertEquals(validateConfigSchema(config), [
+    { path: 'overrides[0].autoClean', message: 'unknown key' },
+    { path: 'overrides[0].hooks.chekout', message: 'unknown key (did you mean "checkout"?)' },
+    { path: 'overrides[1].branch', message: 'required' },
+    { path: 'overrides[1].cleanThreshold', message: 'expected a number >= 0, got -1' },
+    { path: 'overrides[1].updateStrategy', message: 'expected one of "merge", "rebase", got "squash"' },
+  ]);
+});
+
+Deno.test('validateConfigSchema - validates templates', () => {
+  const config = {
+    templates: {
+      hotfix: { branch: 'hotfix', clean: 'sometimes', lock: 1 },
+      spike: { hooks: { checkout: {} } },
+    },
+  };
+
+  assertEquals(validateConfigSchema(config), [
+    { path: 'templates.hotfix.branch', message: 'expected a string matching /\\{name\\}/, got "hotfix"' },
+    { path: 'templates.hotfix.clean', message: 'expected one of "never", got "sometimes"' },
+    { path: 'templates.hotfix.lock', message: 'expected a boolean or a string, got a number (1)' },
+    { path: 'templates.spike.hooks.checkout', message: 'unknown key' },
+  ]);
+});
+
+Deno.test('suggestKey - suggests close keys only', () => {
+  assertEquals(suggestKey('autoCopyFile', ['autoCopyFiles', 'autoClean']), 'autoCopyFiles');
+  assertEquals(suggestKey('hooks', ['autoCopyFiles', 'autoClean']), undefined);
+});
+
+Deno.test('config schema - matches the hook commands and copy modes', () => {
+  assertEquals(Object.keys(schema.properties.hooks.properties), [...HOOK_COMMANDS]);
+  assertEquals(schema.definitions.copyFile.anyOf[1].properties?.mode.enum, COPY_MODES);
+});
@@ -0,0 +1,246 @@
+/**
+ * Config schema validation
+ * Validates configs against the published JSON Schema (schema/config.schema.json), and
+ * describes every problem with its location, e.g. 'hooks.chekout: unknown key (did you
+ * mean "checkout"?)'
+ */
+
+import schema from '../../schema/config.schema.json' with { type: 'json' };
+
+/** URL of the published JSON Schema, referenced by "$schema" in config files */
+export const CONFIG_SCHEMA_URL: string = schema.$id;
+
+/**
+ * The subset of JSON Schema the config schema uses
+ */
+interface JsonSchema {
+  $ref?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  patternProperties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+}
+
+/**
+ * A problem found in a config
+ */
+export interface ConfigProblem {
+  /** Location of the value, e.g. "hooks.checkout.post[0].timeout" (empty for the config itself) */
+  path: string;
+  /** What is wrong, e.g. 'expected a number, got a string ("7")' */
+  message: string;
+}
+
+const CONFIG_SCHEMA = schema as JsonSchema;
+
+/**
+ * Resolve a local reference (e.g., "#/definitions/hook" or "#/properties/hooks")
+ */
+function resolveSchema(schema: JsonSchema): JsonSchema {
+  if (!schema.$ref) {
+    return schema;
+  }
+
+  const target = schema.$ref
+    .replace(/^#\/?/, '')
+    .split('/')
+    .filter(Boolean)
+    .reduce<unknown>((node, key) => (node as Record<string, unknown>)[key], CONFIG_SCHEMA) as JsonSchema;
+  return resolveSchema({ ...target, ...schema, $ref: target.$ref });
+}
+
+/**
+ * Whether a value has a JSON Schema type
+ */
+function matchesType(value: unknown, type: JsonSchema['type']): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    default:
+      return true;
+  }
+}
+
+/**
+ * Describe an expected type, e.g. "a list"
+ */
+function describeType(type: JsonSchema['type']): string {
+  switch (type) {
+    case 'object':
+      return 'an object';
+    case 'array':
+      return 'a list';
+    case 'integer':
+      return 'an integer';
+    default:
+      return `a ${type}`;
+  }
+}
+
+/**
+ * Describe an actual value, e.g. 'a string ("7")'
+ */
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return 'an object';
+  return `a ${typeof value} (${JSON.stringify(value)})`;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Find the known key closest to an unknown one (undefined if none is close enough)
+ */
+export function suggestKey(key: string, knownKeys: string[]): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(key.length / 3));
+  let best: { key: string; distance: number } | undefined;
+
+  for (const known of knownKeys) {
+    const distance = editDistance(key.toLowerCase(), known.toLowerCase());
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { key: known, distance };
+    }
+  }
+
+  return best?.key;
+}
+
+/**
+ * Validate a value against a schema, collecting every problem
+ */
+function validateValue(value: unknown, schemaOrRef: JsonSchema, path: string, problems: ConfigProblem[]): void {
+  const schema = resolveSchema(schemaOrRef);
+  const report = (message: string) => problems.push({ path, message });
+
+  // Pick the alternative of the value's type (e.g., a hook is a string or an object)
+  if (schema.anyOf) {
+    const alternatives = schema.anyOf.map(resolveSchema);
+    const alternative = alternatives.find((candidate) => matchesType(value, candidate.type));
+    if (!alternative) {
+      report(
+        `expected ${alternatives.map((candidate) => describeType(candidate.type)).join(' or ')}, got ${describeValue(value)}`
+      );
+      return;
+    }
+    validateValue(value, alternative, path, problems);
+    return;
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    report(`expected ${describeType(schema.type)}, got ${describeValue(value)}`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    report(
+      `expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`
+    );
+    return;
+  }
+
+  if (typeof value === 'number') {
+    const expected = describeType(schema.type);
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      report(`expected ${expected} >= ${schema.minimum}, got ${value}`);
+    } else if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      report(`expected ${expected} > ${schema.exclusiveMinimum}, got ${value}`);
+    } else if (schema.maximum !== undefined && value > schema.maximum) {
+      report(`expected ${expected} <= ${schema.maximum}, got ${value}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report(`expected a non-empty string, got ${JSON.stringify(value)}`);
+    } else if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      report(`expected a string matching /${schema.pattern}/, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateValue(item, schema.items!, `${path}[${index}]`, problems));
+  }
+
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    const keyPath = (key: string) => (path ? `${path}.${key}` : key);
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        problems.push({ path: keyPath(key), message: 'required' });
+      }
+    }
+
+    for (const [key, child] of Object.entries(object)) {
+      const pattern = Object.keys(schema.patternProperties ?? {}).find((pattern) => new RegExp(pattern).test(key));
+      if (properties[key]) {
+        validateValue(child, properties[key], keyPath(key), problems);
+      } else if (pattern) {
+        validateValue(child, schema.patternProperties![pattern], keyPath(key), problems);
+      } else if (schema.additionalProperties === false) {
+        const suggestion = suggestKey(key, Object.keys(properties));
+        problems.push({
+          path: keyPath(key),
+          message: `unknown key${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`,
+        });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateValue(child, schema.additionalProperties, keyPath(key), problems);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a config against the JSON Schema
+ *
+ * @param data Parsed config file
+ * @returns Every problem found (empty if the config matches the schema)
+ */
+export function validateConfigSchema(data: unknown): ConfigProblem[] {
+  const problems: ConfigProblem[] = [];
+  validateValue(data, CONFIG_SCHEMA, '', problems);
+  return problems;
+}
+
+/**
+ * Format problems as an indented list, one problem per line
+ */
+export function formatConfigProblems(problems: ConfigProblem[]): string {
+  return problems.map((problem) => `  - ${problem.path || '(config)'}: ${problem.message}`).join('\n');
+}
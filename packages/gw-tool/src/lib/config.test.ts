@@ -2,9 +2,18 @@
  * Tests for config.ts
  */
 
-import { assertEquals, assertRejects } from '$std/assert';
+import { assertEquals, assertRejects, assertStringIncludes } from '$std/assert';
 import { join } from '$std/path';
-import { loadConfig, saveConfig, saveConfigTemplate } from './config.ts';
+import {
+  applyWorktreeTemplate,
+  getCleanThreshold,
+  loadConfig,
+  resolveConfigForBranch,
+  saveConfig,
+  saveConfigTemplate,
+} from './config.ts';
+import { CONFIG_SCHEMA_URL } from './config-schema.ts';
+import type { Config, HooksConfig } from './types.ts';
 import { GitTestRepo } from '../test-utils/git-test-repo.ts';
 import {
   createMinimalConfig,
@@ -14,7 +23,8 @@ import {
   writeTestConfig,
 } from '../test-utils/fixtures.ts';
 import { assertFileExists } from '../test-utils/assertions.ts';
-import { TempCwd } from '../test-utils/temp-env.ts';
+import { TempCwd, TempEnv, TempHome } from '../test-utils/temp-env.ts';
+import { withMockedExit } from '../test-utils/mock-exit.ts';
 
 Deno.test("saveConfig - creates .gw directory if it doesn't exist", async () => {
   const repo = new GitTestRepo();
@@ -131,8 +141,11 @@ Deno.test('loadConfig - auto-detects git root if no config exists', async () =>
 
     const cwd = new TempCwd(repo.path);
     try {
-      const { config: loaded, gitRoot } = await loadConfig();
-      // Config should be auto-created with detected root
+      const { result, stdout, stderr } = await withMockedExit(() => loadConfig(), { captureOutput: true });
+      const { config: loaded, gitRoot } = result!;
+      // Config should be auto-created with detected root, reported on stderr to keep --json output clean
+      assertEquals(stdout, '');
+      assertStringIncludes(stderr ?? '', 'Created config at');
       assertEquals(gitRoot, repo.path);
       assertEquals(loaded.root, repo.path);
       assertEquals(loaded.defaultBranch, 'main');
@@ -214,6 +227,220 @@ Deno.test('loadConfig - validates config structure', async () => {
   }
 });
 
+Deno.test('loadConfig - rejects hooks for unknown commands', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const invalidConfig = {
+      configVersion: 2,
+      root: repo.path,
+      hooks: {
+        delete: { pre: ['echo typo'] }, // Should be "remove"
+      },
+    };
+    await Deno.mkdir(join(repo.path, '.gw'), { recursive: true });
+    await Deno.writeTextFile(join(repo.path, '.gw', 'config.json'), JSON.stringify(invalidConfig, null, 2));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await assertRejects(() => loadConfig(), Error, 'Invalid configuration file format');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('loadConfig - rejects hooks that are not arrays', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const invalidConfig = {
+      configVersion: 2,
+      root: repo.path,
+      hooks: {
+        update: { post: 'pnpm install' }, // Should be array
+      },
+    };
+    await Deno.mkdir(join(repo.path, '.gw'), { recursive: true });
+    await Deno.writeTextFile(join(repo.path, '.gw', 'config.json'), JSON.stringify(invalidConfig, null, 2));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await assertRejects(() => loadConfig(), Error, 'Invalid configuration file format');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('loadConfig - accepts object-form hooks', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const hooks: HooksConfig = {
+      checkout: {
+        post: [
+          'pnpm install',
+          { command: 'pnpm build', cwd: 'worktree', timeout: 300, env: { NODE_ENV: 'development' } },
+          { command: 'pnpm lint', parallel: 'checks', continueOnError: true },
+          { command: 'pnpm dev', background: true },
+        ],
+      },
+    };
+    await Deno.mkdir(join(repo.path, '.gw'), { recursive: true });
+    await Deno.writeTextFile(
+      join(repo.path, '.gw', 'config.json'),
+      JSON.stringify({ configVersion: 2, root: repo.path, hooks }, null, 2)
+    );
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { config } = await loadConfig();
+      assertEquals(config.hooks, hooks);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('loadConfig - rejects invalid hook objects', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const invalidConfig = {
+      configVersion: 2,
+      root: repo.path,
+      hooks: {
+        checkout: { post: [{ command: 'pnpm build', timeout: -1 }] }, // Timeout must be positive
+      },
+    };
+    await Deno.mkdir(join(repo.path, '.gw'), { recursive: true });
+    await Deno.writeTextFile(join(repo.path, '.gw', 'config.json'), JSON.stringify(invalidConfig, null, 2));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await assertRejects(() => loadConfig(), Error, 'Invalid configuration file format');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('loadConfig - rejects unknown hook variables', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const invalidConfig = {
+      configVersion: 2,
+      root: repo.path,
+      hooks: {
+        checkout: { post: ['docker compose -p {worktreeslug} up -d'] }, // Should be {worktreeSlug}
+      },
+    };
+    await Deno.mkdir(join(repo.path, '.gw'), { recursive: true });
+    await Deno.writeTextFile(join(repo.path, '.gw', 'config.json'), JSON.stringify(invalidConfig, null, 2));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await assertRejects(() => loadConfig(), Error, 'Unknown hook variable {worktreeslug}');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('loadConfig - rejects named ports outside the range', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const invalidConfig = {
+      configVersion: 2,
+      root: repo.path,
+      ports: { rangeSize: 5, named: { web: 0, api: 5 } }, // Offset 5 is outside 0-4
+    };
+    await Deno.mkdir(join(repo.path, '.gw'), { recursive: true });
+    await Deno.writeTextFile(join(repo.path, '.gw', 'config.json'), JSON.stringify(invalidConfig, null, 2));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await assertRejects(() => loadConfig(), Error, 'Invalid configuration file format');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('loadConfig - rejects invalid remotes', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const invalidConfig = {
+      configVersion: 2,
+      root: repo.path,
+      remotes: { base: 'upstream', push: '' },
+    };
+    await Deno.mkdir(join(repo.path, '.gw'), { recursive: true });
+    await Deno.writeTextFile(join(repo.path, '.gw', 'config.json'), JSON.stringify(invalidConfig, null, 2));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await assertRejects(() => loadConfig(), Error, 'Invalid configuration file format');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('loadConfig - validates autoCopyFiles copy modes', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const config = {
+      configVersion: 2,
+      root: repo.path,
+      autoCopyFiles: ['.env', { path: 'node_modules', mode: 'symlink' }],
+    };
+    await Deno.mkdir(join(repo.path, '.gw'), { recursive: true });
+    await Deno.writeTextFile(join(repo.path, '.gw', 'config.json'), JSON.stringify(config, null, 2));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { config: loaded } = await loadConfig();
+      assertEquals(loaded.autoCopyFiles, ['.env', { path: 'node_modules', mode: 'symlink' }]);
+
+      config.autoCopyFiles[1] = { path: 'node_modules', mode: 'junction' };
+      await Deno.writeTextFile(join(repo.path, '.gw', 'config.json'), JSON.stringify(config, null, 2));
+      await assertRejects(() => loadConfig(), Error, 'Invalid configuration file format');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
 Deno.test('loadConfig - parses JSONC with single-line comments', async () => {
   const repo = new GitTestRepo();
   try {
@@ -311,6 +538,165 @@ Deno.test('loadConfig - parses JSONC with trailing commas', async () => {
   }
 });
 
+Deno.test('loadConfig - lists every problem of an invalid config', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await writeTestConfig(repo.path, {
+      ...createMinimalConfig(repo.path),
+      cleanThreshold: '7',
+      hooks: { chekout: { post: ['pnpm install'] } },
+    } as unknown as Config);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      await assertRejects(() => loadConfig(), Error, 'cleanThreshold: expected a number, got a string ("7")');
+      await assertRejects(() => loadConfig(), Error, 'hooks.chekout: unknown key (did you mean "checkout"?)');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('loadConfig - merges user, repo and local config and reports origins', async () => {
+  const repo = new GitTestRepo();
+  const home = new TempHome();
+  try {
+    await repo.init();
+
+    await Deno.mkdir(join(home.path, '.gw'), { recursive: true });
+    await Deno.writeTextFile(
+      join(home.path, '.gw', 'config.json'),
+      JSON.stringify({ updateStrategy: 'rebase', hooks: { checkout: { post: ['echo user'] } } })
+    );
+    await writeTestConfig(repo.path, {
+      ...createConfigWithHooks(repo.path, undefined, ['echo repo']),
+      remotes: { base: 'upstream' },
+    });
+    await Deno.writeTextFile(
+      join(repo.path, '.gw', 'config.local.json'),
+      JSON.stringify({
+        defaultBranch: 'develop',
+        remotes: { push: 'fork' },
+        hooks: { checkout: { post: ['echo local'] } },
+      })
+    );
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { config, origins } = await loadConfig();
+      assertEquals(config.updateStrategy, 'rebase');
+      assertEquals(config.defaultBranch, 'develop');
+      assertEquals(config.remotes, { base: 'upstream', push: 'fork' });
+      assertEquals(config.hooks?.checkout?.post, ['echo user', 'echo repo', 'echo local']);
+
+      assertEquals(origins.updateStrategy, 'user');
+      assertEquals(origins.defaultBranch, 'local');
+      assertEquals(origins.root, 'repo');
+      assertEquals(origins['remotes.base'], 'repo');
+      assertEquals(origins['remotes.push'], 'local');
+      assertEquals(origins['hooks.checkout.post[0]'], 'user');
+      assertEquals(origins['hooks.checkout.post[2]'], 'local');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await home.cleanup();
+    await repo.cleanup();
+  }
+});
+
+Deno.test('loadConfig - environment variables override every layer', async () => {
+  const repo = new GitTestRepo();
+  const env = new TempEnv();
+  try {
+    await repo.init();
+    await writeTestConfig(repo.path, { ...createMinimalConfig(repo.path), cleanThreshold: 7 });
+    await Deno.writeTextFile(join(repo.path, '.gw', 'config.local.json'), JSON.stringify({ defaultBranch: 'develop' }));
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      env.set('GW_DEFAULT_BRANCH', 'trunk');
+      env.set('GW_CLEAN_THRESHOLD', '30');
+      env.set('GW_UPDATE_AUTOSTASH', 'true');
+
+      const { config, origins } = await loadConfig();
+      assertEquals(config.defaultBranch, 'trunk');
+      assertEquals(config.cleanThreshold, 30);
+      assertEquals(config.updateAutostash, true);
+      assertEquals(origins.defaultBranch, 'env');
+
+      env.set('GW_CLEAN_THRESHOLD', 'soon');
+      await assertRejects(() => loadConfig(), Error, 'Invalid value for GW_CLEAN_THRESHOLD: soon');
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    env.restore();
+    await repo.cleanup();
+  }
+});
+
+Deno.test('resolveConfigForBranch - applies matching overrides in order', () => {
+  const config: Config = {
+    defaultBranch: 'main',
+    cleanThreshold: 7,
+    autoCopyFiles: ['.env', 'seed/'],
+    hooks: { checkout: { pre: ['echo pre'], post: ['pnpm install'] } },
+    overrides: [
+      { branch: 'release/*', autoCopyFiles: ['.env.release'], hooks: { checkout: { post: ['pnpm build'] } } },
+      { branch: 'release/legacy-*', defaultBranch: 'legacy', updateStrategy: 'rebase' },
+      { branch: 'spike/**', cleanThreshold: 30 },
+    ],
+  };
+
+  const release = resolveConfigForBranch(config, 'release/1.2');
+  assertEquals(release.autoCopyFiles, ['.env.release']);
+  assertEquals(release.hooks?.checkout, { pre: ['echo pre'], post: ['pnpm build'] });
+  assertEquals(release.defaultBranch, 'main');
+
+  const legacy = resolveConfigForBranch(config, 'release/legacy-1');
+  assertEquals(legacy.defaultBranch, 'legacy');
+  assertEquals(legacy.updateStrategy, 'rebase');
+  assertEquals(legacy.autoCopyFiles, ['.env.release']);
+
+  assertEquals(resolveConfigForBranch(config, 'spike/a/b').cleanThreshold, 30);
+  assertEquals(resolveConfigForBranch(config, 'release/1.2/hotfix').autoCopyFiles, ['.env', 'seed/']);
+  assertEquals(resolveConfigForBranch(config, 'feat/release/1'), config);
+  assertEquals(resolveConfigForBranch(config, ''), config);
+});
+
+Deno.test('applyWorktreeTemplate - adds files and replaces checkout hook phases', () => {
+  const config: Config = {
+    autoCopyFiles: ['.env'],
+    hooks: { checkout: { pre: ['echo pre'], post: ['pnpm install'] }, remove: { pre: ['docker compose down'] } },
+  };
+
+  const applied = applyWorktreeTemplate(config, { autoCopyFiles: ['.env.production'], hooks: { post: [] } });
+  assertEquals(applied.autoCopyFiles, ['.env', '.env.production']);
+  assertEquals(applied.hooks, {
+    checkout: { pre: ['echo pre'], post: [] },
+    remove: { pre: ['docker compose down'] },
+  });
+  assertEquals(applyWorktreeTemplate(config, {}).hooks, config.hooks);
+});
+
+Deno.test('getCleanThreshold - uses the template policy, then branch overrides', () => {
+  const config: Config = {
+    cleanThreshold: 7,
+    overrides: [{ branch: 'spike/*', cleanThreshold: 30 }],
+    templates: { review: { clean: 'never' }, hotfix: { clean: 2 }, spike: {} },
+  };
+
+  assertEquals(getCleanThreshold(config, 'feat/a'), 7);
+  assertEquals(getCleanThreshold(config, 'spike/a', 'spike'), 30);
+  assertEquals(getCleanThreshold(config, 'spike/a', 'hotfix'), 2);
+  assertEquals(getCleanThreshold(config, 'review/a', 'review'), null);
+  assertEquals(getCleanThreshold({}, 'feat/a', 'removed-template'), 7);
+});
+
 Deno.test('saveConfig - writes clean JSON without comments', async () => {
   const repo = new GitTestRepo();
   try {
@@ -463,6 +849,34 @@ Deno.test('saveConfigTemplate - shows active hooks uncommented', async () => {
   }
 });
 
+Deno.test('saveConfigTemplate - shows hooks for all configured commands', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    const config = createMinimalConfig(repo.path);
+    config.hooks = {
+      remove: { pre: ['docker compose down'] },
+      update: { pre: ['echo updating'], post: ['pnpm install'] },
+    };
+    await saveConfigTemplate(repo.path, config);
+
+    const rawContent = await Deno.readTextFile(join(repo.path, '.gw', 'config.json'));
+    assertEquals(rawContent.includes('"remove": {'), true);
+    assertEquals(rawContent.includes('"update": {'), true);
+
+    const cwd = new TempCwd(repo.path);
+    try {
+      const { config: loaded } = await loadConfig();
+      assertEquals(loaded.hooks, config.hooks);
+    } finally {
+      cwd.restore();
+    }
+  } finally {
+    await repo.cleanup();
+  }
+});
+
 Deno.test('saveConfigTemplate - shows inactive hooks as commented examples', async () => {
   const repo = new GitTestRepo();
   try {
@@ -494,6 +908,8 @@ Deno.test('saveConfigTemplate - includes advanced options when configured', asyn
     const config = createMinimalConfig(repo.path);
     config.autoClean = true;
     config.updateStrategy = 'rebase';
+    config.updateAutostash = true;
+    config.remotes = { base: 'upstream', push: 'origin' };
     await saveConfigTemplate(repo.path, config);
 
     const rawContent = await Deno.readTextFile(join(repo.path, '.gw', 'config.json'));
@@ -501,6 +917,7 @@ Deno.test('saveConfigTemplate - includes advanced options when configured', asyn
     // Verify advanced options are uncommented
     assertEquals(rawContent.includes('"autoClean": true'), true);
     assertEquals(rawContent.includes('"updateStrategy": "rebase"'), true);
+    assertEquals(rawContent.includes('"updateAutostash": true'), true);
 
     // Verify it loads correctly
     const cwd = new TempCwd(repo.path);
@@ -508,6 +925,8 @@ Deno.test('saveConfigTemplate - includes advanced options when configured', asyn
       const { config: loaded } = await loadConfig();
       assertEquals(loaded.autoClean, true);
       assertEquals(loaded.updateStrategy, 'rebase');
+      assertEquals(loaded.updateAutostash, true);
+      assertEquals(loaded.remotes, { base: 'upstream', push: 'origin' });
     } finally {
       cwd.restore();
     }
@@ -529,6 +948,7 @@ Deno.test('saveConfigTemplate - shows commented examples for unconfigured advanc
     // Verify advanced options are commented
     assertEquals(rawContent.includes('// "autoClean": false'), true);
     assertEquals(rawContent.includes('// "updateStrategy": "merge"'), true);
+    assertEquals(rawContent.includes('// "updateAutostash": false'), true);
     assertEquals(rawContent.includes('Automatically clean stale worktrees'), true);
   } finally {
     await repo.cleanup();
@@ -551,6 +971,8 @@ Deno.test('saveConfigTemplate - preserves all config values', async () => {
     config.autoClean = true;
     config.updateStrategy = 'rebase';
     config.cleanThreshold = 14;
+    config.overrides = [{ branch: 'spike/*', cleanThreshold: 30 }];
+    config.templates = { hotfix: { from: 'v*', branch: 'hotfix/{name}', lock: true, clean: 'never' } };
 
     await saveConfigTemplate(repo.path, config);
 
@@ -569,6 +991,8 @@ Deno.test('saveConfigTemplate - preserves all config values', async () => {
       ]);
       assertEquals(loaded.autoClean, true);
       assertEquals(loaded.updateStrategy, 'rebase');
+      assertEquals(loaded.overrides, [{ branch: 'spike/*', cleanThreshold: 30 }]);
+      assertEquals(loaded.templates, config.templates);
     } finally {
       cwd.restore();
     }
@@ -595,6 +1019,7 @@ Deno.test('saveConfigTemplate - includes section headers and documentation', asy
 
     // Verify documentation elements
     assertEquals(rawContent.includes('Documentation: https://github.com/mthines/gw-tools'), true);
+    assertEquals(rawContent.includes(`"$schema": "${CONFIG_SCHEMA_URL}"`), true);
     assertEquals(rawContent.includes('All fields except'), true);
     assertEquals(rawContent.includes('Internal fields (managed automatically)'), true);
   } finally {
@@ -1,16 +1,47 @@
 /**
  * Configuration management for the gw CLI tool
- * Config is stored at .gw/config.json (searched walking up from cwd)
+ * Config is stored at .gw/config.json (searched walking up from cwd), layered between
+ * user-wide defaults, a local override file and environment variables
  */
 
 import { join, resolve } from '$std/path';
 import { parse as parseJsonc } from '$std/jsonc';
-import type { Config } from './types.ts';
+import type {
+  CommandHooks,
+  Config,
+  ConfigFileLayer,
+  ConfigLayer,
+  ConfigOrigins,
+  HookCommand,
+  HooksConfig,
+  WorktreeTemplate,
+} from './types.ts';
+import { DEFAULT_PORT_RANGE_SIZE } from './ports.ts';
+import { HOOK_COMMANDS, HOOK_VARIABLE_NAMES, validateHookVariables } from './hooks.ts';
 import { findGitRoot, pathExists } from './path-resolver.ts';
+import { globToRegExp } from './file-ops.ts';
 import { runMigrations, CURRENT_CONFIG_VERSION } from './config-migrations.ts';
+import { CONFIG_SCHEMA_URL, type ConfigProblem, formatConfigProblems, validateConfigSchema } from './config-schema.ts';
 
 const CONFIG_DIR_NAME = '.gw';
 const CONFIG_FILE_NAME = 'config.json';
+const LOCAL_CONFIG_FILE_NAME = 'config.local.json';
+
+/** Keys only the repo config can set */
+const REPO_ONLY_KEYS = ['root', 'configVersion', 'lastAutoCleanTime'] as const;
+
+/**
+ * Environment variables that override config values (variable -> key path and type)
+ */
+const CONFIG_ENV_VARIABLES: Record<string, { keyPath: string; type: 'string' | 'number' | 'boolean' }> = {
+  GW_DEFAULT_BRANCH: { keyPath: 'defaultBranch', type: 'string' },
+  GW_CLEAN_THRESHOLD: { keyPath: 'cleanThreshold', type: 'number' },
+  GW_AUTO_CLEAN: { keyPath: 'autoClean', type: 'boolean' },
+  GW_UPDATE_STRATEGY: { keyPath: 'updateStrategy', type: 'string' },
+  GW_UPDATE_AUTOSTASH: { keyPath: 'updateAutostash', type: 'boolean' },
+  GW_REMOTE_BASE: { keyPath: 'remotes.base', type: 'string' },
+  GW_REMOTE_PUSH: { keyPath: 'remotes.push', type: 'string' },
+};
 
 /**
  * Get the path to the config directory for a given directory
@@ -28,6 +59,44 @@ function getConfigPath(dir: string): string {
   return join(getConfigDir(dir), CONFIG_FILE_NAME);
 }
 
+/**
+ * Get the path of the user config (null if HOME isn't set)
+ */
+export function getUserConfigPath(): string | null {
+  return getConfigLayerPath('user', '');
+}
+
+/**
+ * Get the path of the local (uncommitted) config of a repository
+ * @param gitRoot Root of the git repository
+ */
+export function getLocalConfigPath(gitRoot: string): string {
+  return join(getConfigDir(gitRoot), LOCAL_CONFIG_FILE_NAME);
+}
+
+/**
+ * Get the directory and file name of a config layer's file
+ * (null for the user layer if HOME isn't set)
+ */
+function getConfigLayerLocation(layer: ConfigFileLayer, gitRoot: string): { dir: string; fileName: string } | null {
+  if (layer === 'user') {
+    const home = Deno.env.get('HOME') || Deno.env.get('USERPROFILE');
+    return home ? { dir: home, fileName: CONFIG_FILE_NAME } : null;
+  }
+
+  return { dir: gitRoot, fileName: layer === 'local' ? LOCAL_CONFIG_FILE_NAME : CONFIG_FILE_NAME };
+}
+
+/**
+ * Get the path of a config layer's file (null for the user layer if HOME isn't set)
+ * @param layer Config layer
+ * @param gitRoot Root of the git repository (unused for the user layer)
+ */
+export function getConfigLayerPath(layer: ConfigFileLayer, gitRoot: string): string | null {
+  const location = getConfigLayerLocation(layer, gitRoot);
+  return location ? join(getConfigDir(location.dir), location.fileName) : null;
+}
+
 /**
  * Find the config file by walking up from the current directory
  * @param startPath Starting directory path (defaults to current working directory)
@@ -39,7 +108,8 @@ async function findConfigFile(startPath?: string): Promise<string | null> {
   while (true) {
     const configPath = getConfigPath(currentPath);
 
-    if (await pathExists(configPath)) {
+    // ~/.gw/config.json is the user config, not a repo config
+    if (configPath !== getUserConfigPath() && (await pathExists(configPath))) {
       return configPath;
     }
 
@@ -82,65 +152,44 @@ function createDefaultConfig(): Config {
 }
 
 /**
- * Validate the config structure
+ * Validate a config against the JSON Schema, and the rules the schema can't express
+ * @returns Every problem found (empty if the config is valid)
  */
-function validateConfig(data: unknown): data is Config {
-  if (typeof data !== 'object' || data === null) {
-    return false;
-  }
-
-  const config = data as Partial<Config>;
-
-  if (config.root !== undefined && typeof config.root !== 'string') {
-    return false;
-  }
-
-  if (config.defaultBranch !== undefined && typeof config.defaultBranch !== 'string') {
-    return false;
+export function validateConfig(data: unknown): ConfigProblem[] {
+  const problems = validateConfigSchema(data);
+  if (problems.length > 0) {
+    return problems;
   }
 
-  if (config.autoCopyFiles !== undefined) {
-    if (!Array.isArray(config.autoCopyFiles)) {
-      return false;
-    }
-    // Validate that all items are strings
-    if (!config.autoCopyFiles.every((item) => typeof item === 'string')) {
-      return false;
+  // Named port offsets must fall within the worktree's range
+  const ports = (data as Config).ports;
+  const rangeSize = ports?.rangeSize ?? DEFAULT_PORT_RANGE_SIZE;
+  for (const [name, offset] of Object.entries(ports?.named ?? {})) {
+    if (offset >= rangeSize) {
+      problems.push({
+        path: `ports.named.${name}`,
+        message: `expected an offset below ports.rangeSize (${rangeSize}), got ${offset}`,
+      });
     }
   }
 
-  if (config.cleanThreshold !== undefined) {
-    if (typeof config.cleanThreshold !== 'number' || config.cleanThreshold < 0) {
-      return false;
-    }
-  }
-
-  if (config.autoClean !== undefined) {
-    if (typeof config.autoClean !== 'boolean') {
-      return false;
-    }
-  }
-
-  if (config.lastAutoCleanTime !== undefined) {
-    if (typeof config.lastAutoCleanTime !== 'number' || config.lastAutoCleanTime < 0) {
-      return false;
-    }
-  }
+  return problems;
+}
 
-  if (config.updateStrategy !== undefined) {
-    if (
-      typeof config.updateStrategy !== 'string' ||
-      (config.updateStrategy !== 'merge' && config.updateStrategy !== 'rebase')
-    ) {
-      return false;
-    }
+/**
+ * Throw an error listing the problems of an invalid config
+ * @param data Parsed config
+ * @param source Where the config came from (e.g., its path)
+ */
+function assertValidConfig(data: unknown, source: string): asserts data is Config {
+  const problems = validateConfig(data);
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration file format: ${source}\n${formatConfigProblems(problems)}`);
   }
-
-  return true;
 }
 
 /**
- * Load configuration
+ * Load the repository's config (the repo layer)
  * 1. Look for .gw/config.json walking up from cwd
  * 2. If found and has root, use it
  * 3. If not found, try auto-detection with findGitRoot()
@@ -149,7 +198,7 @@ function validateConfig(data: unknown): data is Config {
  *
  * @returns Config and git root path
  */
-export async function loadConfig(): Promise<{
+async function loadRepoConfig(): Promise<{
   config: Config;
   gitRoot: string;
 }> {
@@ -165,14 +214,13 @@ export async function loadConfig(): Promise<{
       // Run migrations if needed
       const { config: migratedData, migrated, appliedMigrations } = runMigrations(rawData);
 
-      if (!validateConfig(migratedData)) {
-        throw new Error('Invalid configuration file format');
-      }
+      assertValidConfig(migratedData, configPath);
 
       // Save migrated config and notify user if migrations were applied
+      // (on stderr, so it doesn't break --json output)
       if (migrated && migratedData.root) {
         await saveConfig(migratedData.root, migratedData);
-        console.log(
+        console.error(
           `Config automatically updated (${appliedMigrations.length} migration${appliedMigrations.length > 1 ? 's' : ''} applied)\n`
         );
       }
@@ -190,7 +238,7 @@ export async function loadConfig(): Promise<{
         const detectedRoot = await findGitRoot();
         data.root = detectedRoot;
         await saveConfig(detectedRoot, data);
-        console.log(`Detected git root and updated config: ${detectedRoot}\n`);
+        console.error(`Detected git root and updated config: ${detectedRoot}\n`);
         return { config: data, gitRoot: detectedRoot };
       } catch {
         throw new Error(
@@ -214,9 +262,10 @@ export async function loadConfig(): Promise<{
     // Save config in the detected git root
     await saveConfig(gitRoot, config);
 
-    console.log(`Created config at ${getConfigPath(gitRoot)}`);
-    console.log(`Detected git root: ${gitRoot}`);
-    console.log(`Default source worktree: ${config.defaultBranch}\n`);
+    // On stderr, so the first run of a --json command still prints only JSON
+    console.error(`Created config at ${getConfigPath(gitRoot)}`);
+    console.error(`Detected git root: ${gitRoot}`);
+    console.error(`Default source worktree: ${config.defaultBranch}\n`);
 
     return { config, gitRoot };
   } catch {
@@ -226,6 +275,305 @@ export async function loadConfig(): Promise<{
   }
 }
 
+/**
+ * Read the config stored in a layer's file, as written (empty if the file doesn't exist)
+ * Only the repo config is migrated: the user and local configs never had older formats.
+ *
+ * @param layer Config layer
+ * @param gitRoot Root of the git repository (unused for the user layer)
+ * @throws Error if the file isn't a valid config
+ */
+export async function readConfigLayer(layer: ConfigFileLayer, gitRoot: string): Promise<Config> {
+  const path = getConfigLayerPath(layer, gitRoot);
+  if (!path) {
+    return {};
+  }
+
+  let content: string;
+  try {
+    content = await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return {};
+    }
+    throw error;
+  }
+
+  const data = parseJsonc(content) as Record<string, unknown>;
+  const config = layer === 'repo' ? runMigrations(data).config : data;
+  assertValidConfig(config, path);
+  return config;
+}
+
+/**
+ * Save the config of a layer's file as a commented template (see saveConfigTemplate)
+ *
+ * @param layer Config layer
+ * @param gitRoot Root of the git repository (unused for the user layer)
+ * @param config Configuration to save
+ * @throws Error if the config is invalid (or sets repo-only keys outside the repo config),
+ *   or the user config can't be located
+ */
+export async function saveConfigLayer(layer: ConfigFileLayer, gitRoot: string, config: Config): Promise<void> {
+  const problems = validateConfig(config);
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration:\n${formatConfigProblems(problems)}`);
+  }
+
+  const repoOnlyKey = REPO_ONLY_KEYS.find((key) => config[key] !== undefined);
+  if (layer !== 'repo' && repoOnlyKey) {
+    throw new Error(`${repoOnlyKey} can only be set in the repo config`);
+  }
+
+  const location = getConfigLayerLocation(layer, gitRoot);
+  if (!location) {
+    throw new Error('Cannot locate the user config (HOME is not set)');
+  }
+
+  await saveConfigTemplate(location.dir, config, location.fileName);
+}
+
+/**
+ * Remove the keys only the repo config can set (ignored in the user and local configs)
+ */
+function withoutRepoOnlyKeys(config: Config): Config {
+  const result = { ...config };
+  for (const key of REPO_ONLY_KEYS) {
+    delete result[key];
+  }
+  return result;
+}
+
+/**
+ * Parse the value of a GW_* environment variable (undefined if it isn't a valid value of the type)
+ */
+function parseEnvValue(raw: string, type: 'string' | 'number' | 'boolean'): string | number | boolean | undefined {
+  switch (type) {
+    case 'number':
+      return /^\d+(\.\d+)?$/.test(raw.trim()) ? Number(raw) : undefined;
+    case 'boolean':
+      return raw === 'true' || raw === '1' ? true : raw === 'false' || raw === '0' ? false : undefined;
+    case 'string':
+      return raw;
+  }
+}
+
+/**
+ * Read the config values set through GW_* environment variables (the env layer)
+ */
+function readEnvConfig(): Config {
+  const config: Record<string, unknown> = {};
+
+  for (const [variable, { keyPath, type }] of Object.entries(CONFIG_ENV_VARIABLES)) {
+    const raw = Deno.env.get(variable);
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+
+    const value = parseEnvValue(raw, type);
+    const [key, subKey] = keyPath.split('.');
+    const layer = subKey ? { [key]: { [subKey]: value } } : { [key]: value };
+    const problem = value === undefined ? undefined : validateConfig(layer)[0];
+    if (value === undefined || problem) {
+      throw new Error(`Invalid value for ${variable}: ${raw}${problem ? ` (${problem.message})` : ''}`);
+    }
+
+    config[key] = subKey ? { ...(config[key] as Record<string, unknown>), [subKey]: value } : value;
+  }
+
+  return config as Config;
+}
+
+/**
+ * Whether a value is a plain object (merged key by key across layers)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge config layers, from lowest to highest precedence
+ * Objects are merged key by key and other values are replaced, except hook lists
+ * (hooks.<command>.pre/post), which run the hooks of every layer in layer order.
+ *
+ * @returns The effective config, and the layer each value came from
+ */
+function mergeConfigLayers(layers: Array<{ layer: ConfigLayer; config: Config | null }>): {
+  config: Config;
+  origins: ConfigOrigins;
+} {
+  const merged: Record<string, unknown> = {};
+  const origins: ConfigOrigins = {};
+
+  const mergeInto = (
+    target: Record<string, unknown>,
+    source: Record<string, unknown>,
+    layer: ConfigLayer,
+    prefix: string
+  ) => {
+    for (const [key, value] of Object.entries(source)) {
+      // "$schema" describes a file, it isn't a setting
+      if (value === undefined || (!prefix && key === '$schema')) {
+        continue;
+      }
+
+      const keyPath = prefix ? `${prefix}.${key}` : key;
+
+      if (Array.isArray(value) && /^hooks\.[^.]+\.(pre|post)$/.test(keyPath)) {
+        const existing = (target[key] as unknown[] | undefined) ?? [];
+        value.forEach((_, index) => {
+          origins[`${keyPath}[${existing.length + index}]`] = layer;
+        });
+        target[key] = [...existing, ...value];
+      } else if (isPlainObject(value)) {
+        if (!isPlainObject(target[key])) {
+          target[key] = {};
+        }
+        mergeInto(target[key] as Record<string, unknown>, value, layer, keyPath);
+      } else {
+        // A replaced value no longer comes from the layers below
+        for (const originPath of Object.keys(origins)) {
+          if (originPath.startsWith(`${keyPath}.`) || originPath.startsWith(`${keyPath}[`)) {
+            delete origins[originPath];
+          }
+        }
+        target[key] = value;
+        origins[keyPath] = layer;
+      }
+    }
+  };
+
+  for (const { layer, config } of layers) {
+    if (config) {
+      mergeInto(merged, config as Record<string, unknown>, layer, '');
+    }
+  }
+
+  return { config: merged as Config, origins };
+}
+
+/**
+ * Load the effective configuration
+ * Merges, from lowest to highest precedence, the user config (~/.gw/config.json), the repo
+ * config (.gw/config.json, found or created as described in loadRepoConfig), the local
+ * config (.gw/config.local.json) and GW_* environment variables.
+ *
+ * @returns Effective config, git root path, and the layer each config value came from
+ */
+export async function loadConfig(): Promise<{
+  config: Config;
+  gitRoot: string;
+  origins: ConfigOrigins;
+}> {
+  const { config: repoConfig, gitRoot } = await loadRepoConfig();
+
+  const { config, origins } = mergeConfigLayers([
+    { layer: 'user', config: withoutRepoOnlyKeys(await readConfigLayer('user', gitRoot)) },
+    { layer: 'repo', config: repoConfig },
+    { layer: 'local', config: withoutRepoOnlyKeys(await readConfigLayer('local', gitRoot)) },
+    { layer: 'env', config: readEnvConfig() },
+  ]);
+
+  // Catch typos in {placeholders} before any hook runs
+  const templateHooks = Object.values(config.templates ?? {}).map((template) => ({ checkout: template.hooks }));
+  for (const hooks of [config.hooks, ...(config.overrides ?? []).map((override) => override.hooks), ...templateHooks]) {
+    if (hooks) {
+      validateHookVariables(hooks, config.ports);
+    }
+  }
+
+  return { config, gitRoot, origins };
+}
+
+/**
+ * Resolve the effective config for a worktree's branch
+ * Applies every override whose branch pattern matches, in order, so later overrides win.
+ * autoCopyFiles and scalar values are replaced, hooks are replaced per command phase
+ * (e.g., an override setting hooks.checkout.post keeps the base hooks.checkout.pre).
+ *
+ * @param config Effective config (from loadConfig)
+ * @param branch Branch of the worktree (no overrides apply when empty, e.g. detached HEAD)
+ * @returns Config with matching overrides applied
+ */
+export function resolveConfigForBranch(config: Config, branch: string | undefined): Config {
+  if (!branch || !config.overrides?.length) {
+    return config;
+  }
+
+  const resolved: Config = { ...config };
+  for (const override of config.overrides) {
+    if (!globToRegExp(override.branch).test(branch)) {
+      continue;
+    }
+
+    const { branch: _pattern, hooks, ...values } = override;
+    Object.assign(resolved, values);
+    if (hooks) {
+      resolved.hooks = replaceHookPhases(resolved.hooks, hooks);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Replace the hooks of each command phase set in the replacements, keeping the other phases
+ */
+function replaceHookPhases(hooks: HooksConfig | undefined, replacements: HooksConfig): HooksConfig | undefined {
+  let replaced = hooks;
+  for (const [command, commandHooks] of Object.entries(replacements) as Array<[HookCommand, CommandHooks]>) {
+    replaced = { ...replaced, [command]: { ...replaced?.[command], ...commandHooks } };
+  }
+  return replaced;
+}
+
+/**
+ * Apply a worktree template to the config used to create a worktree
+ * The template's autoCopyFiles are copied in addition to the configured ones, and its
+ * hooks replace the checkout hooks of each phase it sets.
+ *
+ * @param config Effective config for the new worktree's branch (see resolveConfigForBranch)
+ * @param template Template the worktree is created with
+ * @returns Config with the template applied
+ */
+export function applyWorktreeTemplate(config: Config, template: WorktreeTemplate): Config {
+  return {
+    ...config,
+    autoCopyFiles: [...(config.autoCopyFiles ?? []), ...(template.autoCopyFiles ?? [])],
+    hooks: template.hooks ? replaceHookPhases(config.hooks, { checkout: template.hooks }) : config.hooks,
+  };
+}
+
+/**
+ * Get the number of days after which a worktree is stale
+ * The clean policy of the template the worktree was created with wins over cleanThreshold
+ * (including branch overrides).
+ *
+ * @param config Effective config (from loadConfig)
+ * @param branch Branch of the worktree
+ * @param template Template the worktree was created with (from its metadata)
+ * @returns Threshold in days, or null if the worktree is never cleaned
+ */
+export function getCleanThreshold(config: Config, branch: string | undefined, template?: string): number | null {
+  const policy = template ? config.templates?.[template]?.clean : undefined;
+  if (policy === 'never') {
+    return null;
+  }
+  return policy ?? resolveConfigForBranch(config, branch).cleanThreshold ?? 7;
+}
+
+/**
+ * Update values in the repo config only (e.g., bookkeeping like lastAutoCleanTime),
+ * so values from the other layers aren't written into it
+ *
+ * @param gitRoot Root of the git repository
+ * @param changes Values to set
+ */
+export async function updateRepoConfig(gitRoot: string, changes: Partial<Config>): Promise<void> {
+  const config = await readConfigLayer('repo', gitRoot);
+  await saveConfig(gitRoot, { ...config, ...changes });
+}
+
 /**
  * Save configuration to disk
  * @param dir Directory where .gw/config.json should be saved (typically the git root)
@@ -249,6 +597,7 @@ function generateConfigTemplate(config: Config): string {
 
   // Header
   lines.push('{');
+  lines.push(`  "$schema": ${JSON.stringify(CONFIG_SCHEMA_URL)},`);
   lines.push('  // ============================================================================');
   lines.push('  // gw Configuration File');
   lines.push('  // ============================================================================');
@@ -268,6 +617,11 @@ function generateConfigTemplate(config: Config): string {
     lines.push('  // "root": "/path/to/your/repository",');
   }
 
+  // configVersion (kept so migrations don't run again)
+  if (config.configVersion !== undefined) {
+    lines.push(`  "configVersion": ${config.configVersion},`);
+  }
+
   // defaultBranch
   if (config.defaultBranch !== undefined) {
     lines.push(`  "defaultBranch": ${JSON.stringify(config.defaultBranch)},`);
@@ -289,6 +643,8 @@ function generateConfigTemplate(config: Config): string {
   lines.push('  // ----------------------------------------------------------------------------');
   lines.push('  // Files/directories to automatically copy when creating new worktrees.');
   lines.push('  // Useful for environment files, secrets, and local configuration.');
+  lines.push('  // Supports glob patterns ("**/.env.local") and "!" exclusions ("!**/node_modules/**").');
+  lines.push('  // Use { "path": "...", "mode": "symlink" | "hardlink" | "reflink" } to share instead of copy.');
 
   if (config.autoCopyFiles && config.autoCopyFiles.length > 0) {
     // Active auto-copy configuration
@@ -304,7 +660,7 @@ function generateConfigTemplate(config: Config): string {
     lines.push('  //   ".env",              // Environment variables');
     lines.push('  //   ".env.local",        // Local overrides');
     lines.push('  //   "config/secrets/",   // Secrets directory');
-    lines.push('  //   "node_modules/"      // Dependencies (if not using symlinks)');
+    lines.push('  //   { "path": "node_modules", "mode": "symlink" } // Share dependencies with the source worktree');
     lines.push('  // ],');
   }
 
@@ -314,38 +670,33 @@ function generateConfigTemplate(config: Config): string {
   lines.push('  // Hooks');
   lines.push('  // ----------------------------------------------------------------------------');
   lines.push('  // Commands to run before/after gw operations.');
-  lines.push('  // Available variables: {worktree}, {worktreePath}, {gitRoot}, {branch}');
+  lines.push(`  // Supported commands: ${HOOK_COMMANDS.join(', ')}`);
+  lines.push(`  // Available variables: ${HOOK_VARIABLE_NAMES.map((name) => `{${name}}`).join(', ')}`);
+  lines.push('  // (also exported as GW_* environment variables, e.g. GW_WORKTREE_PATH)');
+  lines.push('  // Hooks are command strings or objects with "command" and optional "cwd",');
+  lines.push('  // "env", "timeout", "continueOnError", "parallel" and "background" keys.');
 
   if (config.hooks && Object.keys(config.hooks).length > 0) {
-    // Active hooks configuration
+    // Active hooks configuration (in the same order as HOOK_COMMANDS)
     lines.push('  "hooks": {');
 
-    if (config.hooks.checkout) {
-      lines.push('    "checkout": {');
-
-      const preHooks = config.hooks.checkout.pre;
-      if (preHooks && preHooks.length > 0) {
-        lines.push('      "pre": [');
-        preHooks.forEach((cmd, index) => {
-          const comma = index < preHooks.length - 1 ? ',' : '';
+    const configuredCommands = HOOK_COMMANDS.filter((command) => config.hooks![command]);
+    configuredCommands.forEach((command, commandIndex) => {
+      const commandHooks = config.hooks![command]!;
+      const phases = (['pre', 'post'] as const).filter((phase) => (commandHooks[phase]?.length ?? 0) > 0);
+
+      lines.push(`    ${JSON.stringify(command)}: {`);
+      phases.forEach((phase, phaseIndex) => {
+        const hooks = commandHooks[phase]!;
+        lines.push(`      "${phase}": [`);
+        hooks.forEach((cmd, index) => {
+          const comma = index < hooks.length - 1 ? ',' : '';
           lines.push(`        ${JSON.stringify(cmd)}${comma}`);
         });
-        const hasPost = config.hooks.checkout.post && config.hooks.checkout.post.length > 0;
-        lines.push(`      ]${hasPost ? ',' : ''}`);
-      }
-
-      const postHooks = config.hooks.checkout.post;
-      if (postHooks && postHooks.length > 0) {
-        lines.push('      "post": [');
-        postHooks.forEach((cmd, index) => {
-          const comma = index < postHooks.length - 1 ? ',' : '';
-          lines.push(`        ${JSON.stringify(cmd)}${comma}`);
-        });
-        lines.push('      ]');
-      }
-
-      lines.push('    }');
-    }
+        lines.push(`      ]${phaseIndex < phases.length - 1 ? ',' : ''}`);
+      });
+      lines.push(`    }${commandIndex < configuredCommands.length - 1 ? ',' : ''}`);
+    });
 
     lines.push('  },');
   } else {
@@ -357,14 +708,104 @@ function generateConfigTemplate(config: Config): string {
     lines.push('  //     ],');
     lines.push('  //     "post": [');
     lines.push('  //       "cd {worktreePath} && npm install",');
-    lines.push('  //       "cd {worktreePath} && npm run build"');
+    lines.push('  //       "cd {worktreePath} && npm run build",');
+    lines.push('  //       { "command": "npm run dev", "cwd": "worktree", "background": true }');
     lines.push('  //     ]');
+    lines.push('  //   },');
+    lines.push('  //   "remove": {');
+    lines.push('  //     "pre": ["docker compose down"]  // Runs in the worktree before removal');
+    lines.push('  //   },');
+    lines.push('  //   "update": {');
+    lines.push('  //     "post": ["pnpm install"]  // Runs in the worktree after updating');
     lines.push('  //   }');
     lines.push('  // },');
   }
 
   lines.push('');
 
+  // Ports Section
+  lines.push('  // Ports');
+  lines.push('  // ----------------------------------------------------------------------------');
+  lines.push('  // Give each worktree its own port range (recorded in .gw/ports.json).');
+  lines.push('  // Use {port} / {port:name} in hooks and in autoCopyFiles templates (*.template).');
+
+  if (config.ports) {
+    lines.push(`  "ports": ${JSON.stringify(config.ports)},`);
+  } else {
+    lines.push('  // "ports": {');
+    lines.push('  //   "base": 3000,       // First port handed out');
+    lines.push('  //   "rangeSize": 10,    // Ports reserved per worktree');
+    lines.push('  //   "named": { "web": 0, "api": 1 }  // {port:web}, {port:api}');
+    lines.push('  // },');
+  }
+
+  lines.push('');
+
+  // Remotes Section
+  lines.push('  // Remotes');
+  lines.push('  // ----------------------------------------------------------------------------');
+  lines.push('  // When working from a fork: fetch the default branch from "base" and push');
+  lines.push('  // your own branches to "push". Both default to "origin".');
+
+  if (config.remotes) {
+    lines.push(`  "remotes": ${JSON.stringify(config.remotes)},`);
+  } else {
+    lines.push('  // "remotes": {');
+    lines.push('  //   "base": "upstream",  // Where checkout, update and pr fetch from');
+    lines.push('  //   "push": "origin"     // Where new branches track and push to');
+    lines.push('  // },');
+  }
+
+  lines.push('');
+
+  // Branch Overrides Section
+  lines.push('  // Branch Overrides');
+  lines.push('  // ----------------------------------------------------------------------------');
+  lines.push('  // Settings for worktrees whose branch matches a glob pattern. Matching overrides');
+  lines.push('  // apply in order. Supported: autoCopyFiles, hooks, cleanThreshold,');
+  lines.push('  // updateStrategy and defaultBranch.');
+
+  if (config.overrides && config.overrides.length > 0) {
+    lines.push('  "overrides": [');
+    config.overrides.forEach((override, index) => {
+      const comma = index < config.overrides!.length - 1 ? ',' : '';
+      lines.push(`    ${JSON.stringify(override)}${comma}`);
+    });
+    lines.push('  ],');
+  } else {
+    lines.push('  // "overrides": [');
+    lines.push('  //   { "branch": "release/*", "autoCopyFiles": [".env.release"] },');
+    lines.push('  //   { "branch": "spike/**", "cleanThreshold": 30 }');
+    lines.push('  // ],');
+  }
+
+  lines.push('');
+
+  // Templates Section
+  lines.push('  // Worktree Templates');
+  lines.push('  // ----------------------------------------------------------------------------');
+  lines.push("  // Recipes for 'gw checkout <name> --template <template>'. Each sets where the");
+  lines.push('  // branch starts ("from", a ref or tag pattern), its name ("branch", with {name}),');
+  lines.push('  // extra "autoCopyFiles", checkout "hooks", "lock" and a "clean" policy.');
+
+  if (config.templates && Object.keys(config.templates).length > 0) {
+    const templates = Object.entries(config.templates);
+    lines.push('  "templates": {');
+    templates.forEach(([name, template], index) => {
+      const comma = index < templates.length - 1 ? ',' : '';
+      lines.push(`    ${JSON.stringify(name)}: ${JSON.stringify(template)}${comma}`);
+    });
+    lines.push('  },');
+  } else {
+    lines.push('  // "templates": {');
+    lines.push('  //   "hotfix": { "from": "v*", "branch": "hotfix/{name}", "autoCopyFiles": [".env.production"] },');
+    lines.push('  //   "spike": { "branch": "spike/{name}", "hooks": { "post": [] }, "clean": 30 },');
+    lines.push('  //   "review": { "branch": "review/{name}", "lock": "Code review", "clean": "never" }');
+    lines.push('  // },');
+  }
+
+  lines.push('');
+
   // Advanced Options Section
   lines.push('  // Advanced Options');
   lines.push('  // ----------------------------------------------------------------------------');
@@ -379,17 +820,28 @@ function generateConfigTemplate(config: Config): string {
 
   // updateStrategy
   if (config.updateStrategy !== undefined) {
-    lines.push(`  "updateStrategy": ${JSON.stringify(config.updateStrategy)}`);
+    lines.push(`  "updateStrategy": ${JSON.stringify(config.updateStrategy)},`);
     lines.push('  // Default update strategy: "merge" or "rebase"');
   } else {
     lines.push('  // "updateStrategy": "merge",  // Default: "merge" or "rebase"');
   }
 
+  // updateAutostash
+  if (config.updateAutostash !== undefined) {
+    lines.push(`  "updateAutostash": ${config.updateAutostash},`);
+    lines.push("  // Stash uncommitted changes around 'gw update'");
+  } else {
+    lines.push('  // "updateAutostash": false,  // Stash uncommitted changes around \'gw update\'');
+  }
+
   lines.push('');
 
   // Footer
   lines.push('  // Internal fields (managed automatically):');
   lines.push('  // - lastAutoCleanTime: Unix timestamp of last auto-cleanup run');
+  if (config.lastAutoCleanTime !== undefined) {
+    lines.push(`  "lastAutoCleanTime": ${config.lastAutoCleanTime},`);
+  }
 
   lines.push('}');
 
@@ -398,13 +850,14 @@ function generateConfigTemplate(config: Config): string {
 
 /**
  * Save config as comprehensive JSONC template
- * Used by init command for self-documenting configs
+ * Used by init and config commands for self-documenting configs
  * @param dir Directory where .gw/config.json should be saved (typically the git root)
  * @param config Configuration to save
+ * @param fileName Name of the file in .gw/ (defaults to config.json)
  */
-export async function saveConfigTemplate(dir: string, config: Config): Promise<void> {
+export async function saveConfigTemplate(dir: string, config: Config, fileName = CONFIG_FILE_NAME): Promise<void> {
   await ensureConfigDir(dir);
-  const configPath = getConfigPath(dir);
+  const configPath = join(getConfigDir(dir), fileName);
   const content = generateConfigTemplate(config);
   await Deno.writeTextFile(configPath, content);
 }
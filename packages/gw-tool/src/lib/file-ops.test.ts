@@ -2,9 +2,9 @@
  * Tests for file-ops.ts
  */
 
-import { assertEquals } from '$std/assert';
+import { assertEquals, assertNotEquals } from '$std/assert';
 import { join } from '$std/path';
-import { copyFiles } from './file-ops.ts';
+import { copyFiles, expandCopyPatterns, globToRegExp } from './file-ops.ts';
 import { GitTestRepo } from '../test-utils/git-test-repo.ts';
 import { assertFileExists, assertFileContent } from '../test-utils/assertions.ts';
 
@@ -262,3 +262,256 @@ Deno.test('copyFiles - creates parent directories as needed', async () => {
     await repo.cleanup();
   }
 });
+
+Deno.test('copyFiles - renders templates without the .template suffix', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    await repo.createFile('source/.env.template', 'PORT={port}\nHOME_DIR=${HOME}');
+    await repo.createFile('source/config.json', '{"port": "{port}"}');
+
+    const targetDir = join(repo.path, 'target');
+    await Deno.mkdir(targetDir);
+
+    const sourceRoot = join(repo.path, 'source');
+    const render = (content: string) => content.replaceAll('{port}', '3010');
+    const results = await copyFiles(sourceRoot, targetDir, ['.env.template', 'config.json'], false, render);
+
+    assertEquals(results[0].success, true);
+    assertEquals(results[0].message, 'Rendered: .env.template → .env');
+    await assertFileContent(join(targetDir, '.env'), 'PORT=3010\nHOME_DIR=${HOME}');
+
+    // Regular files are copied as-is
+    await assertFileContent(join(targetDir, 'config.json'), '{"port": "{port}"}');
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('globToRegExp - matches single and recursive wildcards', () => {
+  assertEquals(globToRegExp('*.json').test('config.json'), true);
+  assertEquals(globToRegExp('*.json').test('config/app.json'), false);
+  assertEquals(globToRegExp('apps/*/config/secrets.json').test('apps/web/config/secrets.json'), true);
+  assertEquals(globToRegExp('apps/*/config/secrets.json').test('apps/web/nested/config/secrets.json'), false);
+  assertEquals(globToRegExp('**/.env.local').test('.env.local'), true);
+  assertEquals(globToRegExp('**/.env.local').test('packages/api/.env.local'), true);
+  assertEquals(globToRegExp('**/node_modules/**').test('packages/api/node_modules/pkg/.env.local'), true);
+  assertEquals(globToRegExp('.env.[!t]*').test('.env.local'), true);
+  assertEquals(globToRegExp('.env.[!t]*').test('.env.template'), false);
+});
+
+Deno.test('copyFiles - expands glob patterns and exclusions', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    await repo.createFile('source/.env.local', 'ROOT');
+    await repo.createFile('source/apps/web/.env.local', 'WEB');
+    await repo.createFile('source/apps/api/.env.local', 'API');
+    await repo.createFile('source/apps/api/node_modules/pkg/.env.local', 'DEP');
+    await repo.createFile('source/apps/web/config/secrets.json', '{}');
+
+    const targetDir = join(repo.path, 'target');
+    await Deno.mkdir(targetDir);
+
+    const sourceRoot = join(repo.path, 'source');
+    const results = await copyFiles(sourceRoot, targetDir, [
+      '**/.env.local',
+      'apps/*/config/secrets.json',
+      '!**/node_modules/**',
+    ]);
+
+    assertEquals(
+      results.map((r) => r.path),
+      ['.env.local', 'apps/api/.env.local', 'apps/web/.env.local', 'apps/web/config/secrets.json']
+    );
+    assertEquals(
+      results.every((r) => r.success),
+      true
+    );
+    await assertFileContent(join(targetDir, 'apps/api/.env.local'), 'API');
+    await assertFileExists(join(targetDir, 'apps/web/config/secrets.json'));
+
+    let copiedDependency = true;
+    try {
+      await Deno.stat(join(targetDir, 'apps/api/node_modules'));
+    } catch {
+      copiedDependency = false;
+    }
+    assertEquals(copiedDependency, false);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('copyFiles - glob patterns that match nothing are skipped, not failed', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    await repo.createFile('source/.env', 'SECRET=1');
+
+    const targetDir = join(repo.path, 'target');
+    await Deno.mkdir(targetDir);
+
+    const sourceRoot = join(repo.path, 'source');
+    const results = await copyFiles(sourceRoot, targetDir, ['.env', 'secrets/*.pem']);
+
+    assertEquals(results.length, 2);
+    assertEquals(results[0].success, true);
+    assertEquals(results[1].success, true);
+    assertEquals(results[1].skipped, true);
+    assertEquals(results[1].message, 'No files match: secrets/*.pem');
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('expandCopyPatterns - reports matches and excluded paths per pattern', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    await repo.createFile('source/config/app.json', '{}');
+    await repo.createFile('source/config/local.json', '{}');
+
+    const sourceRoot = join(repo.path, 'source');
+    const expansions = await expandCopyPatterns(sourceRoot, ['.env', 'config/*.json', '!config/local.json']);
+
+    assertEquals(expansions, [
+      { pattern: '.env', glob: false, negated: false, mode: 'copy', paths: ['.env'] },
+      { pattern: 'config/*.json', glob: true, negated: false, mode: 'copy', paths: ['config/app.json'] },
+      { pattern: '!config/local.json', glob: false, negated: true, mode: 'copy', paths: ['config/local.json'] },
+    ]);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('expandCopyPatterns - does not descend into nested worktrees', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    await repo.createFile('apps/web/.env', 'A=1');
+    await repo.createFile('feat/.git', 'gitdir: ../.git/worktrees/feat');
+    await repo.createFile('feat/apps/web/.env', 'A=1');
+
+    const [expansion] = await expandCopyPatterns(repo.path, ['**/.env']);
+    assertEquals(expansion.paths, ['apps/web/.env']);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('copyFiles - symlink mode links to the source path', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    await repo.createFile('source/node_modules/pkg/index.js', 'module.exports = 1;');
+
+    const targetDir = join(repo.path, 'target');
+    await Deno.mkdir(targetDir);
+
+    const sourceRoot = join(repo.path, 'source');
+    const results = await copyFiles(sourceRoot, targetDir, [{ path: 'node_modules', mode: 'symlink' }]);
+
+    assertEquals(results[0].success, true);
+    assertEquals(results[0].mode, 'symlink');
+    assertEquals(results[0].message, 'Symlinked: node_modules');
+    assertEquals((await Deno.lstat(join(targetDir, 'node_modules'))).isSymlink, true);
+    assertEquals(await Deno.readLink(join(targetDir, 'node_modules')), join(sourceRoot, 'node_modules'));
+
+    // Switching back to copy replaces the link instead of writing through it
+    await copyFiles(sourceRoot, targetDir, ['node_modules']);
+    assertEquals((await Deno.lstat(join(targetDir, 'node_modules'))).isSymlink, false);
+    await assertFileContent(join(targetDir, 'node_modules/pkg/index.js'), 'module.exports = 1;');
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('copyFiles - hardlink mode shares file contents', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    await repo.createFile('source/.next/cache/a.bin', 'cached');
+
+    const targetDir = join(repo.path, 'target');
+    await Deno.mkdir(targetDir);
+
+    const sourceRoot = join(repo.path, 'source');
+    const results = await copyFiles(sourceRoot, targetDir, [{ path: '.next/cache', mode: 'hardlink' }]);
+
+    assertEquals(results[0].success, true);
+    assertEquals(results[0].mode, 'hardlink');
+
+    const sourceStat = await Deno.stat(join(sourceRoot, '.next/cache/a.bin'));
+    const targetStat = await Deno.stat(join(targetDir, '.next/cache/a.bin'));
+    assertEquals(targetStat.ino, sourceStat.ino);
+
+    // Switching back to copy replaces the hard links with independent copies
+    await Deno.writeTextFile(join(sourceRoot, '.env'), 'env');
+    await copyFiles(sourceRoot, targetDir, [{ path: '.env', mode: 'hardlink' }]);
+    const copied = await copyFiles(sourceRoot, targetDir, ['.next/cache', '.env']);
+    assertEquals(
+      copied.map((result) => result.success),
+      [true, true]
+    );
+    assertNotEquals((await Deno.stat(join(targetDir, '.next/cache/a.bin'))).ino, sourceStat.ino);
+    await assertFileContent(join(targetDir, '.next/cache/a.bin'), 'cached');
+    await assertFileContent(join(targetDir, '.env'), 'env');
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('copyFiles - reflink mode copies the contents (falling back to copy if unsupported)', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    await repo.createFile('source/data/large.bin', 'payload');
+
+    const targetDir = join(repo.path, 'target');
+    await Deno.mkdir(targetDir);
+
+    const sourceRoot = join(repo.path, 'source');
+    const results = await copyFiles(sourceRoot, targetDir, [{ path: 'data', mode: 'reflink' }]);
+
+    assertEquals(results[0].success, true);
+    assertEquals(results[0].mode === 'reflink' || results[0].mode === 'copy', true);
+    await assertFileContent(join(targetDir, 'data/large.bin'), 'payload');
+
+    // Reflinks are independent copies
+    await Deno.writeTextFile(join(targetDir, 'data/large.bin'), 'changed');
+    await assertFileContent(join(sourceRoot, 'data/large.bin'), 'payload');
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('copyFiles - recreates symlinks found inside copied directories', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    await repo.createFile('source/config/base.json', '{}');
+    await Deno.symlink('base.json', join(repo.path, 'source/config/current.json'));
+
+    const targetDir = join(repo.path, 'target');
+    await Deno.mkdir(targetDir);
+
+    const sourceRoot = join(repo.path, 'source');
+    const results = await copyFiles(sourceRoot, targetDir, ['config']);
+
+    assertEquals(results[0].success, true);
+    assertEquals(await Deno.readLink(join(targetDir, 'config/current.json')), 'base.json');
+    await assertFileContent(join(targetDir, 'config/current.json'), '{}');
+  } finally {
+    await repo.cleanup();
+  }
+});
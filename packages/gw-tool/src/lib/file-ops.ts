@@ -4,15 +4,283 @@
 
 import { dirname, join } from '$std/path';
 import { isDirectory, pathExists } from './path-resolver.ts';
-import type { CopyResult } from './types.ts';
+import type { CopyFile, CopyFileEntry, CopyMode, CopyPatternExpansion, CopyResult } from './types.ts';
+
+/**
+ * Suffix of files that are rendered (variables substituted) instead of copied
+ * e.g., ".env.template" is rendered to ".env"
+ */
+export const TEMPLATE_SUFFIX = '.template';
+
+/** Directories that are never searched when expanding glob patterns */
+const GLOB_IGNORED_DIRECTORIES = ['.git'];
+
+/**
+ * Verbs used in result messages for each copy mode (dry run, done)
+ */
+const COPY_MODE_VERBS: Record<CopyMode, [string, string]> = {
+  copy: ['Would copy', 'Copied'],
+  symlink: ['Would symlink', 'Symlinked'],
+  hardlink: ['Would hardlink', 'Hardlinked'],
+  reflink: ['Would reflink', 'Reflinked'],
+};
+
+/**
+ * Valid autoCopyFiles modes
+ */
+export const COPY_MODES = Object.keys(COPY_MODE_VERBS) as CopyMode[];
+
+/**
+ * Convert an autoCopyFiles entry to its object form
+ */
+export function normalizeCopyFile(entry: CopyFile): Required<CopyFileEntry> {
+  return typeof entry === 'string' ? { path: entry, mode: 'copy' } : { path: entry.path, mode: entry.mode ?? 'copy' };
+}
+
+/**
+ * Check whether a path contains glob syntax (*, ?, or [...])
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[]/.test(pattern);
+}
+
+/**
+ * Escape glob syntax so a path is matched literally (e.g., "[id].tsx" -> "[[]id].tsx")
+ */
+export function escapeGlob(path: string): string {
+  return path.replace(/[*?[]/g, '[$&]');
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching relative paths
+ * "*" and "?" don't cross directory boundaries, "**" matches any number of directories
+ *
+ * @param pattern Glob pattern (e.g., "config/*.json")
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        // "**/" matches zero or more directories
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', i + 1) > i + 1) {
+      const end = pattern.indexOf(']', i + 1);
+      const chars = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += chars.startsWith('!') ? `[^${chars.slice(1)}]` : `[${chars}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Find the files (or directories, for patterns ending in "/") matching a glob pattern
+ *
+ * @param sourceRoot Root directory to search
+ * @param pattern Glob pattern relative to the source root
+ * @param isExcluded Returns true for paths removed by "!" exclusions (directories end in "/")
+ */
+async function findGlobMatches(
+  sourceRoot: string,
+  pattern: string,
+  isExcluded: (relativePath: string) => boolean
+): Promise<string[]> {
+  const directoriesOnly = pattern.endsWith('/');
+  const cleanPattern = pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+  const regex = globToRegExp(cleanPattern);
+
+  // Start at the literal prefix (e.g., "config" for "config/*.json") and stop at the
+  // pattern's depth unless it contains "**"
+  const segments = cleanPattern.split('/');
+  const firstGlobSegment = segments.findIndex(isGlobPattern);
+  const maxDepth = cleanPattern.includes('**') ? Infinity : segments.length;
+  const matches: string[] = [];
+
+  const walk = async (directory: string, depth: number): Promise<void> => {
+    const entries: Deno.DirEntry[] = [];
+    try {
+      for await (const entry of Deno.readDir(join(sourceRoot, directory))) {
+        entries.push(entry);
+      }
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound || error instanceof Deno.errors.NotADirectory) return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const relativePath = directory ? `${directory}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory) {
+        if (GLOB_IGNORED_DIRECTORIES.includes(entry.name) || isExcluded(`${relativePath}/`)) continue;
+
+        // Don't descend into nested worktrees or repositories (e.g., worktrees inside the main one)
+        if (await pathExists(join(sourceRoot, relativePath, '.git'))) continue;
+
+        if (directoriesOnly && regex.test(relativePath)) {
+          matches.push(relativePath);
+        } else if (depth < maxDepth) {
+          await walk(relativePath, depth + 1);
+        }
+      } else if (entry.isFile && !directoriesOnly && regex.test(relativePath) && !isExcluded(relativePath)) {
+        matches.push(relativePath);
+      }
+    }
+  };
+
+  await walk(segments.slice(0, firstGlobSegment).join('/'), firstGlobSegment + 1);
+
+  return matches.sort();
+}
+
+/**
+ * Expand autoCopyFiles entries against a source worktree
+ * Glob entries (e.g., "config/*.json" or "apps/**") are matched against
+ * the files in the source, entries starting with "!" remove matching paths from the
+ * other entries, and all other entries are literal paths kept as-is.
+ *
+ * @param sourceRoot Root directory the entries are relative to
+ * @param entries autoCopyFiles entries
+ * @returns One expansion per entry, in the order given
+ */
+export async function expandCopyPatterns(sourceRoot: string, entries: CopyFile[]): Promise<CopyPatternExpansion[]> {
+  const normalized = entries.map(normalizeCopyFile);
+
+  const exclusions = normalized
+    .filter(({ path }) => path.startsWith('!'))
+    .map(({ path: pattern, mode }) => {
+      // "!dir/" excludes everything below dir
+      const glob = pattern.slice(1).replace(/^\.\//, '');
+      return {
+        expansion: { pattern, glob: isGlobPattern(glob), negated: true, mode, paths: [] as string[] },
+        regex: globToRegExp(glob.endsWith('/') ? `${glob}**` : glob),
+      };
+    });
+
+  const isExcluded = (relativePath: string): boolean => {
+    const exclusion = exclusions.find(({ regex }) => regex.test(relativePath));
+    if (!exclusion) return false;
+
+    if (!exclusion.expansion.paths.includes(relativePath)) {
+      exclusion.expansion.paths.push(relativePath);
+    }
+    return true;
+  };
+
+  const expansions: CopyPatternExpansion[] = [];
+
+  for (const { path: pattern, mode } of normalized) {
+    if (pattern.startsWith('!')) {
+      expansions.push(exclusions.find(({ expansion }) => expansion.pattern === pattern)!.expansion);
+    } else if (isGlobPattern(pattern)) {
+      expansions.push({
+        pattern,
+        glob: true,
+        negated: false,
+        mode,
+        paths: await findGlobMatches(sourceRoot, pattern, isExcluded),
+      });
+    } else {
+      expansions.push({
+        pattern,
+        glob: false,
+        negated: false,
+        mode,
+        paths: isExcluded(pattern.replace(/^\.\//, '')) ? [] : [pattern],
+      });
+    }
+  }
+
+  return expansions;
+}
+
+/**
+ * List the files below a path, recursively (symlinks are not followed)
+ *
+ * @param root Root directory the path is relative to
+ * @param relativePath File or directory path relative to the root
+ * @returns Relative paths of the regular files (the path itself if it is a file)
+ */
+export async function listFiles(root: string, relativePath: string): Promise<string[]> {
+  const cleanPath = relativePath.replace(/^\.\//, '').replace(/\/+$/, '');
+
+  if (!(await isDirectory(join(root, cleanPath)))) {
+    return [cleanPath];
+  }
+
+  const files: string[] = [];
+  for await (const entry of Deno.readDir(join(root, cleanPath))) {
+    const entryPath = `${cleanPath}/${entry.name}`;
+    if (entry.isDirectory) {
+      files.push(...(await listFiles(root, entryPath)));
+    } else if (entry.isFile) {
+      files.push(entryPath);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Remove a file, directory, or symlink if it exists (symlinks are removed, not followed)
+ */
+async function removeIfExists(path: string): Promise<void> {
+  try {
+    await Deno.remove(path, { recursive: true });
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+}
+
+/**
+ * Replace a file with a hard link to the source file
+ */
+async function linkFile(sourcePath: string, targetPath: string): Promise<void> {
+  await removeIfExists(targetPath);
+  await Deno.link(sourcePath, targetPath);
+}
+
+/**
+ * Copy a file, first removing a target that is a hard link to the source
+ * (left by an earlier hardlink-mode copy, copying onto it fails as it is the same file)
+ */
+async function copyFileReplacingLinks(sourcePath: string, targetPath: string): Promise<void> {
+  const [source, target] = await Promise.all([Deno.stat(sourcePath), Deno.lstat(targetPath).catch(() => null)]);
+  if (target?.isFile && target.ino !== null && target.ino === source.ino && target.dev === source.dev) {
+    await Deno.remove(targetPath);
+  }
+
+  await Deno.copyFile(sourcePath, targetPath);
+}
 
 /**
  * Recursively copy a directory and all its contents
+ * Symlinks are recreated (pointing at the same target) rather than followed
  *
  * @param sourcePath Source directory path
  * @param targetPath Target directory path
+ * @param copyFile Function that copies a single file (e.g., linkFile for hard links)
  */
-async function copyDirectory(sourcePath: string, targetPath: string): Promise<void> {
+async function copyDirectory(
+  sourcePath: string,
+  targetPath: string,
+  copyFile: (sourcePath: string, targetPath: string) => Promise<void> = copyFileReplacingLinks
+): Promise<void> {
   // Ensure target directory exists
   await Deno.mkdir(targetPath, { recursive: true });
 
@@ -21,111 +289,258 @@ async function copyDirectory(sourcePath: string, targetPath: string): Promise<vo
     const sourceEntryPath = join(sourcePath, entry.name);
     const targetEntryPath = join(targetPath, entry.name);
 
-    if (entry.isDirectory) {
+    if (entry.isSymlink) {
+      // Recreate the link as-is, so relative links keep working inside the copy
+      await removeIfExists(targetEntryPath);
+      await Deno.symlink(await Deno.readLink(sourceEntryPath), targetEntryPath);
+    } else if (entry.isDirectory) {
       // Recursively copy subdirectory
-      await copyDirectory(sourceEntryPath, targetEntryPath);
+      await copyDirectory(sourceEntryPath, targetEntryPath, copyFile);
     } else if (entry.isFile) {
       // Ensure parent directory exists
       await Deno.mkdir(dirname(targetEntryPath), { recursive: true });
       // Copy file
-      await Deno.copyFile(sourceEntryPath, targetEntryPath);
+      await copyFile(sourceEntryPath, targetEntryPath);
     }
   }
 }
 
+/**
+ * Clone a file or directory with copy-on-write (APFS, Btrfs, XFS, ...)
+ *
+ * @returns Whether the clone succeeded (false if the filesystem doesn't support it)
+ */
+async function reflinkPath(sourcePath: string, targetPath: string, isDir: boolean): Promise<boolean> {
+  // Deno has no clone API, so use cp: "-c" uses clonefile() on macOS
+  const cloneFlag = Deno.build.os === 'darwin' ? '-c' : '--reflink=always';
+
+  try {
+    if (isDir) {
+      await Deno.mkdir(targetPath, { recursive: true });
+    }
+    const args = isDir ? [cloneFlag, '-R', `${sourcePath}/.`, targetPath] : [cloneFlag, sourcePath, targetPath];
+    const { success } = await new Deno.Command('cp', { args, stdout: 'null', stderr: 'null' }).output();
+    return success;
+  } catch {
+    // cp isn't available (e.g., Windows)
+    return false;
+  }
+}
+
 /**
  * Copy a single file or directory from source to target
  *
  * @param sourcePath Path to source file or directory
  * @param targetPath Path to target file or directory
  * @param dryRun If true, don't actually copy, just report what would be copied
- * @returns Result of the copy operation
+ * @param mode How to copy (reflink and hardlink fall back to a regular copy when they fail)
+ * @returns Result of the copy operation, with the mode that was used
  */
-async function copyPath(sourcePath: string, targetPath: string, dryRun: boolean = false): Promise<CopyResult> {
+async function copyPath(
+  sourcePath: string,
+  targetPath: string,
+  dryRun: boolean = false,
+  mode: CopyMode = 'copy'
+): Promise<CopyResult> {
   try {
     const isDir = await isDirectory(sourcePath);
+    const kind = isDir ? 'directory' : 'file';
 
     if (dryRun) {
       // In dry-run mode, just report what would be copied
       return {
         success: true,
-        message: isDir ? `Would copy directory: ${sourcePath}` : `Would copy file: ${sourcePath}`,
+        message: `${COPY_MODE_VERBS[mode][0]} ${kind}: ${sourcePath}`,
         path: sourcePath,
+        mode,
       };
     }
 
-    if (isDir) {
-      // Copy directory recursively
-      await copyDirectory(sourcePath, targetPath);
-      return {
-        success: true,
-        message: `Copied directory: ${sourcePath}`,
-        path: sourcePath,
-      };
+    // Ensure parent directory exists
+    await Deno.mkdir(dirname(targetPath), { recursive: true });
+
+    let usedMode = mode;
+
+    if (mode === 'symlink') {
+      await removeIfExists(targetPath);
+      await Deno.symlink(sourcePath, targetPath, { type: isDir ? 'dir' : 'file' });
     } else {
-      // Copy single file
-      // Ensure parent directory exists
-      await Deno.mkdir(dirname(targetPath), { recursive: true });
-      await Deno.copyFile(sourcePath, targetPath);
-      return {
-        success: true,
-        message: `Copied file: ${sourcePath}`,
-        path: sourcePath,
-      };
+      // Never write through a symlink left by an earlier symlink-mode copy (it points at the source)
+      const existing = await Deno.lstat(targetPath).catch(() => null);
+      if (existing?.isSymlink) {
+        await Deno.remove(targetPath);
+      }
+
+      if (mode === 'reflink' && !(await reflinkPath(sourcePath, targetPath, isDir))) {
+        usedMode = 'copy';
+      } else if (mode === 'hardlink') {
+        try {
+          if (isDir) {
+            await copyDirectory(sourcePath, targetPath, linkFile);
+          } else {
+            await linkFile(sourcePath, targetPath);
+          }
+        } catch {
+          // e.g., the worktrees are on different filesystems
+          usedMode = 'copy';
+        }
+      }
+
+      if (usedMode === 'copy') {
+        if (isDir) {
+          // Copy directory recursively
+          await copyDirectory(sourcePath, targetPath);
+        } else {
+          await copyFileReplacingLinks(sourcePath, targetPath);
+        }
+      }
     }
+
+    return {
+      success: true,
+      message: `${COPY_MODE_VERBS[usedMode][1]} ${kind}: ${sourcePath}`,
+      path: sourcePath,
+      mode: usedMode,
+    };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     return {
       success: false,
       message: `Failed to copy ${sourcePath}: ${message}`,
       path: sourcePath,
+      mode,
     };
   }
 }
 
+/**
+ * Render a template file to the target path without the template suffix
+ *
+ * @param sourcePath Path to the template file
+ * @param targetRoot Root directory to render into
+ * @param relativePath Relative path of the template (e.g., ".env.template")
+ * @param render Function that substitutes variables in the template content
+ * @param dryRun If true, don't actually write, just report what would be rendered
+ */
+async function renderTemplate(
+  sourcePath: string,
+  targetRoot: string,
+  relativePath: string,
+  render: (content: string) => string,
+  dryRun: boolean
+): Promise<CopyResult> {
+  const renderedPath = relativePath.slice(0, -TEMPLATE_SUFFIX.length);
+
+  try {
+    const content = render(await Deno.readTextFile(sourcePath));
+
+    if (!dryRun) {
+      const targetPath = join(targetRoot, renderedPath);
+      await Deno.mkdir(dirname(targetPath), { recursive: true });
+      await Deno.writeTextFile(targetPath, content);
+    }
+
+    return {
+      success: true,
+      message: `${dryRun ? 'Would render' : 'Rendered'}: ${relativePath} → ${renderedPath}`,
+      path: relativePath,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      message: `Failed to render ${relativePath}: ${message}`,
+      path: relativePath,
+    };
+  }
+}
+
+/**
+ * Copy (or render) a single relative path from source root to target root
+ */
+async function copyRelativePath(
+  sourceRoot: string,
+  targetRoot: string,
+  relativePath: string,
+  mode: CopyMode,
+  dryRun: boolean,
+  render?: (content: string) => string
+): Promise<CopyResult> {
+  const sourcePath = join(sourceRoot, relativePath);
+  const targetPath = join(targetRoot, relativePath);
+
+  // Check if source exists
+  if (!(await pathExists(sourcePath))) {
+    return {
+      success: false,
+      message: `Source not found: ${relativePath}`,
+      path: relativePath,
+    };
+  }
+
+  // Render templates (e.g., ".env.template" -> ".env") instead of copying them
+  if (render && relativePath.endsWith(TEMPLATE_SUFFIX) && !(await isDirectory(sourcePath))) {
+    return await renderTemplate(sourcePath, targetRoot, relativePath, render, dryRun);
+  }
+
+  // Attempt to copy (or simulate in dry-run mode)
+  const result = await copyPath(sourcePath, targetPath, dryRun, mode);
+  // Modify message to show relative path instead of full path
+  const usedMode = result.mode ?? mode;
+  const prefix = COPY_MODE_VERBS[usedMode][dryRun ? 0 : 1];
+  const fallbackNote = usedMode !== mode ? ` (${mode} not possible, copied instead)` : '';
+  return {
+    ...result,
+    message: result.success
+      ? `${prefix}: ${relativePath}${fallbackNote}`
+      : `Failed to copy ${relativePath}: ${result.message.split(': ').slice(1).join(': ')}`,
+    path: relativePath,
+  };
+}
+
 /**
  * Copy multiple files/directories from source root to target root
- * Preserves relative directory structure
+ * Preserves relative directory structure. Glob patterns and "!" exclusions are
+ * expanded first (see expandCopyPatterns); a glob that matches nothing produces a
+ * skipped result instead of a failure.
  *
  * @param sourceRoot Root directory to copy from
  * @param targetRoot Root directory to copy to
- * @param relativePaths Array of relative paths to copy
+ * @param relativePaths Relative paths or glob patterns to copy, optionally with a copy mode
  * @param dryRun If true, don't actually copy, just report what would be copied
+ * @param render If given, "*.template" files are rendered with it to the path without the suffix
  * @returns Array of results for each copy operation
  */
 export async function copyFiles(
   sourceRoot: string,
   targetRoot: string,
-  relativePaths: string[],
-  dryRun: boolean = false
+  relativePaths: CopyFile[],
+  dryRun: boolean = false,
+  render?: (content: string) => string
 ): Promise<CopyResult[]> {
   const results: CopyResult[] = [];
+  const copied = new Set<string>();
 
-  for (const relativePath of relativePaths) {
-    const sourcePath = join(sourceRoot, relativePath);
-    const targetPath = join(targetRoot, relativePath);
+  for (const expansion of await expandCopyPatterns(sourceRoot, relativePaths)) {
+    if (expansion.negated) continue;
 
-    // Check if source exists
-    if (!(await pathExists(sourcePath))) {
+    if (expansion.glob && expansion.paths.length === 0) {
       results.push({
-        success: false,
-        message: `Source not found: ${relativePath}`,
-        path: relativePath,
+        success: true,
+        skipped: true,
+        message: `No files match: ${expansion.pattern}`,
+        path: expansion.pattern,
       });
       continue;
     }
 
-    // Attempt to copy (or simulate in dry-run mode)
-    const result = await copyPath(sourcePath, targetPath, dryRun);
-    // Modify message to show relative path instead of full path
-    const prefix = dryRun ? 'Would copy' : 'Copied';
-    results.push({
-      ...result,
-      message: result.success
-        ? `${prefix}: ${relativePath}`
-        : `Failed to copy ${relativePath}: ${result.message.split(': ').slice(1).join(': ')}`,
-      path: relativePath,
-    });
+    for (const relativePath of expansion.paths) {
+      // Paths matched by several patterns are only copied once
+      if (copied.has(relativePath)) continue;
+      copied.add(relativePath);
+
+      results.push(await copyRelativePath(sourceRoot, targetRoot, relativePath, expansion.mode, dryRun, render));
+    }
   }
 
   return results;
@@ -0,0 +1,65 @@
+/**
+ * Tests for frecency.ts
+ */
+
+import { assertEquals } from '$std/assert';
+import { join } from '$std/path';
+import {
+  findPreviousWorktree,
+  frecencyScore,
+  readFrecencyDatabase,
+  recordNavigation,
+  sortByFrecency,
+} from './frecency.ts';
+import { TempHome } from '../test-utils/temp-env.ts';
+
+const NOW = Date.UTC(2026, 0, 15);
+const HOUR = 60 * 60 * 1000;
+
+Deno.test('frecencyScore - weights the rank by how recently it was used', () => {
+  assertEquals(frecencyScore(undefined, NOW), 0);
+  assertEquals(frecencyScore({ rank: 2, lastAccessed: NOW - HOUR / 2 }, NOW), 8);
+  assertEquals(frecencyScore({ rank: 2, lastAccessed: NOW - 2 * HOUR }, NOW), 4);
+  assertEquals(frecencyScore({ rank: 2, lastAccessed: NOW - 48 * HOUR }, NOW), 1);
+  assertEquals(frecencyScore({ rank: 2, lastAccessed: NOW - 30 * 24 * HOUR }, NOW), 0.5);
+});
+
+Deno.test('sortByFrecency and findPreviousWorktree - rank worktrees by their history', () => {
+  const worktrees = [{ path: '/repo/a' }, { path: '/repo/b' }, { path: '/repo/c' }];
+  const database = {
+    '/repo/b': { rank: 1, lastAccessed: NOW - HOUR / 2 },
+    '/repo/c': { rank: 20, lastAccessed: NOW - 30 * 24 * HOUR },
+  };
+
+  assertEquals(
+    sortByFrecency(worktrees, database, NOW).map((wt) => wt.path),
+    ['/repo/c', '/repo/b', '/repo/a']
+  );
+  assertEquals(findPreviousWorktree(worktrees, database)?.path, '/repo/b');
+  assertEquals(findPreviousWorktree(worktrees, database, '/repo/b')?.path, '/repo/c');
+  assertEquals(findPreviousWorktree(worktrees, {}), undefined);
+});
+
+Deno.test('recordNavigation - bumps the rank and prunes removed worktrees', async () => {
+  const home = new TempHome();
+  try {
+    const kept = join(home.path, 'kept');
+    const removed = join(home.path, 'removed');
+    await Deno.mkdir(kept);
+    await Deno.mkdir(removed);
+
+    await recordNavigation(kept, NOW);
+    await recordNavigation(removed, NOW);
+    await recordNavigation(kept, NOW + 1);
+    assertEquals(await readFrecencyDatabase(), {
+      [kept]: { rank: 2, lastAccessed: NOW + 1 },
+      [removed]: { rank: 1, lastAccessed: NOW },
+    });
+
+    await Deno.remove(removed);
+    await recordNavigation(kept, NOW + 2);
+    assertEquals(Object.keys(await readFrecencyDatabase()), [kept]);
+  } finally {
+    await home.cleanup();
+  }
+});
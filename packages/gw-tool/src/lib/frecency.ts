@@ -0,0 +1,144 @@
+/**
+ * Frecency tracking
+ * Records navigations to worktrees in ~/.gw/frecency.json, so 'gw cd' can prefer the
+ * worktrees used most often and most recently (like zoxide)
+ */
+
+import { dirname, join } from '$std/path';
+import { pathExists } from './path-resolver.ts';
+
+/** Total rank above which all ranks are aged, so old habits fade out */
+const MAX_TOTAL_RANK = 1000;
+
+/** Factor applied to every rank when the database is aged */
+const AGING_FACTOR = 0.9;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+/**
+ * Navigation history of a single worktree
+ */
+export interface FrecencyEntry {
+  /** How often the worktree was navigated to (decays as the database ages) */
+  rank: number;
+  /** Time of the last navigation (milliseconds since the epoch) */
+  lastAccessed: number;
+}
+
+/**
+ * Frecency database (absolute worktree path -> navigation history)
+ */
+export type FrecencyDatabase = Record<string, FrecencyEntry>;
+
+/**
+ * Get the path of the frecency database
+ */
+function getFrecencyPath(): string {
+  const home = Deno.env.get('HOME') || Deno.env.get('USERPROFILE') || '';
+  return join(home, '.gw', 'frecency.json');
+}
+
+/**
+ * Read the frecency database (empty if it doesn't exist yet)
+ */
+export async function readFrecencyDatabase(): Promise<FrecencyDatabase> {
+  try {
+    return JSON.parse(await Deno.readTextFile(getFrecencyPath())) as FrecencyDatabase;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Score a worktree: its rank, weighted by how recently it was navigated to
+ *
+ * @param entry Navigation history of the worktree (score 0 if never navigated to)
+ * @param now Current time (milliseconds since the epoch)
+ */
+export function frecencyScore(entry: FrecencyEntry | undefined, now = Date.now()): number {
+  if (!entry) {
+    return 0;
+  }
+
+  const age = now - entry.lastAccessed;
+  if (age < HOUR) return entry.rank * 4;
+  if (age < DAY) return entry.rank * 2;
+  if (age < WEEK) return entry.rank / 2;
+  return entry.rank / 4;
+}
+
+/**
+ * Sort worktrees by frecency, highest first (worktrees with equal scores keep their order)
+ *
+ * @param worktrees Worktrees to sort
+ * @param database Frecency database
+ * @param now Current time (milliseconds since the epoch)
+ */
+export function sortByFrecency<W extends { path: string }>(
+  worktrees: W[],
+  database: FrecencyDatabase,
+  now = Date.now()
+): W[] {
+  return [...worktrees].sort((a, b) => frecencyScore(database[b.path], now) - frecencyScore(database[a.path], now));
+}
+
+/**
+ * Find the worktree navigated to most recently, other than the current one
+ *
+ * @param worktrees Worktrees to choose from
+ * @param database Frecency database
+ * @param currentPath Path of the current worktree, if any
+ * @returns The previous worktree, or undefined if none was navigated to
+ */
+export function findPreviousWorktree<W extends { path: string }>(
+  worktrees: W[],
+  database: FrecencyDatabase,
+  currentPath?: string
+): W | undefined {
+  return worktrees
+    .filter((wt) => wt.path !== currentPath && database[wt.path])
+    .sort((a, b) => database[b.path].lastAccessed - database[a.path].lastAccessed)[0];
+}
+
+/**
+ * Record a navigation to a worktree
+ * Entries of worktrees that no longer exist are pruned, and once the total rank grows too
+ * large every rank is aged (entries that fall below 1 are dropped). Failing to update the
+ * database never fails the navigation itself.
+ *
+ * @param path Absolute path of the worktree navigated to
+ * @param now Current time (milliseconds since the epoch)
+ */
+export async function recordNavigation(path: string, now = Date.now()): Promise<void> {
+  try {
+    const database = await readFrecencyDatabase();
+    database[path] = { rank: (database[path]?.rank ?? 0) + 1, lastAccessed: now };
+
+    for (const entryPath of Object.keys(database)) {
+      if (!(await pathExists(entryPath))) {
+        delete database[entryPath];
+      }
+    }
+
+    const totalRank = Object.values(database).reduce((total, entry) => total + entry.rank, 0);
+    if (totalRank > MAX_TOTAL_RANK) {
+      for (const [entryPath, entry] of Object.entries(database)) {
+        entry.rank *= AGING_FACTOR;
+        if (entry.rank < 1) {
+          delete database[entryPath];
+        }
+      }
+    }
+
+    const databasePath = getFrecencyPath();
+    await Deno.mkdir(dirname(databasePath), { recursive: true });
+    await Deno.writeTextFile(databasePath, JSON.stringify(database, null, 2) + '\n');
+  } catch {
+    // Frecency only improves ranking; navigation works without it
+  }
+}
@@ -2,7 +2,24 @@
  * Git utility functions for worktree operations
  */
 
-import { join } from '$std/path';
+import { join, relative, resolve } from '$std/path';
+import type { Config, MergeResult, RebaseResult } from './types.ts';
+
+/** Remote used when remotes.base or remotes.push isn't configured */
+export const DEFAULT_REMOTE = 'origin';
+
+/**
+ * Get the remotes to fetch shared branches from (base) and to push your own branches to (push)
+ * Teams working from forks typically set base to "upstream" and push to "origin".
+ *
+ * @param config The loaded configuration
+ */
+export function getRemotes(config: Pick<Config, 'remotes'>): { base: string; push: string } {
+  return {
+    base: config.remotes?.base || DEFAULT_REMOTE,
+    push: config.remotes?.push || DEFAULT_REMOTE,
+  };
+}
 
 /**
  * Worktree information from git worktree list
@@ -12,6 +29,7 @@ export interface WorktreeInfo {
   branch: string;
   head: string;
   bare: boolean;
+  locked: boolean;
 }
 
 /**
@@ -48,6 +66,8 @@ export async function listWorktrees(): Promise<WorktreeInfo[]> {
       current.branch = fullRef.replace(/^refs\/heads\//, '');
     } else if (line === 'bare') {
       current.bare = true;
+    } else if (line === 'locked' || line.startsWith('locked ')) {
+      current.locked = true;
     } else if (line === '') {
       if (current.path) {
         worktrees.push({
@@ -55,6 +75,7 @@ export async function listWorktrees(): Promise<WorktreeInfo[]> {
           branch: current.branch || '',
           head: current.head || '',
           bare: current.bare || false,
+          locked: current.locked || false,
         });
       }
       current = {};
@@ -68,12 +89,28 @@ export async function listWorktrees(): Promise<WorktreeInfo[]> {
       branch: current.branch || '',
       head: current.head || '',
       bare: current.bare || false,
+      locked: current.locked || false,
     });
   }
 
   return worktrees;
 }
 
+/**
+ * Find a worktree by name (path relative to the git root), path or branch
+ * @param gitRoot Root of the git repository
+ * @param nameOrPath Worktree name, path or branch
+ * @returns The worktree, or undefined if none matches
+ */
+export async function findWorktree(gitRoot: string, nameOrPath: string): Promise<WorktreeInfo | undefined> {
+  const worktrees = (await listWorktrees()).filter((wt) => !wt.bare);
+
+  return (
+    worktrees.find((wt) => (relative(gitRoot, wt.path) || '.') === nameOrPath || wt.path === resolve(nameOrPath)) ??
+    worktrees.find((wt) => wt.branch === nameOrPath)
+  );
+}
+
 /**
  * Run git worktree prune to clean up stale administrative files
  * @param silent If true, suppresses all output
@@ -113,24 +150,45 @@ export async function hasUncommittedChanges(worktreePath: string): Promise<boole
 
 /**
  * Check if worktree has unpushed commits
+ * Compares against the branch on the push remote when it exists there (in a fork workflow the
+ * upstream may be the base remote), otherwise against the upstream branch
+ * @param worktreePath Path to the worktree
+ * @param pushRemote Remote the branch is pushed to (default: "origin")
  */
-export async function hasUnpushedCommits(worktreePath: string): Promise<boolean> {
-  // First check if there's a remote tracking branch
-  const trackingCmd = new Deno.Command('git', {
-    args: ['-C', worktreePath, 'rev-parse', '--abbrev-ref', '@{u}'],
-    stdout: 'piped',
-    stderr: 'null',
-  });
+export async function hasUnpushedCommits(worktreePath: string, pushRemote = DEFAULT_REMOTE): Promise<boolean> {
+  const branch = await getCurrentBranch(worktreePath);
+  let compareRef = '@{u}';
 
-  const trackingResult = await trackingCmd.output();
-  if (trackingResult.code !== 0) {
-    // No upstream branch - no unpushed commits
-    return false;
+  if (branch) {
+    const pushRefCmd = new Deno.Command('git', {
+      args: ['-C', worktreePath, 'rev-parse', '--verify', '--quiet', `refs/remotes/${pushRemote}/${branch}`],
+      stdout: 'null',
+      stderr: 'null',
+    });
+
+    if ((await pushRefCmd.output()).code === 0) {
+      compareRef = `refs/remotes/${pushRemote}/${branch}`;
+    }
   }
 
-  // Check for commits ahead of upstream
+  if (compareRef === '@{u}') {
+    // No branch on the push remote - check if there's a remote tracking branch
+    const trackingCmd = new Deno.Command('git', {
+      args: ['-C', worktreePath, 'rev-parse', '--abbrev-ref', '@{u}'],
+      stdout: 'piped',
+      stderr: 'null',
+    });
+
+    const trackingResult = await trackingCmd.output();
+    if (trackingResult.code !== 0) {
+      // No upstream branch - no unpushed commits
+      return false;
+    }
+  }
+
+  // Check for commits ahead of the pushed branch
   const revListCmd = new Deno.Command('git', {
-    args: ['-C', worktreePath, 'rev-list', '@{u}..HEAD', '--count'],
+    args: ['-C', worktreePath, 'rev-list', `${compareRef}..HEAD`, '--count'],
     stdout: 'piped',
     stderr: 'piped',
   });
@@ -142,6 +200,36 @@ export async function hasUnpushedCommits(worktreePath: string): Promise<boolean>
   return count > 0;
 }
 
+/**
+ * Count commits a worktree is ahead of and behind a reference branch
+ * @param worktreePath Path to the worktree
+ * @param baseRef Branch or ref to compare against (e.g., "main")
+ * @returns Ahead/behind counts, or null if the comparison is not possible (e.g., missing ref)
+ */
+export async function getAheadBehind(
+  worktreePath: string,
+  baseRef: string
+): Promise<{ ahead: number; behind: number } | null> {
+  const cmd = new Deno.Command('git', {
+    args: ['-C', worktreePath, 'rev-list', '--left-right', '--count', `${baseRef}...HEAD`],
+    stdout: 'piped',
+    stderr: 'null',
+  });
+
+  const { code, stdout } = await cmd.output();
+  if (code !== 0) return null;
+
+  // Output format: "<behind>\t<ahead>" (left side is baseRef, right side is HEAD)
+  const [behind, ahead] = new TextDecoder()
+    .decode(stdout)
+    .trim()
+    .split(/\s+/)
+    .map((n) => parseInt(n, 10));
+  if (isNaN(behind) || isNaN(ahead)) return null;
+
+  return { ahead, behind };
+}
+
 /**
  * Get the age of a worktree in days
  */
@@ -184,6 +272,47 @@ export async function removeWorktree(worktreePath: string, force = false): Promi
   }
 }
 
+/**
+ * Lock a worktree so it can't be removed or pruned
+ * @param reason Why the worktree is locked (shown by 'git worktree list')
+ */
+export async function lockWorktree(worktreePath: string, reason?: string): Promise<void> {
+  const args = ['worktree', 'lock'];
+  if (reason) args.push('--reason', reason);
+  args.push(worktreePath);
+
+  const cmd = new Deno.Command('git', {
+    args,
+    stdout: 'null',
+    stderr: 'piped',
+  });
+
+  const { code, stderr } = await cmd.output();
+  if (code !== 0) {
+    throw new Error(`Failed to lock worktree: ${new TextDecoder().decode(stderr).trim()}`);
+  }
+}
+
+/**
+ * Find the latest tag matching a pattern, by version order (v1.10.0 is after v1.9.0)
+ * @param pattern Tag pattern (e.g., "v*")
+ * @returns The tag, or null if no tag matches
+ */
+export async function getLatestTag(pattern: string): Promise<string | null> {
+  const cmd = new Deno.Command('git', {
+    args: ['tag', '--list', pattern, '--sort=-v:refname'],
+    stdout: 'piped',
+    stderr: 'null',
+  });
+
+  const { code, stdout } = await cmd.output();
+  if (code !== 0) {
+    return null;
+  }
+
+  return new TextDecoder().decode(stdout).split('\n')[0].trim() || null;
+}
+
 /**
  * Fetch the latest version of a branch from remote and update local branch
  * @param branchName Branch to fetch (e.g., "main")
@@ -192,7 +321,7 @@ export async function removeWorktree(worktreePath: string, force = false): Promi
  */
 export async function fetchAndGetStartPoint(
   branchName: string,
-  remoteName = 'origin'
+  remoteName = DEFAULT_REMOTE
 ): Promise<{ startPoint: string; fetchSucceeded: boolean; message?: string }> {
   const remoteRef = `${remoteName}/${branchName}`;
 
@@ -378,16 +507,7 @@ export async function isDetachedHead(worktreePath: string): Promise<boolean> {
  * @param sourceBranch Branch to merge from
  * @returns Result of the merge operation
  */
-export async function mergeBranch(
-  worktreePath: string,
-  sourceBranch: string
-): Promise<{
-  success: boolean;
-  message?: string;
-  conflicted?: boolean;
-  filesChanged?: number;
-  fileStats?: string[];
-}> {
+export async function mergeBranch(worktreePath: string, sourceBranch: string): Promise<MergeResult> {
   const cmd = new Deno.Command('git', {
     args: ['-C', worktreePath, 'merge', sourceBranch],
     stdout: 'piped',
@@ -440,6 +560,7 @@ export async function mergeBranch(
     return {
       success: false,
       conflicted: true,
+      conflictedFiles: await getConflictedFiles(worktreePath),
       message: 'Merge conflict detected',
     };
   }
@@ -452,6 +573,82 @@ export async function mergeBranch(
   };
 }
 
+/**
+ * Get the upstream (tracking) branch of a worktree's current branch
+ * @param worktreePath Path to the worktree
+ * @returns Remote name ("." for a local upstream), branch name on that remote, and the
+ *   ref to merge from (e.g., "origin/feat"), or null if the branch has no upstream
+ */
+export async function getUpstreamBranch(
+  worktreePath: string
+): Promise<{ remote: string; branch: string; ref: string } | null> {
+  const branch = await getCurrentBranch(worktreePath);
+  if (!branch) return null;
+
+  const cmd = new Deno.Command('git', {
+    args: [
+      '-C',
+      worktreePath,
+      'for-each-ref',
+      '--format=%(upstream:remotename)%00%(upstream:remoteref)%00%(upstream:short)',
+      `refs/heads/${branch}`,
+    ],
+    stdout: 'piped',
+    stderr: 'piped',
+  });
+
+  const { code, stdout } = await cmd.output();
+  if (code !== 0) return null;
+
+  const [remote, remoteRef, ref] = new TextDecoder().decode(stdout).trim().split('\0');
+  if (!remote || !remoteRef || !ref) return null;
+
+  return { remote, branch: remoteRef.replace(/^refs\/heads\//, ''), ref };
+}
+
+/**
+ * Fast-forward the current branch to another ref, without creating a merge commit
+ * @param worktreePath Path to the worktree
+ * @param ref Ref to fast-forward to (e.g., "origin/feat")
+ * @returns Result of the merge operation (fails without changes if the branches have diverged)
+ */
+export async function fastForwardBranch(worktreePath: string, ref: string): Promise<MergeResult> {
+  const cmd = new Deno.Command('git', {
+    args: ['-C', worktreePath, 'merge', '--ff-only', '--stat', ref],
+    stdout: 'piped',
+    stderr: 'piped',
+  });
+
+  const { code, stdout, stderr } = await cmd.output();
+  const output = new TextDecoder().decode(stdout);
+
+  if (code !== 0) {
+    const errorOutput = new TextDecoder().decode(stderr);
+    return {
+      success: false,
+      message: /not possible to fast-forward|diverging/i.test(errorOutput)
+        ? `Cannot fast-forward: the branch has diverged from ${ref}`
+        : errorOutput.trim() || 'Fast-forward failed',
+    };
+  }
+
+  if (output.includes('Already up to date')) {
+    return { success: true, message: 'Already up to date', filesChanged: 0 };
+  }
+
+  const filesChangedMatch = output.match(/(\d+) files? changed/);
+  const fileStats = output
+    .split('\n')
+    .filter((line) => line.includes(' | '))
+    .map((line) => line.trim());
+
+  return {
+    success: true,
+    filesChanged: filesChangedMatch ? parseInt(filesChangedMatch[1], 10) : undefined,
+    fileStats: fileStats.length > 0 ? fileStats : undefined,
+  };
+}
+
 /**
  * List all local branches
  * @returns Array of branch names (without refs/heads/ prefix)
@@ -537,16 +734,7 @@ export async function hasBranchUnpushedCommits(branchName: string): Promise<bool
  * @param sourceBranch Branch to rebase onto
  * @returns Result of the rebase operation
  */
-export async function rebaseBranch(
-  worktreePath: string,
-  sourceBranch: string
-): Promise<{
-  success: boolean;
-  message?: string;
-  conflicted?: boolean;
-  filesChanged?: number;
-  fileStats?: string[];
-}> {
+export async function rebaseBranch(worktreePath: string, sourceBranch: string): Promise<RebaseResult> {
   const cmd = new Deno.Command('git', {
     args: ['-C', worktreePath, 'rebase', sourceBranch],
     stdout: 'piped',
@@ -603,6 +791,7 @@ export async function rebaseBranch(
     return {
       success: false,
       conflicted: true,
+      conflictedFiles: await getConflictedFiles(worktreePath),
       message: 'Rebase conflict detected',
     };
   }
@@ -615,6 +804,221 @@ export async function rebaseBranch(
   };
 }
 
+/**
+ * Get the files with unresolved merge or rebase conflicts
+ * @param worktreePath Path to the worktree
+ * @returns Conflicted file paths, relative to the worktree root
+ */
+export async function getConflictedFiles(worktreePath: string): Promise<string[]> {
+  const cmd = new Deno.Command('git', {
+    args: ['-C', worktreePath, 'diff', '--name-only', '--diff-filter=U'],
+    stdout: 'piped',
+    stderr: 'piped',
+  });
+
+  const { code, stdout } = await cmd.output();
+  if (code !== 0) return [];
+
+  return new TextDecoder().decode(stdout).split('\n').filter(Boolean);
+}
+
+/**
+ * Resolve a path inside a worktree's git directory (e.g., "MERGE_HEAD")
+ * Worktrees have their own git directory, which their .git file points to.
+ * @param worktreePath Path to the worktree
+ * @param path Path relative to the git directory
+ * @returns Absolute path
+ */
+export async function getGitPath(worktreePath: string, path: string): Promise<string> {
+  const cmd = new Deno.Command('git', {
+    args: ['-C', worktreePath, 'rev-parse', '--path-format=absolute', '--git-path', path],
+    stdout: 'piped',
+    stderr: 'piped',
+  });
+
+  const { code, stdout, stderr } = await cmd.output();
+  if (code !== 0) {
+    throw new Error(`Failed to resolve git path ${path}: ${new TextDecoder().decode(stderr).trim()}`);
+  }
+
+  return new TextDecoder().decode(stdout).trim();
+}
+
+/**
+ * Check whether a merge or rebase is in progress in a worktree
+ * @param worktreePath Path to the worktree
+ * @returns The operation in progress, or null if there is none
+ */
+export async function getUpdateInProgress(worktreePath: string): Promise<'merge' | 'rebase' | null> {
+  // Resolve the state files through git, since a worktree's .git is a file pointing elsewhere
+  const cmd = new Deno.Command('git', {
+    args: [
+      '-C',
+      worktreePath,
+      'rev-parse',
+      '--path-format=absolute',
+      '--git-path',
+      'rebase-merge',
+      '--git-path',
+      'rebase-apply',
+      '--git-path',
+      'MERGE_HEAD',
+    ],
+    stdout: 'piped',
+    stderr: 'piped',
+  });
+
+  const { code, stdout } = await cmd.output();
+  if (code !== 0) return null;
+
+  const [rebaseMerge, rebaseApply, mergeHead] = new TextDecoder().decode(stdout).trim().split('\n');
+
+  for (const path of [rebaseMerge, rebaseApply]) {
+    try {
+      await Deno.stat(path);
+      return 'rebase';
+    } catch {
+      // Not rebasing
+    }
+  }
+
+  try {
+    await Deno.stat(mergeHead);
+    return 'merge';
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Continue an in-progress merge or rebase once its conflicts are resolved and staged
+ * Uses the default commit messages without opening an editor.
+ * @param worktreePath Path to the worktree
+ * @param strategy Whether a merge or a rebase is in progress
+ * @returns Result of the operation (a rebase can stop at another conflicting commit)
+ */
+export async function continueUpdate(worktreePath: string, strategy: 'merge' | 'rebase'): Promise<RebaseResult> {
+  const cmd = new Deno.Command('git', {
+    args: ['-C', worktreePath, strategy, '--continue'],
+    env: { GIT_EDITOR: 'true' },
+    stdout: 'piped',
+    stderr: 'piped',
+  });
+
+  const { code, stdout, stderr } = await cmd.output();
+  if (code === 0) {
+    return { success: true };
+  }
+
+  const conflictedFiles = await getConflictedFiles(worktreePath);
+  if (conflictedFiles.length > 0) {
+    return {
+      success: false,
+      conflicted: true,
+      conflictedFiles,
+      message: `${strategy === 'merge' ? 'Merge' : 'Rebase'} conflict detected`,
+    };
+  }
+
+  const errorMsg = new TextDecoder().decode(stderr) || new TextDecoder().decode(stdout);
+  return {
+    success: false,
+    message: errorMsg.trim() || `Could not continue the ${strategy}`,
+  };
+}
+
+/**
+ * Abort an in-progress merge or rebase, restoring the worktree to its state before it started
+ * @param worktreePath Path to the worktree
+ * @param strategy Whether a merge or a rebase is in progress
+ * @returns True if the operation was aborted
+ */
+export async function abortUpdate(worktreePath: string, strategy: 'merge' | 'rebase'): Promise<boolean> {
+  const cmd = new Deno.Command('git', {
+    args: ['-C', worktreePath, strategy, '--abort'],
+    stdout: 'null',
+    stderr: 'null',
+  });
+
+  const { code } = await cmd.output();
+  return code === 0;
+}
+
+/**
+ * Stash the tracked and untracked changes of a worktree
+ * @param worktreePath Path to the worktree
+ * @param message Stash message (shown by 'git stash list')
+ * @returns The stash commit, or null if there was nothing to stash
+ */
+export async function stashChanges(worktreePath: string, message: string): Promise<string | null> {
+  const cmd = new Deno.Command('git', {
+    args: ['-C', worktreePath, 'stash', 'push', '--include-untracked', '-m', message],
+    stdout: 'piped',
+    stderr: 'piped',
+  });
+
+  const { code, stdout, stderr } = await cmd.output();
+  if (code !== 0) {
+    throw new Error(`Failed to stash changes: ${new TextDecoder().decode(stderr).trim()}`);
+  }
+  if (new TextDecoder().decode(stdout).includes('No local changes to save')) {
+    return null;
+  }
+
+  const revParseCmd = new Deno.Command('git', {
+    args: ['-C', worktreePath, 'rev-parse', 'refs/stash'],
+    stdout: 'piped',
+    stderr: 'null',
+  });
+  return new TextDecoder().decode((await revParseCmd.output()).stdout).trim();
+}
+
+/**
+ * Re-apply a stash and drop it once it applied cleanly
+ * A stash that can't be applied cleanly is kept, so no changes are lost.
+ * @param worktreePath Path to the worktree
+ * @param stash Stash commit returned by stashChanges
+ * @returns Whether the stash applied cleanly, and the conflicted files if it didn't
+ */
+export async function restoreStash(
+  worktreePath: string,
+  stash: string
+): Promise<{ success: boolean; conflictedFiles: string[]; message?: string }> {
+  const applyCmd = new Deno.Command('git', {
+    args: ['-C', worktreePath, 'stash', 'apply', stash],
+    stdout: 'piped',
+    stderr: 'piped',
+  });
+
+  const { code, stdout, stderr } = await applyCmd.output();
+  if (code !== 0) {
+    const errorMsg = new TextDecoder().decode(stderr) || new TextDecoder().decode(stdout);
+    return { success: false, conflictedFiles: await getConflictedFiles(worktreePath), message: errorMsg.trim() };
+  }
+
+  // Drop by position, since 'git stash drop' doesn't accept a commit
+  const listCmd = new Deno.Command('git', {
+    args: ['-C', worktreePath, 'stash', 'list', '--format=%H'],
+    stdout: 'piped',
+    stderr: 'null',
+  });
+  const index = new TextDecoder()
+    .decode((await listCmd.output()).stdout)
+    .split('\n')
+    .indexOf(stash);
+
+  if (index !== -1) {
+    const dropCmd = new Deno.Command('git', {
+      args: ['-C', worktreePath, 'stash', 'drop', `stash@{${index}}`],
+      stdout: 'null',
+      stderr: 'null',
+    });
+    await dropCmd.output();
+  }
+
+  return { success: true, conflictedFiles: [] };
+}
+
 /**
  * Check if a branch is checked out in another worktree
  * @param branchName Branch name to check
@@ -0,0 +1,143 @@
+/**
+ * Hook run logging
+ * Each worktree gets a log file in .gw/logs/ with one JSON entry per hook run
+ */
+
+import { join } from '$std/path';
+
+/** Maximum number of hook runs kept per worktree log */
+const MAX_LOG_ENTRIES = 100;
+
+/** Maximum number of output characters stored per hook run (the end is kept) */
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+/**
+ * A single logged hook run
+ */
+export interface HookLogEntry {
+  /** When the hook started (ISO 8601) */
+  timestamp: string;
+  /** Hook type (e.g., "post-checkout") */
+  hookType: string;
+  /** Command after variable substitution */
+  command: string;
+  /** Directory the hook ran in */
+  cwd: string;
+  /** Exit code (null for background hooks, which aren't waited for) */
+  exitCode: number | null;
+  /** How long the hook ran in milliseconds */
+  durationMs: number;
+  /** Whether the hook was killed because it exceeded its timeout */
+  timedOut: boolean;
+  /** Whether the hook was started in the background */
+  background: boolean;
+  /** Combined stdout and stderr output (truncated to the last 64 KB, empty when the hook ran in a terminal) */
+  output: string;
+}
+
+/**
+ * Convert a worktree name to a filesystem-safe slug (e.g., "feat/login" -> "feat-login")
+ */
+export function worktreeSlug(worktree: string): string {
+  const slug = worktree.replace(/[^\w.-]+/g, '-').replace(/^[-.]+|-+$/g, '');
+  return slug || 'root';
+}
+
+/**
+ * Short FNV-1a hash of a string as 8 hex characters
+ */
+function shortHash(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Get the path of the hook log for a worktree
+ * The name hash keeps worktrees with the same slug (e.g., "feat/login" and "feat-login") apart
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ */
+export function getHookLogPath(gitRoot: string, worktree: string): string {
+  return join(gitRoot, '.gw', 'logs', `${worktreeSlug(worktree)}-${shortHash(worktree)}.log`);
+}
+
+/**
+ * Read the logged hook runs for a worktree, oldest first
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ */
+export async function readHookLog(gitRoot: string, worktree: string): Promise<HookLogEntry[]> {
+  let content: string;
+  try {
+    content = await Deno.readTextFile(getHookLogPath(gitRoot, worktree));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: HookLogEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HookLogEntry);
+    } catch {
+      // Skip lines that were partially written or edited by hand
+    }
+  }
+
+  return entries;
+}
+
+/** Pending writes per log file, so hooks running in parallel don't overwrite each other's entries */
+const pendingWrites = new Map<string, Promise<void>>();
+
+/**
+ * Append a hook run to a worktree's log, keeping only the most recent runs
+ * Writes to the same log are applied one after another
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ * @param entry The hook run to log
+ */
+export function appendHookLog(gitRoot: string, worktree: string, entry: HookLogEntry): Promise<void> {
+  const logPath = getHookLogPath(gitRoot, worktree);
+  const previous = pendingWrites.get(logPath) ?? Promise.resolve();
+  const write = previous.catch(() => {}).then(() => writeHookLogEntry(gitRoot, worktree, logPath, entry));
+
+  pendingWrites.set(logPath, write);
+  return write;
+}
+
+/**
+ * Read a worktree's log, add the entry and write it back
+ */
+async function writeHookLogEntry(
+  gitRoot: string,
+  worktree: string,
+  logPath: string,
+  entry: HookLogEntry
+): Promise<void> {
+  const logDir = join(gitRoot, '.gw', 'logs');
+  await Deno.mkdir(logDir, { recursive: true });
+
+  // Keep logs out of version control when .gw/ is committed
+  const gitignorePath = join(logDir, '.gitignore');
+  try {
+    await Deno.writeTextFile(gitignorePath, '*\n', { createNew: true });
+  } catch (error) {
+    if (!(error instanceof Deno.errors.AlreadyExists)) throw error;
+  }
+
+  const output = entry.output.length > MAX_OUTPUT_LENGTH ? entry.output.slice(-MAX_OUTPUT_LENGTH) : entry.output;
+  const entries = [...(await readHookLog(gitRoot, worktree)), { ...entry, output }].slice(-MAX_LOG_ENTRIES);
+
+  await Deno.writeTextFile(logPath, entries.map((e) => JSON.stringify(e)).join('\n') + '\n');
+}
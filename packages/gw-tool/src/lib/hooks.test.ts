@@ -0,0 +1,260 @@
+/**
+ * Tests for hooks.ts
+ */
+
+import { assertEquals, assertNotEquals, assertThrows } from '$std/assert';
+import { join } from '$std/path';
+import {
+  buildHookVariables,
+  executeHook,
+  executeHooks,
+  hookEnvironment,
+  type HookVariables,
+  substituteVariables,
+  validateHookVariables,
+} from './hooks.ts';
+import { getHookLogPath, readHookLog } from './hook-log.ts';
+import { allocatePorts } from './ports.ts';
+import { assertFileContent, assertFileExists, assertPathNotExists } from '../test-utils/assertions.ts';
+
+async function withTempDir(fn: (dir: string, variables: HookVariables) => Promise<void>): Promise<void> {
+  const dir = await Deno.realPath(await Deno.makeTempDir({ prefix: 'gw-hooks-test-' }));
+  const worktreePath = join(dir, 'feat');
+  await Deno.mkdir(worktreePath);
+
+  try {
+    await fn(dir, await buildHookVariables({}, { worktree: 'feat', worktreePath, gitRoot: dir, branch: 'feat' }));
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test('buildHookVariables - derives repo and worktree variables', async () => {
+  const variables = await buildHookVariables(
+    { defaultBranch: 'develop' },
+    {
+      worktree: 'feat/login',
+      worktreePath: '/repos/app.git/feat/login',
+      gitRoot: '/repos/app.git',
+      branch: 'feat/login',
+    }
+  );
+
+  assertEquals(variables.defaultBranch, 'develop');
+  assertEquals(variables.baseBranch, 'develop');
+  assertEquals(variables.repoName, 'app');
+  assertEquals(variables.remote, 'origin');
+  assertEquals(variables.prNumber, '');
+  assertEquals(variables.worktreeSlug, 'feat-login');
+});
+
+Deno.test('substituteVariables - replaces known placeholders and leaves shell expansions alone', async () => {
+  const variables = await buildHookVariables(
+    {},
+    { worktree: 'feat/login', worktreePath: '/repo/feat/login', gitRoot: '/repo', branch: 'feat/login', prNumber: '42' }
+  );
+
+  assertEquals(
+    substituteVariables('docker compose -p {worktreeSlug} up # PR {prNumber} ${HOME} {unknown}', variables),
+    'docker compose -p feat-login up # PR 42 ${HOME} {unknown}'
+  );
+});
+
+Deno.test('buildHookVariables - exposes the worktree port range', async () => {
+  await withTempDir(async (dir) => {
+    const config = { ports: { base: 5000, named: { web: 0, api: 1 } } };
+    await allocatePorts(dir, config.ports, 'feat');
+
+    const variables = await buildHookVariables(config, {
+      worktree: 'feat',
+      worktreePath: join(dir, 'feat'),
+      gitRoot: dir,
+      branch: 'feat',
+    });
+
+    assertEquals(variables.port, '5000');
+    assertEquals(substituteVariables('{port} {port:api} {port:missing}', variables), '5000 5001 {port:missing}');
+    assertEquals(hookEnvironment(variables).GW_PORT_API, '5001');
+  });
+});
+
+Deno.test('validateHookVariables - rejects unknown placeholders', () => {
+  assertThrows(
+    () => validateHookVariables({ checkout: { post: ['echo ok', { command: 'echo {worktre}' }] } }),
+    Error,
+    'Unknown hook variable {worktre} in hooks.checkout.post[1]'
+  );
+  assertThrows(
+    () => validateHookVariables({ update: { pre: [{ command: 'true', env: { NAME: '{nope}' } }] } }),
+    Error,
+    'Unknown hook variable {nope}'
+  );
+
+  assertThrows(
+    () => validateHookVariables({ checkout: { post: ['echo {port}'] } }),
+    Error,
+    'requires "ports" to be configured'
+  );
+  assertThrows(
+    () => validateHookVariables({ checkout: { post: ['echo {port:db}'] } }, { named: { api: 1 } }),
+    Error,
+    'Unknown port name {port:db}'
+  );
+
+  // Shell expansions and known variables are fine
+  validateHookVariables({ checkout: { post: ['echo ${HOME} {branch} {repoName}'] } });
+  validateHookVariables({ checkout: { post: ['echo {port} {port:api}'] } }, { named: { api: 1 } });
+});
+
+Deno.test('executeHook - runs string hooks with variable substitution', async () => {
+  await withTempDir(async (dir, variables) => {
+    const result = await executeHook('echo {branch} > out.txt', dir, variables);
+
+    assertEquals(result.success, true);
+    assertEquals(result.exitCode, 0);
+    assertEquals(result.timedOut, false);
+    assertEquals(result.command, 'echo feat > out.txt');
+    assertEquals(result.durationMs >= 0, true);
+    await assertFileContent(join(dir, 'out.txt'), 'feat\n');
+  });
+});
+
+Deno.test('executeHook - applies cwd and env from object hooks', async () => {
+  await withTempDir(async (dir, variables) => {
+    const result = await executeHook(
+      { command: 'echo "$GREETING" > out.txt', cwd: 'worktree', env: { GREETING: 'hello {worktree}' } },
+      dir,
+      variables
+    );
+
+    assertEquals(result.success, true);
+    await assertFileContent(join(variables.worktreePath, 'out.txt'), 'hello feat\n');
+  });
+});
+
+Deno.test('executeHook - exports variables as GW_* environment variables', async () => {
+  await withTempDir(async (dir, variables) => {
+    const result = await executeHook(
+      'echo "$GW_WORKTREE_SLUG $GW_DEFAULT_BRANCH $GW_GIT_ROOT" > out.txt',
+      dir,
+      variables
+    );
+
+    assertEquals(result.success, true);
+    await assertFileContent(join(dir, 'out.txt'), `feat main ${dir}\n`);
+  });
+});
+
+Deno.test('executeHook - reports timed out hooks', async () => {
+  await withTempDir(async (dir, variables) => {
+    const result = await executeHook({ command: 'sleep 5', timeout: 0.2 }, dir, variables);
+
+    assertEquals(result.success, false);
+    assertEquals(result.timedOut, true);
+    assertEquals(result.durationMs < 5000, true);
+  });
+});
+
+Deno.test('executeHook - stops processes started by a timed out hook', async () => {
+  await withTempDir(async (dir, variables) => {
+    // The subshell outlives sh and would create the file if only sh were killed
+    const result = await executeHook({ command: '(sleep 1 && touch late.txt) & wait', timeout: 0.2 }, dir, variables);
+
+    assertEquals(result.timedOut, true);
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    await assertPathNotExists(join(dir, 'late.txt'));
+  });
+});
+
+Deno.test('executeHook - runs hooks in the session of gw so they keep its terminal', async () => {
+  await withTempDir(async (dir, variables) => {
+    await executeHook('ps -o sid= -p $$ > sid.txt', dir, variables);
+
+    const { stdout } = await new Deno.Command('ps', { args: ['-o', 'sid=', '-p', String(Deno.pid)] }).output();
+    await assertFileContent(join(dir, 'sid.txt'), new TextDecoder().decode(stdout));
+  });
+});
+
+Deno.test('executeHook - starts background hooks without waiting', async () => {
+  await withTempDir(async (dir, variables) => {
+    const result = await executeHook({ command: 'sleep 0.2 && touch done.txt', background: true }, dir, variables);
+
+    assertEquals(result.success, true);
+    assertEquals(result.background, true);
+
+    // Give the background process time to finish before the directory is removed
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    await assertFileExists(join(dir, 'done.txt'));
+  });
+});
+
+Deno.test('executeHooks - continueOnError failures do not abort', async () => {
+  await withTempDir(async (dir, variables) => {
+    const { results, allSuccessful } = await executeHooks(
+      [{ command: 'exit 3', continueOnError: true }, 'touch after.txt'],
+      dir,
+      variables,
+      'post-checkout'
+    );
+
+    assertEquals(allSuccessful, true);
+    assertEquals(results.length, 2);
+    assertEquals(results[0].exitCode, 3);
+    await assertFileExists(join(dir, 'after.txt'));
+  });
+});
+
+Deno.test('executeHooks - aborts after a failing hook', async () => {
+  await withTempDir(async (dir, variables) => {
+    const { results, allSuccessful } = await executeHooks(
+      ['exit 1', 'touch after.txt'],
+      dir,
+      variables,
+      'pre-checkout'
+    );
+
+    assertEquals(allSuccessful, false);
+    assertEquals(results.length, 1);
+  });
+});
+
+Deno.test('executeHooks - runs hooks in the same parallel group concurrently', async () => {
+  await withTempDir(async (dir, variables) => {
+    // Each hook waits for the other's marker file, so this only succeeds when they run concurrently
+    const { results, allSuccessful } = await executeHooks(
+      [
+        {
+          command: 'touch a.txt; for i in 1 2 3 4 5 6 7 8 9 10; do [ -f b.txt ] && exit 0; sleep 0.1; done; exit 1',
+          parallel: 'setup',
+          timeout: 5,
+        },
+        {
+          command: 'touch b.txt; for i in 1 2 3 4 5 6 7 8 9 10; do [ -f a.txt ] && exit 0; sleep 0.1; done; exit 1',
+          parallel: 'setup',
+          timeout: 5,
+        },
+      ],
+      dir,
+      variables,
+      'post-checkout'
+    );
+
+    assertEquals(allSuccessful, true);
+    assertEquals(results.length, 2);
+  });
+});
+
+Deno.test('executeHooks - logs every hook of a parallel group', async () => {
+  await withTempDir(async (dir, variables) => {
+    const hooks = ['a', 'b', 'c', 'd'].map((name) => ({ command: `echo ${name}`, parallel: 'setup' }));
+    const { allSuccessful } = await executeHooks(hooks, dir, variables, 'post-checkout');
+
+    assertEquals(allSuccessful, true);
+    const commands = (await readHookLog(dir, 'feat')).map((entry) => entry.command).sort();
+    assertEquals(commands, ['echo a', 'echo b', 'echo c', 'echo d']);
+  });
+});
+
+Deno.test('getHookLogPath - keeps worktrees with the same slug apart', () => {
+  assertNotEquals(getHookLogPath('/repo', 'feat/login'), getHookLogPath('/repo', 'feat-login'));
+});
@@ -2,10 +2,47 @@
  * Hook execution utilities for running pre/post command hooks
  */
 
+import { basename, relative } from '$std/path';
+import { getRemotes } from './git-utils.ts';
+import { appendHookLog, type HookLogEntry, worktreeSlug } from './hook-log.ts';
 import * as output from './output.ts';
+import { getAllocatedPort, getNamedPorts } from './ports.ts';
+import type { Config, Hook, HookCommand, HookDefinition, HooksConfig, PortsConfig } from './types.ts';
+
+/**
+ * Commands that support pre/post hooks (keys of HooksConfig)
+ */
+export const HOOK_COMMANDS: readonly HookCommand[] = [
+  'checkout',
+  'pr',
+  'remove',
+  'update',
+  'pull',
+  'sync',
+  'clean',
+  'move',
+];
+
+/**
+ * Names of the variables available in hooks (as {name} placeholders)
+ */
+export const HOOK_VARIABLE_NAMES = [
+  'worktree',
+  'worktreePath',
+  'gitRoot',
+  'branch',
+  'defaultBranch',
+  'repoName',
+  'baseBranch',
+  'prNumber',
+  'remote',
+  'worktreeSlug',
+  'port',
+] as const;
 
 /**
  * Variables available for substitution in hook commands
+ * Each variable is also exported to hooks as a GW_* environment variable
  */
 export interface HookVariables {
   /** The worktree name (e.g., "feat/new-feature") */
@@ -16,6 +53,68 @@ export interface HookVariables {
   gitRoot: string;
   /** The branch name */
   branch: string;
+  /** The configured default branch (e.g., "main") */
+  defaultBranch: string;
+  /** The repository name (git root directory name without ".git") */
+  repoName: string;
+  /** The branch the worktree was created or updated from (e.g., the --from source) */
+  baseBranch: string;
+  /** The pull request number (gw pr only, empty otherwise) */
+  prNumber: string;
+  /** The remote used for fetching (e.g., "origin", or remotes.base when configured) */
+  remote: string;
+  /** The worktree name made safe for file and docker project names (e.g., "feat-new-feature") */
+  worktreeSlug: string;
+  /** First port of the worktree's port range (empty if it has none) */
+  port: string;
+  /** Named ports of the worktree's port range, used as {port:name} */
+  ports: Record<string, string>;
+}
+
+/**
+ * Build the full set of hook variables for a worktree
+ * Variables that aren't given are derived from the config, the git root and
+ * the port registry
+ *
+ * @param config The loaded configuration
+ * @param variables Worktree-specific variables
+ */
+export async function buildHookVariables(
+  config: Config,
+  variables: Pick<HookVariables, 'worktree' | 'worktreePath' | 'gitRoot' | 'branch'> &
+    Partial<Pick<HookVariables, 'baseBranch' | 'prNumber' | 'remote'>>
+): Promise<HookVariables> {
+  const defaultBranch = config.defaultBranch || 'main';
+  const port = config.ports
+    ? await getAllocatedPort(variables.gitRoot, relative(variables.gitRoot, variables.worktreePath) || '.')
+    : undefined;
+  const namedPorts = config.ports && port !== undefined ? getNamedPorts(config.ports, port) : {};
+
+  return {
+    ...variables,
+    defaultBranch,
+    repoName: basename(variables.gitRoot).replace(/\.git$/, ''),
+    baseBranch: variables.baseBranch || defaultBranch,
+    prNumber: variables.prNumber ?? '',
+    remote: variables.remote || getRemotes(config).base,
+    worktreeSlug: worktreeSlug(variables.worktree),
+    port: port?.toString() ?? '',
+    ports: Object.fromEntries(Object.entries(namedPorts).map(([name, value]) => [name, String(value)])),
+  };
+}
+
+/**
+ * Get the environment variables exported to hooks (e.g., worktreePath -> GW_WORKTREE_PATH,
+ * {port:api} -> GW_PORT_API)
+ */
+export function hookEnvironment(variables: HookVariables): Record<string, string> {
+  return Object.fromEntries([
+    ...HOOK_VARIABLE_NAMES.map((name) => [`GW_${name.replace(/([A-Z])/g, '_$1').toUpperCase()}`, variables[name]]),
+    ...Object.entries(variables.ports).map(([name, port]) => [
+      `GW_PORT_${name.replace(/\W/g, '_').toUpperCase()}`,
+      port,
+    ]),
+  ]);
 }
 
 /**
@@ -28,66 +127,370 @@ export interface HookResult {
   command: string;
   /** Exit code from the hook command */
   exitCode: number;
+  /** How long the hook ran in milliseconds (0 for background hooks) */
+  durationMs: number;
+  /** Whether the hook was killed because it exceeded its timeout */
+  timedOut: boolean;
+  /** Whether the hook was started in the background without waiting for it */
+  background?: boolean;
 }
 
+/**
+ * Matches {name} and {name:key} placeholders (but not shell ${name} expansions)
+ */
+const PLACEHOLDER_PATTERN = /(?<!\$)\{([A-Za-z]\w*)(?::([\w-]+))?\}/g;
+
 /**
  * Substitute variables in a hook command string
  *
- * Supported variables:
- * - {worktree} - the worktree name
- * - {worktreePath} - the full absolute path to the worktree
- * - {gitRoot} - the git repository root path
- * - {branch} - the branch name
+ * Supported variables are listed in HOOK_VARIABLE_NAMES, e.g. {worktree},
+ * {worktreePath}, {gitRoot}, {branch}, {defaultBranch} and {worktreeSlug}.
  *
  * @param command The command string with variable placeholders
  * @param variables The variables to substitute
  * @returns The command with variables substituted
  */
 export function substituteVariables(command: string, variables: HookVariables): string {
-  return command
-    .replace(/\{worktree\}/g, variables.worktree)
-    .replace(/\{worktreePath\}/g, variables.worktreePath)
-    .replace(/\{gitRoot\}/g, variables.gitRoot)
-    .replace(/\{branch\}/g, variables.branch);
+  return command.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, key: string | undefined) => {
+    if (key !== undefined) {
+      return name === 'port' ? (variables.ports[key] ?? placeholder) : placeholder;
+    }
+
+    return (HOOK_VARIABLE_NAMES as readonly string[]).includes(name)
+      ? variables[name as (typeof HOOK_VARIABLE_NAMES)[number]]
+      : placeholder;
+  });
+}
+
+/**
+ * Check hook commands and env values for unknown {placeholders}
+ *
+ * @param hooksConfig Hooks configuration to check
+ * @param ports Ports configuration ({port} variables require it)
+ * @throws Error describing the first unknown placeholder
+ */
+export function validateHookVariables(hooksConfig: HooksConfig, ports?: PortsConfig): void {
+  for (const [command, commandHooks] of Object.entries(hooksConfig)) {
+    for (const phase of ['pre', 'post'] as const) {
+      (commandHooks?.[phase] ?? []).forEach((hook: Hook, index: number) => {
+        const definition = normalizeHook(hook);
+
+        for (const text of [definition.command, ...Object.values(definition.env ?? {})]) {
+          for (const [placeholder, name, key] of text.matchAll(PLACEHOLDER_PATTERN)) {
+            const location = `hooks.${command}.${phase}[${index}]`;
+
+            if (name === 'port' && !ports) {
+              throw new Error(`Hook variable ${placeholder} in ${location} requires "ports" to be configured`);
+            }
+
+            if (name === 'port' && key !== undefined && ports?.named?.[key] === undefined) {
+              const available = Object.keys(ports?.named ?? {}).join(', ') || '(none)';
+              throw new Error(`Unknown port name ${placeholder} in ${location}. Named ports: ${available}`);
+            }
+
+            if (!(HOOK_VARIABLE_NAMES as readonly string[]).includes(name) || (key !== undefined && name !== 'port')) {
+              const available = [...HOOK_VARIABLE_NAMES.map((variable) => `{${variable}}`), '{port:<name>}'].join(', ');
+              throw new Error(`Unknown hook variable ${placeholder} in ${location}. Available variables: ${available}`);
+            }
+          }
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Convert a hook to its object form
+ */
+export function normalizeHook(hook: Hook): HookDefinition {
+  return typeof hook === 'string' ? { command: hook } : hook;
+}
+
+/**
+ * Group consecutive hooks that share a parallel group name
+ * Hooks without a parallel group each form their own group
+ */
+function groupHooks(hooks: Hook[]): HookDefinition[][] {
+  const groups: HookDefinition[][] = [];
+
+  for (const hook of hooks.map(normalizeHook)) {
+    const previous = groups[groups.length - 1];
+    if (hook.parallel && previous && previous[0].parallel === hook.parallel) {
+      previous.push(hook);
+    } else {
+      groups.push([hook]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Format a duration in milliseconds for display (e.g., "1.2s")
+ */
+function formatDuration(durationMs: number): string {
+  return `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Copy a hook's output stream to the terminal while collecting it for the log
+ */
+async function teeOutput(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  target: { write(data: Uint8Array): Promise<number> },
+  collected: string[]
+): Promise<void> {
+  const decoder = new TextDecoder();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    collected.push(decoder.decode(value, { stream: true }));
+
+    let written = 0;
+    while (written < value.length) {
+      written += await target.write(value.subarray(written));
+    }
+  }
+}
+
+/**
+ * Record a hook run in the worktree's hook log
+ * Logging problems are ignored so they never affect the hook itself
+ */
+async function logHookRun(variables: HookVariables, entry: HookLogEntry): Promise<void> {
+  try {
+    await appendHookLog(variables.gitRoot, variables.worktree, entry);
+  } catch {
+    // Ignore - the log is a debugging aid
+  }
 }
 
 /**
  * Execute a single hook command
+ * The run is recorded in the worktree's hook log, with its output when gw's output isn't a terminal
  *
- * @param command The command to execute (will be run via shell)
- * @param cwd The working directory to run the command in
+ * @param hook The hook to execute (will be run via shell)
+ * @param cwd The working directory to run the command in (unless the hook sets its own cwd)
  * @param variables Variables for substitution
+ * @param hookType Type of hook, recorded in the log (e.g., "post-checkout")
  * @returns The result of the hook execution
  */
-export async function executeHook(command: string, cwd: string, variables: HookVariables): Promise<HookResult> {
-  const expandedCommand = substituteVariables(command, variables);
+export async function executeHook(
+  hook: Hook,
+  cwd: string,
+  variables: HookVariables,
+  hookType: string = 'hook'
+): Promise<HookResult> {
+  const definition = normalizeHook(hook);
+  const expandedCommand = substituteVariables(definition.command, variables);
 
   console.log(`  ${output.dim('$')} ${output.dim(expandedCommand)}`);
 
+  // Resolve the working directory and environment for this hook
+  const hookCwd =
+    definition.cwd === 'worktree' ? variables.worktreePath : definition.cwd === 'gitRoot' ? variables.gitRoot : cwd;
+  const env = {
+    ...hookEnvironment(variables),
+    ...Object.fromEntries(
+      Object.entries(definition.env ?? {}).map(([key, value]) => [key, substituteVariables(value, variables)])
+    ),
+  };
+
   // Determine shell based on platform
   const shell = Deno.build.os === 'windows' ? 'cmd' : 'sh';
   const shellArgs = Deno.build.os === 'windows' ? ['/c', expandedCommand] : ['-c', expandedCommand];
 
-  const process = new Deno.Command(shell, {
-    args: shellArgs,
-    cwd,
-    stdout: 'inherit',
-    stderr: 'inherit',
+  const result: HookResult = {
+    success: false,
+    command: expandedCommand,
+    exitCode: -1,
+    durationMs: 0,
+    timedOut: false,
+  };
+  const logEntry = {
+    timestamp: new Date().toISOString(),
+    hookType,
+    command: expandedCommand,
+    cwd: hookCwd,
+    background: definition.background === true,
+  };
+
+  // Background hooks are started and left running; gw doesn't wait for them to exit
+  if (definition.background) {
+    let message = '';
+    try {
+      const child = new Deno.Command(shell, {
+        args: shellArgs,
+        cwd: hookCwd,
+        env,
+        stdin: 'null',
+        stdout: 'null',
+        stderr: 'null',
+      }).spawn();
+      child.unref();
+      Object.assign(result, { success: true, exitCode: 0, background: true });
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+      console.log(`  ${output.errorSymbol()} Failed to start hook: ${message}`);
+    }
+
+    await logHookRun(variables, {
+      ...logEntry,
+      exitCode: result.success ? null : result.exitCode,
+      durationMs: 0,
+      timedOut: false,
+      output: message,
+    });
+    return result;
+  }
+
+  const startTime = performance.now();
+  const collected: string[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  // In a terminal the hook gets gw's stdio (colors, progress bars and prompts keep working);
+  // otherwise its output is captured for the hook log and copied through
+  const captureOutput = !Deno.stdout.isTerminal();
+
+  try {
+    const child = new Deno.Command(shell, {
+      args: shellArgs,
+      cwd: hookCwd,
+      env,
+      stdout: captureOutput ? 'piped' : 'inherit',
+      stderr: captureOutput ? 'piped' : 'inherit',
+    }).spawn();
+
+    // Kill the hook when it exceeds its timeout
+    if (definition.timeout !== undefined) {
+      timer = setTimeout(() => {
+        result.timedOut = true;
+        killHookProcess(child.pid);
+      }, definition.timeout * 1000);
+    }
+
+    const readers = captureOutput ? [child.stdout.getReader(), child.stderr.getReader()] : [];
+    const tees = captureOutput
+      ? Promise.all([teeOutput(readers[0], Deno.stdout, collected), teeOutput(readers[1], Deno.stderr, collected)])
+      : Promise.resolve();
+
+    const { code } = await child.status;
+
+    // Processes started by a killed hook may still hold its output open
+    if (result.timedOut) {
+      await Promise.all(readers.map((reader) => reader.cancel()));
+    }
+    await tees;
+
+    result.exitCode = code;
+    result.success = code === 0 && !result.timedOut;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    collected.push(message);
+    console.log(`  ${output.errorSymbol()} Failed to start hook: ${message}`);
+  } finally {
+    clearTimeout(timer);
+    result.durationMs = Math.round(performance.now() - startTime);
+  }
+
+  await logHookRun(variables, {
+    ...logEntry,
+    exitCode: result.exitCode,
+    durationMs: result.durationMs,
+    timedOut: result.timedOut,
+    output: collected.join(''),
   });
 
-  const { code } = await process.output();
+  return result;
+}
 
-  return {
-    success: code === 0,
-    command: expandedCommand,
-    exitCode: code,
-  };
+/**
+ * List the processes started (directly or indirectly) by a process
+ */
+async function listDescendants(pid: number): Promise<number[]> {
+  const { stdout } = await new Deno.Command('ps', {
+    args: ['-A', '-o', 'pid=,ppid='],
+    stdout: 'piped',
+    stderr: 'null',
+  }).output();
+
+  const children = new Map<number, number[]>();
+  for (const line of new TextDecoder().decode(stdout).split('\n')) {
+    const [childPid, parentPid] = line.trim().split(/\s+/).map(Number);
+    if (!childPid || !parentPid) continue;
+    children.set(parentPid, [...(children.get(parentPid) ?? []), childPid]);
+  }
+
+  const descendants: number[] = [];
+  const queue = [pid];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift()!) ?? []) {
+      descendants.push(child);
+      queue.push(child);
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Stop a running hook along with the processes it started
+ * The hook stays in gw's process group and session, so it keeps its terminal and receives Ctrl+C.
+ */
+async function killHookProcess(pid: number): Promise<void> {
+  const pids = Deno.build.os === 'windows' ? [pid] : [pid, ...(await listDescendants(pid).catch(() => [] as number[]))];
+
+  for (const target of pids) {
+    try {
+      Deno.kill(target, 'SIGTERM');
+    } catch {
+      // The process already exited
+    }
+  }
+}
+
+/**
+ * Print the outcome of a hook
+ *
+ * @param result The hook result
+ * @param hook The hook definition (for timeout and continueOnError)
+ * @param showCommand Whether to include the command (used when hooks ran in parallel)
+ */
+function reportHookResult(result: HookResult, hook: HookDefinition, showCommand: boolean): void {
+  const suffix = showCommand ? ` ${output.dim(result.command)}` : '';
+
+  if (result.background) {
+    console.log(`  ${output.checkmark()} Hook started in background${suffix}`);
+    return;
+  }
+
+  if (result.success) {
+    console.log(
+      `  ${output.checkmark()} Hook completed successfully ${output.dim(`(${formatDuration(result.durationMs)})`)}${suffix}`
+    );
+    return;
+  }
+
+  const reason = result.timedOut
+    ? `Hook timed out after ${hook.timeout}s`
+    : `Hook failed with exit code ${result.exitCode}`;
+
+  if (hook.continueOnError) {
+    console.log(`  ${output.warningSymbol()} ${reason} (continuing)${suffix}`);
+  } else {
+    console.log(`  ${output.errorSymbol()} ${reason}${suffix}`);
+  }
 }
 
 /**
  * Execute a list of hooks
  *
- * @param hooks Array of hook commands to execute
+ * Hooks run one after another, except consecutive hooks that share a
+ * parallel group, which run concurrently. Failures of hooks with
+ * continueOnError are reported but don't count as a failure.
+ *
+ * @param hooks Array of hooks to execute
  * @param cwd The working directory to run hooks in
  * @param variables Variables for substitution
  * @param hookType Type of hook (for logging purposes, e.g., "pre-add", "post-add")
@@ -95,7 +498,7 @@ export async function executeHook(command: string, cwd: string, variables: HookV
  * @returns Array of hook results
  */
 export async function executeHooks(
-  hooks: string[],
+  hooks: Hook[],
   cwd: string,
   variables: HookVariables,
   hookType: string,
@@ -110,22 +513,53 @@ export async function executeHooks(
   const results: HookResult[] = [];
   let allSuccessful = true;
 
-  for (const hook of hooks) {
-    const result = await executeHook(hook, cwd, variables);
-    results.push(result);
+  for (const group of groupHooks(hooks)) {
+    const groupResults = await Promise.all(group.map((hook) => executeHook(hook, cwd, variables, hookType)));
+
+    let groupFailed = false;
+    groupResults.forEach((result, index) => {
+      results.push(result);
+      reportHookResult(result, group[index], group.length > 1);
 
-    if (!result.success) {
+      if (!result.success && !group[index].continueOnError) {
+        groupFailed = true;
+      }
+    });
+
+    if (groupFailed) {
       allSuccessful = false;
-      console.log(`  ${output.errorSymbol()} Hook failed with exit code ${result.exitCode}`);
 
       if (abortOnFailure) {
         break;
       }
-    } else {
-      console.log(`  ${output.checkmark()} Hook completed successfully`);
     }
   }
 
   console.log();
   return { results, allSuccessful };
 }
+
+/**
+ * Execute the pre or post hooks configured for a command
+ *
+ * Pre hooks stop at the first failure; post hooks run to completion.
+ * The caller decides whether a failure aborts the command or only warns.
+ *
+ * @param hooksConfig Hooks configuration (config.hooks)
+ * @param command The command whose hooks should run
+ * @param phase Whether to run the "pre" or "post" hooks
+ * @param cwd The working directory to run hooks in
+ * @param variables Variables for substitution
+ * @returns Whether all hooks succeeded (true if none are configured)
+ */
+export async function executeCommandHooks(
+  hooksConfig: HooksConfig | undefined,
+  command: HookCommand,
+  phase: 'pre' | 'post',
+  cwd: string,
+  variables: HookVariables
+): Promise<boolean> {
+  const hooks = hooksConfig?.[command]?.[phase] ?? [];
+  const { allSuccessful } = await executeHooks(hooks, cwd, variables, `${phase}-${command}`, phase === 'pre');
+  return allSuccessful;
+}
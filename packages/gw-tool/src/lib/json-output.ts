@@ -0,0 +1,32 @@
+/**
+ * Helpers for machine-readable --json output
+ * The output schema is documented in types.ts
+ */
+
+import type { WorktreeInfo } from './git-utils.ts';
+import type { JsonOutputBase, JsonWorktree } from './types.ts';
+
+/**
+ * Current version of the JSON output schema
+ */
+export const JSON_SCHEMA_VERSION = 1 as const;
+
+/**
+ * Print a JSON output object to stdout
+ */
+export function printJson(payload: JsonOutputBase): void {
+  console.log(JSON.stringify(payload, null, 2));
+}
+
+/**
+ * Convert worktree metadata to its JSON representation
+ */
+export function toJsonWorktree(worktree: WorktreeInfo): JsonWorktree {
+  return {
+    path: worktree.path,
+    branch: worktree.branch || null,
+    head: worktree.head,
+    bare: worktree.bare,
+    locked: worktree.locked,
+  };
+}
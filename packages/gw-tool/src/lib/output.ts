@@ -120,6 +120,20 @@ export function dim(text: string): string {
   return `${colors.dim}${text}${colors.reset}`;
 }
 
+/**
+ * Format green text
+ */
+export function green(text: string): string {
+  return colorize(text, 'green');
+}
+
+/**
+ * Format yellow text
+ */
+export function yellow(text: string): string {
+  return colorize(text, 'yellow');
+}
+
 /**
  * Colorize git diff stats (green for +, red for -)
  */
@@ -136,3 +150,29 @@ export function colorizeFileStat(fileStat: string): string {
 
   return result;
 }
+
+/**
+ * Get the visible length of a string (ignoring ANSI color codes)
+ */
+function visibleLength(text: string): number {
+  // deno-lint-ignore no-control-regex
+  return text.replace(/\x1b\[[0-9;]*m/g, '').length;
+}
+
+/**
+ * Format rows as an aligned table with a bold header row
+ * Column widths are computed from visible text, so colored cells align correctly
+ */
+export function table(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, col) =>
+    Math.max(visibleLength(header), ...rows.map((row) => visibleLength(row[col] ?? '')))
+  );
+
+  const formatRow = (cells: string[]) =>
+    cells
+      .map((cell, col) => (col < cells.length - 1 ? cell + ' '.repeat(widths[col] - visibleLength(cell)) : cell))
+      .join('  ')
+      .trimEnd();
+
+  return [bold(formatRow(headers)), ...rows.map((row) => formatRow(row))].join('\n');
+}
@@ -0,0 +1,83 @@
+/**
+ * Tests for picker.ts
+ */
+
+import { assertEquals } from '$std/assert';
+import {
+  applyPickerInput,
+  applyPickerKey,
+  filterPickerItems,
+  fuzzyScore,
+  parsePickerKeys,
+  type PickerState,
+} from './picker.ts';
+
+Deno.test('fuzzyScore - matches characters in order and prefers word starts', () => {
+  assertEquals(fuzzyScore('fa', 'feat-auth') !== null, true);
+  assertEquals(fuzzyScore('af', 'feat'), null);
+  assertEquals(fuzzyScore('auth', 'feat-auth')! > fuzzyScore('auth', 'feat-axuxtxh')!, true);
+});
+
+Deno.test('filterPickerItems - sorts by best match and keeps all items for an empty query', () => {
+  const items = [
+    { label: 'feat-login', value: 1 },
+    { label: 'fix-oauth', detail: 'hotfix/oauth', value: 2 },
+    { label: 'auth-refactor', value: 3 },
+  ];
+
+  assertEquals(
+    filterPickerItems(items, '').map((item) => item.value),
+    [1, 2, 3]
+  );
+  assertEquals(
+    filterPickerItems(items, 'auth').map((item) => item.value),
+    [3, 2]
+  );
+  assertEquals(
+    filterPickerItems(items, 'hotfix').map((item) => item.value),
+    [2]
+  );
+});
+
+Deno.test('parsePickerKeys - decodes arrows, editing keys and typed text', () => {
+  assertEquals(parsePickerKeys('ab\x1b[A\x1b[B\x7f\r'), [
+    { type: 'text', text: 'ab' },
+    { type: 'up' },
+    { type: 'down' },
+    { type: 'backspace' },
+    { type: 'enter' },
+  ]);
+  // Other escape sequences are ignored, a lone Esc cancels
+  assertEquals(parsePickerKeys('\x1b[C\x1b[1;5Dx'), [{ type: 'text', text: 'x' }]);
+  assertEquals(parsePickerKeys('\x1b'), [{ type: 'cancel' }]);
+});
+
+Deno.test('applyPickerKey - moves through matches and resets the selection when filtering', () => {
+  let state: PickerState = { query: '', index: 0 };
+
+  state = applyPickerKey(state, { type: 'up' }, 3).state;
+  assertEquals(state.index, 2);
+  state = applyPickerKey(state, { type: 'down' }, 3).state;
+  assertEquals(state.index, 0);
+
+  state = applyPickerKey({ query: 'fe', index: 2 }, { type: 'text', text: 'a' }, 3).state;
+  assertEquals(state, { query: 'fea', index: 0 });
+
+  assertEquals(applyPickerKey(state, { type: 'enter' }, 0).done, undefined);
+  assertEquals(applyPickerKey(state, { type: 'enter' }, 1).done, 'select');
+  assertEquals(applyPickerKey(state, { type: 'cancel' }, 1).done, 'cancel');
+});
+
+Deno.test('applyPickerInput - selects from the matches of a query typed together with Enter', () => {
+  const items = [
+    { label: 'main', value: 'main' },
+    { label: 'fix-login', value: 'fix-login' },
+    { label: 'feat-login', value: 'feat-login' },
+  ];
+
+  const result = applyPickerInput(items, { query: '', index: 0 }, 'feat\r');
+  assertEquals(result.done, 'select');
+  assertEquals(result.value, 'feat-login');
+
+  assertEquals(applyPickerInput(items, { query: '', index: 0 }, 'zzz\r'), { state: { query: 'zzz', index: 0 } });
+});
@@ -0,0 +1,317 @@
+/**
+ * Interactive fuzzy picker
+ * Lets the user choose a worktree (or any other item) in the terminal: type to filter,
+ * arrow keys to move, Enter to select, Esc or Ctrl+C to cancel. The picker is drawn on
+ * the terminal itself, so it also works when stdout and stderr are captured (e.g., by the
+ * shell integration of 'gw cd').
+ */
+
+import { relative } from '$std/path';
+import { hasUncommittedChanges, type WorktreeInfo } from './git-utils.ts';
+import * as output from './output.ts';
+
+/** Maximum number of items shown at once */
+const MAX_VISIBLE_ITEMS = 10;
+
+/** Exit code of a command whose picker was cancelled (like Ctrl+C in a shell) */
+export const PICKER_CANCELLED_EXIT_CODE = 130;
+
+/**
+ * An item the user can pick
+ */
+export interface PickerItem<T> {
+  /** Text that is matched against the query */
+  label: string;
+  /** Extra text shown after the label (also matched) */
+  detail?: string;
+  value: T;
+}
+
+/**
+ * State of the picker: the query typed so far and the highlighted match
+ */
+export interface PickerState {
+  query: string;
+  index: number;
+}
+
+/**
+ * Key pressed in the picker
+ */
+export type PickerKey =
+  | { type: 'up' }
+  | { type: 'down' }
+  | { type: 'enter' }
+  | { type: 'cancel' }
+  | { type: 'backspace' }
+  | { type: 'text'; text: string };
+
+/**
+ * Whether the picker can be shown (stdin is a terminal)
+ */
+export function isInteractive(): boolean {
+  return Deno.stdin.isTerminal();
+}
+
+/**
+ * Open the terminal to draw the picker on, falling back to stderr
+ */
+function openTerminal(): { writeSync(data: Uint8Array): number; close(): void } {
+  try {
+    return Deno.openSync('/dev/tty', { write: true });
+  } catch {
+    return { writeSync: (data) => Deno.stderr.writeSync(data), close: () => {} };
+  }
+}
+
+/**
+ * Score how well a query matches a text: the query's characters must appear in order
+ * (case-insensitive). Consecutive characters and matches at word starts score higher.
+ *
+ * @returns The score (higher is better), or null if the text doesn't match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let position = -1;
+
+  for (const char of needle) {
+    const next = haystack.indexOf(char, position + 1);
+    if (next === -1) return null;
+
+    if (next === position + 1) score += 2;
+    if (next === 0 || /[/\-_. ]/.test(haystack[next - 1])) score += 3;
+    score += 1;
+    position = next;
+  }
+
+  // Prefer shorter texts when scores tie
+  return score - text.length / 1000;
+}
+
+/**
+ * Filter items by a query, best matches first (all items, in order, for an empty query)
+ */
+export function filterPickerItems<T>(items: PickerItem<T>[], query: string): PickerItem<T>[] {
+  if (!query) return items;
+
+  return items
+    .map((item) => {
+      const scores = [fuzzyScore(query, item.label), item.detail ? fuzzyScore(query, item.detail) : null];
+      const matched = scores.filter((score): score is number => score !== null);
+      return { item, score: matched.length > 0 ? Math.max(...matched) : null };
+    })
+    .filter((match): match is { item: PickerItem<T>; score: number } => match.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((match) => match.item);
+}
+
+/**
+ * Decode raw terminal input into picker keys
+ */
+export function parsePickerKeys(input: string): PickerKey[] {
+  const keys: PickerKey[] = [];
+  let text = '';
+
+  const flushText = () => {
+    if (text) keys.push({ type: 'text', text });
+    text = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    const sequence = input.slice(i, i + 3);
+    let key: PickerKey | undefined;
+
+    if (sequence === '\x1b[A' || sequence === '\x1bOA') {
+      key = { type: 'up' };
+      i += 2;
+    } else if (sequence === '\x1b[B' || sequence === '\x1bOB') {
+      key = { type: 'down' };
+      i += 2;
+    } else if (char === '\x1b' && (input[i + 1] === '[' || input[i + 1] === 'O')) {
+      // Ignore other escape sequences (e.g., left/right arrows): skip to their final byte
+      i += 2;
+      while (i < input.length && /[0-9;]/.test(input[i])) i++;
+      continue;
+    } else if (char === '\x10') {
+      key = { type: 'up' }; // Ctrl+P
+    } else if (char === '\x0e') {
+      key = { type: 'down' }; // Ctrl+N
+    } else if (char === '\r' || char === '\n') {
+      key = { type: 'enter' };
+    } else if (char === '\x03' || char === '\x1b') {
+      key = { type: 'cancel' }; // Ctrl+C or Esc
+    } else if (char === '\x7f' || char === '\b') {
+      key = { type: 'backspace' };
+    } else if (char >= ' ') {
+      text += char;
+    }
+
+    if (key) {
+      flushText();
+      keys.push(key);
+    }
+  }
+
+  flushText();
+  return keys;
+}
+
+/**
+ * Apply a key to the picker state
+ *
+ * @param state Current state
+ * @param key Pressed key
+ * @param matchCount Number of items matching the current query
+ * @returns The new state, and whether the user selected or cancelled
+ */
+export function applyPickerKey(
+  state: PickerState,
+  key: PickerKey,
+  matchCount: number
+): { state: PickerState; done?: 'select' | 'cancel' } {
+  switch (key.type) {
+    case 'up':
+      return { state: { ...state, index: matchCount > 0 ? (state.index - 1 + matchCount) % matchCount : 0 } };
+    case 'down':
+      return { state: { ...state, index: matchCount > 0 ? (state.index + 1) % matchCount : 0 } };
+    case 'enter':
+      return { state, done: matchCount > 0 ? 'select' : undefined };
+    case 'cancel':
+      return { state, done: 'cancel' };
+    case 'backspace':
+      return { state: { query: state.query.slice(0, -1), index: 0 } };
+    case 'text':
+      return { state: { query: state.query + key.text, index: 0 } };
+  }
+}
+
+/**
+ * Apply a chunk of terminal input to the picker state
+ * The matches are filtered again after every key, so a query typed or pasted together with
+ * Enter selects from the matches of the full query.
+ *
+ * @param items All items of the picker
+ * @param state Current state
+ * @param input Raw terminal input (may hold several keys)
+ * @returns The new state, and the picked value when the user selected or cancelled
+ */
+export function applyPickerInput<T>(
+  items: PickerItem<T>[],
+  state: PickerState,
+  input: string
+): { state: PickerState; done?: 'select' | 'cancel'; value?: T } {
+  for (const key of parsePickerKeys(input)) {
+    const matches = filterPickerItems(items, state.query);
+    const result = applyPickerKey(state, key, matches.length);
+    if (result.done === 'select') return { state, done: 'select', value: matches[state.index].value };
+    if (result.done === 'cancel') return { state, done: 'cancel' };
+    state = result.state;
+  }
+
+  return { state };
+}
+
+/**
+ * Render the picker as lines of text
+ */
+function renderPicker<T>(message: string, state: PickerState, matches: PickerItem<T>[]): string[] {
+  const lines = [`${output.bold('?')} ${message} ${output.dim('›')} ${state.query}`];
+
+  // Keep the highlighted item in view
+  const start = Math.max(0, Math.min(state.index - MAX_VISIBLE_ITEMS + 1, matches.length - MAX_VISIBLE_ITEMS));
+  const visible = matches.slice(start, start + MAX_VISIBLE_ITEMS);
+  const width = Math.max(0, ...visible.map((item) => item.label.length));
+
+  for (const [offset, item] of visible.entries()) {
+    const selected = start + offset === state.index;
+    const label = item.label.padEnd(width);
+    const detail = item.detail ? `  ${output.dim(item.detail)}` : '';
+    lines.push(selected ? `${output.bold(`❯ ${label}`)}${detail}` : `  ${label}${detail}`);
+  }
+
+  if (matches.length === 0) {
+    lines.push(output.dim('  No matches'));
+  } else if (matches.length > visible.length) {
+    lines.push(output.dim(`  ${matches.length - visible.length} more...`));
+  }
+
+  return lines;
+}
+
+/**
+ * Let the user pick an item in the terminal
+ * Only call this when isInteractive() is true.
+ *
+ * @param items Items to pick from
+ * @param options Prompt message and initial query
+ * @returns The picked value, or null if the user cancelled
+ */
+export async function pick<T>(items: PickerItem<T>[], options: { message: string; query?: string }): Promise<T | null> {
+  const encoder = new TextEncoder();
+  const terminal = openTerminal();
+  const write = (text: string) => terminal.writeSync(encoder.encode(text));
+  const buffer = new Uint8Array(64);
+
+  let state: PickerState = { query: options.query ?? '', index: 0 };
+  let renderedLines = 0;
+
+  const clear = () => {
+    if (renderedLines > 1) write(`\x1b[${renderedLines - 1}A`);
+    write('\r\x1b[J');
+  };
+
+  Deno.stdin.setRaw(true);
+  write('\x1b[?25l'); // Hide the cursor
+
+  try {
+    while (true) {
+      const matches = filterPickerItems(items, state.query);
+      const lines = renderPicker(options.message, state, matches);
+      clear();
+      write(lines.join('\n'));
+      renderedLines = lines.length;
+
+      const bytesRead = await Deno.stdin.read(buffer);
+      if (bytesRead === null) return null;
+
+      const result = applyPickerInput(items, state, new TextDecoder().decode(buffer.subarray(0, bytesRead)));
+      if (result.done === 'select') return result.value!;
+      if (result.done === 'cancel') return null;
+      state = result.state;
+    }
+  } finally {
+    clear();
+    write('\x1b[?25h');
+    terminal.close();
+    Deno.stdin.setRaw(false);
+  }
+}
+
+/**
+ * Let the user pick a worktree, showing its branch, path and dirty state
+ * Only call this when isInteractive() is true.
+ *
+ * @param worktrees Worktrees to pick from
+ * @param options Prompt message, initial query, and the git root to show paths relative to
+ * @returns The picked worktree, or null if the user cancelled
+ */
+export async function pickWorktree<W extends Pick<WorktreeInfo, 'path' | 'branch'>>(
+  worktrees: W[],
+  options: { message: string; query?: string; gitRoot?: string }
+): Promise<W | null> {
+  const dirty = await Promise.all(worktrees.map((wt) => hasUncommittedChanges(wt.path)));
+
+  const items = worktrees.map((wt, index) => {
+    const path = options.gitRoot ? relative(options.gitRoot, wt.path) || '.' : wt.path;
+    return {
+      label: wt.branch || '(detached)',
+      detail: `${path}${dirty[index] ? '  dirty' : ''}`,
+      value: wt,
+    };
+  });
+
+  return await pick(items, options);
+}
@@ -0,0 +1,85 @@
+/**
+ * Tests for ports.ts
+ */
+
+import { assertEquals, assertRejects } from '$std/assert';
+import { join } from '$std/path';
+import { allocatePorts, getAllocatedPort, getNamedPorts, movePorts, readPortRegistry, releasePorts } from './ports.ts';
+import { GitTestRepo } from '../test-utils/git-test-repo.ts';
+
+Deno.test('allocatePorts - gives each worktree a unique, stable range', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await Deno.mkdir(join(repo.path, 'feat-a'));
+    await Deno.mkdir(join(repo.path, 'feat-b'));
+
+    const ports = { base: 4000, rangeSize: 5 };
+    assertEquals(await allocatePorts(repo.path, ports, 'feat-a'), 4000);
+    assertEquals(await allocatePorts(repo.path, ports, 'feat-b'), 4005);
+
+    // Allocating again returns the existing range
+    assertEquals(await allocatePorts(repo.path, ports, 'feat-a'), 4000);
+    assertEquals(await getAllocatedPort(repo.path, 'feat-b'), 4005);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('allocatePorts - reuses released and stale ranges', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await Deno.mkdir(join(repo.path, 'feat-a'));
+    await Deno.mkdir(join(repo.path, 'feat-b'));
+
+    const ports = {};
+    await allocatePorts(repo.path, ports, 'feat-a');
+    await allocatePorts(repo.path, ports, 'feat-b');
+
+    assertEquals(await releasePorts(repo.path, 'feat-a'), true);
+    assertEquals(await releasePorts(repo.path, 'feat-a'), false);
+    await Deno.mkdir(join(repo.path, 'feat-c'));
+    assertEquals(await allocatePorts(repo.path, ports, 'feat-c'), 3000);
+
+    // feat-b was deleted without gw, so its range is freed on the next allocation
+    await Deno.remove(join(repo.path, 'feat-b'));
+    assertEquals(await allocatePorts(repo.path, ports, 'feat-d'), 3010);
+    assertEquals(await readPortRegistry(repo.path), { 'feat-c': 3000, 'feat-d': 3010 });
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('allocatePorts - fails when no range is left', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await Deno.mkdir(join(repo.path, 'feat-a'));
+
+    const ports = { base: 65530, rangeSize: 5 };
+    await allocatePorts(repo.path, ports, 'feat-a');
+    await assertRejects(() => allocatePorts(repo.path, ports, 'feat-b'), Error, 'No free port range left');
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('movePorts - keeps the range under the new name', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    await allocatePorts(repo.path, {}, 'feat-a');
+    await movePorts(repo.path, 'feat-a', 'feat-renamed');
+
+    assertEquals(await readPortRegistry(repo.path), { 'feat-renamed': 3000 });
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('getNamedPorts - resolves offsets within the range', () => {
+  assertEquals(getNamedPorts({ named: { web: 0, api: 1 } }, 3010), { web: 3010, api: 3011 });
+  assertEquals(getNamedPorts({}, 3010), {});
+});
@@ -0,0 +1,156 @@
+/**
+ * Per-worktree port allocation
+ * Each worktree gets a stable, unique port range recorded in .gw/ports.json
+ */
+
+import { join } from '$std/path';
+import { pathExists } from './path-resolver.ts';
+import type { PortsConfig } from './types.ts';
+
+/** First port handed out when ports.base isn't configured */
+export const DEFAULT_PORT_BASE = 3000;
+
+/** Number of ports per worktree when ports.rangeSize isn't configured */
+export const DEFAULT_PORT_RANGE_SIZE = 10;
+
+/** Highest valid TCP port */
+const MAX_PORT = 65535;
+
+/**
+ * Port registry: first port of each worktree's range, keyed by worktree name
+ * (path relative to the git root)
+ */
+export type PortRegistry = Record<string, number>;
+
+/**
+ * Get the path of the port registry
+ */
+function getPortRegistryPath(gitRoot: string): string {
+  return join(gitRoot, '.gw', 'ports.json');
+}
+
+/**
+ * Read the port registry (empty if it doesn't exist yet)
+ *
+ * @param gitRoot Root of the git repository
+ */
+export async function readPortRegistry(gitRoot: string): Promise<PortRegistry> {
+  try {
+    return JSON.parse(await Deno.readTextFile(getPortRegistryPath(gitRoot))) as PortRegistry;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write the port registry
+ */
+async function writePortRegistry(gitRoot: string, registry: PortRegistry): Promise<void> {
+  await Deno.mkdir(join(gitRoot, '.gw'), { recursive: true });
+  await Deno.writeTextFile(getPortRegistryPath(gitRoot), JSON.stringify(registry, null, 2) + '\n');
+}
+
+/**
+ * Allocate a port range for a worktree
+ * Returns the existing range if the worktree already has one. Ranges of
+ * worktrees whose directories no longer exist are freed first.
+ *
+ * @param gitRoot Root of the git repository
+ * @param ports Ports configuration
+ * @param worktree Worktree name (path relative to the git root)
+ * @returns The first port of the worktree's range
+ */
+export async function allocatePorts(gitRoot: string, ports: PortsConfig, worktree: string): Promise<number> {
+  const registry = await readPortRegistry(gitRoot);
+
+  if (registry[worktree] !== undefined) {
+    return registry[worktree];
+  }
+
+  // Free ranges of worktrees that were removed without gw (e.g., rm -rf)
+  for (const name of Object.keys(registry)) {
+    if (!(await pathExists(join(gitRoot, name)))) {
+      delete registry[name];
+    }
+  }
+
+  const base = ports.base ?? DEFAULT_PORT_BASE;
+  const rangeSize = ports.rangeSize ?? DEFAULT_PORT_RANGE_SIZE;
+  const used = Object.values(registry);
+
+  // Take the first slot that doesn't overlap another worktree's range
+  let start = base;
+  while (used.some((usedStart) => Math.abs(usedStart - start) < rangeSize)) {
+    start += rangeSize;
+  }
+
+  if (start + rangeSize - 1 > MAX_PORT) {
+    throw new Error(`No free port range left (base ${base}, ${rangeSize} ports per worktree)`);
+  }
+
+  registry[worktree] = start;
+  await writePortRegistry(gitRoot, registry);
+
+  return start;
+}
+
+/**
+ * Get the first port of a worktree's range, if it has one
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ */
+export async function getAllocatedPort(gitRoot: string, worktree: string): Promise<number | undefined> {
+  return (await readPortRegistry(gitRoot))[worktree];
+}
+
+/**
+ * Free a worktree's port range
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ * @returns Whether the worktree had a port range
+ */
+export async function releasePorts(gitRoot: string, worktree: string): Promise<boolean> {
+  const registry = await readPortRegistry(gitRoot);
+
+  if (registry[worktree] === undefined) {
+    return false;
+  }
+
+  delete registry[worktree];
+  await writePortRegistry(gitRoot, registry);
+  return true;
+}
+
+/**
+ * Keep a worktree's port range when it is moved
+ *
+ * @param gitRoot Root of the git repository
+ * @param from Old worktree name (path relative to the git root)
+ * @param to New worktree name (path relative to the git root)
+ */
+export async function movePorts(gitRoot: string, from: string, to: string): Promise<void> {
+  const registry = await readPortRegistry(gitRoot);
+
+  if (registry[from] === undefined) {
+    return;
+  }
+
+  registry[to] = registry[from];
+  delete registry[from];
+  await writePortRegistry(gitRoot, registry);
+}
+
+/**
+ * Resolve the named ports of a range (e.g., { api: 3011 } for start 3010 and named.api = 1)
+ *
+ * @param ports Ports configuration
+ * @param start First port of the range
+ */
+export function getNamedPorts(ports: PortsConfig, start: number): Record<string, number> {
+  return Object.fromEntries(Object.entries(ports.named ?? {}).map(([name, offset]) => [name, start + offset]));
+}
@@ -4,10 +4,12 @@
  */
 
 import { join } from '$std/path';
+import { recordNavigation } from './frecency.ts';
 
 /**
  * Signal to shell integration that it should navigate to a path
- * This writes to a temp file instead of stdout to avoid buffering
+ * This writes to a temp file instead of stdout to avoid buffering.
+ * The navigation is also recorded for frecency ranking in 'gw cd'.
  */
 export async function signalNavigation(targetPath: string): Promise<void> {
   const home = Deno.env.get('HOME') || Deno.env.get('USERPROFILE') || '';
@@ -23,4 +25,6 @@ export async function signalNavigation(targetPath: string): Promise<void> {
 
   // Write navigation target to file
   await Deno.writeTextFile(navFile, targetPath);
+
+  await recordNavigation(targetPath);
 }
@@ -0,0 +1,83 @@
+/**
+ * Tests for sync-state.ts
+ */
+
+import { assertEquals } from '$std/assert';
+import { join } from '$std/path';
+import {
+  clearSyncState,
+  getSyncedHashes,
+  hashContent,
+  hashFile,
+  moveSyncState,
+  recordCopyResults,
+  recordSyncedHashes,
+} from './sync-state.ts';
+import { GitTestRepo } from '../test-utils/git-test-repo.ts';
+
+Deno.test('hashFile - hashes file content and returns null for missing files', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createFile('.env', 'KEY=value\n');
+
+    assertEquals(await hashFile(join(repo.path, '.env')), await hashContent(new TextEncoder().encode('KEY=value\n')));
+    assertEquals(await hashFile(join(repo.path, 'missing')), null);
+    assertEquals(
+      await hashContent(new Uint8Array()),
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('recordSyncedHashes - merges, moves and clears hashes per worktree', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    await recordSyncedHashes(repo.path, 'feat', { '.env': 'a' });
+    await recordSyncedHashes(repo.path, 'feat', { 'secrets/key.pem': 'b' });
+    await recordSyncedHashes(repo.path, 'other', { '.env': 'c' });
+    assertEquals(await getSyncedHashes(repo.path, 'feat'), { '.env': 'a', 'secrets/key.pem': 'b' });
+
+    await moveSyncState(repo.path, 'feat', 'renamed');
+    assertEquals(await getSyncedHashes(repo.path, 'feat'), {});
+    assertEquals(await getSyncedHashes(repo.path, 'renamed'), { '.env': 'a', 'secrets/key.pem': 'b' });
+
+    await clearSyncState(repo.path, 'renamed');
+    assertEquals(await getSyncedHashes(repo.path, 'renamed'), {});
+    assertEquals(await getSyncedHashes(repo.path, 'other'), { '.env': 'c' });
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('recordCopyResults - records copied files, skipping symlinks and failures', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await repo.createFile('feat/.env', 'A=1\n');
+    await repo.createFile('feat/config/app.json', '{}');
+    await repo.createFile('feat/.env.local', 'rendered\n');
+    await repo.createFile('feat/linked', 'shared');
+
+    await recordCopyResults(repo.path, 'feat', join(repo.path, 'feat'), [
+      { path: '.env', success: true, message: 'Copied: .env' },
+      { path: 'config', success: true, message: 'Copied: config' },
+      { path: '.env.local.template', success: true, message: 'Rendered: .env.local' },
+      { path: 'linked', success: true, mode: 'symlink', message: 'Symlinked: linked' },
+      { path: 'missing', success: false, message: 'Not found: missing' },
+      { path: '**/*.pem', success: true, skipped: true, message: 'No files match: **/*.pem' },
+    ]);
+
+    assertEquals(Object.keys(await getSyncedHashes(repo.path, 'feat')), ['.env', 'config/app.json', '.env.local']);
+    assertEquals(
+      (await getSyncedHashes(repo.path, 'feat'))['.env'],
+      await hashContent(new TextEncoder().encode('A=1\n'))
+    );
+  } finally {
+    await repo.cleanup();
+  }
+});
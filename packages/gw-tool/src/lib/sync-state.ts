@@ -0,0 +1,167 @@
+/**
+ * Sync state tracking
+ * Records the content hash of every file gw copied into a worktree in .gw/sync-state.json,
+ * so later syncs can tell whether the copy in the worktree was modified locally
+ */
+
+import { join } from '$std/path';
+import { listFiles, TEMPLATE_SUFFIX } from './file-ops.ts';
+import type { CopyResult } from './types.ts';
+
+/**
+ * Sync state: content hashes of the files last synced, per worktree
+ * (worktree name -> relative file path -> SHA-256 hex digest)
+ */
+export type SyncState = Record<string, Record<string, string>>;
+
+/**
+ * Get the path of the sync state file
+ */
+function getSyncStatePath(gitRoot: string): string {
+  return join(gitRoot, '.gw', 'sync-state.json');
+}
+
+/**
+ * Hash content with SHA-256
+ *
+ * @returns Hex digest
+ */
+export async function hashContent(content: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', content);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash a file's content with SHA-256
+ *
+ * @returns Hex digest, or null if the file doesn't exist
+ */
+export async function hashFile(path: string): Promise<string | null> {
+  try {
+    return await hashContent(await Deno.readFile(path));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound || error instanceof Deno.errors.IsADirectory) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the sync state (empty if it doesn't exist yet)
+ *
+ * @param gitRoot Root of the git repository
+ */
+export async function readSyncState(gitRoot: string): Promise<SyncState> {
+  try {
+    return JSON.parse(await Deno.readTextFile(getSyncStatePath(gitRoot))) as SyncState;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the hashes of the files last synced into (or back from) a worktree
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ */
+export async function getSyncedHashes(gitRoot: string, worktree: string): Promise<Record<string, string>> {
+  return (await readSyncState(gitRoot))[worktree] ?? {};
+}
+
+/**
+ * Record the hashes of files that were just synced
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ * @param hashes Relative file path -> content hash after the sync
+ */
+export async function recordSyncedHashes(
+  gitRoot: string,
+  worktree: string,
+  hashes: Record<string, string>
+): Promise<void> {
+  if (Object.keys(hashes).length === 0) {
+    return;
+  }
+
+  const state = await readSyncState(gitRoot);
+  state[worktree] = { ...state[worktree], ...hashes };
+
+  await Deno.mkdir(join(gitRoot, '.gw'), { recursive: true });
+  await Deno.writeTextFile(getSyncStatePath(gitRoot), JSON.stringify(state, null, 2) + '\n');
+}
+
+/**
+ * Record the files copied by copyFiles, so a later 'gw sync' can detect local changes
+ * Symlinked paths are skipped (they are shared with the source, not copies).
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ * @param targetRoot Root directory the files were copied to
+ * @param results Results returned by copyFiles
+ */
+export async function recordCopyResults(
+  gitRoot: string,
+  worktree: string,
+  targetRoot: string,
+  results: CopyResult[]
+): Promise<void> {
+  const hashes: Record<string, string> = {};
+
+  for (const result of results) {
+    if (!result.success || result.skipped || result.mode === 'symlink') continue;
+
+    // Templates are written without their suffix
+    const path = result.path.endsWith(TEMPLATE_SUFFIX) ? result.path.slice(0, -TEMPLATE_SUFFIX.length) : result.path;
+
+    for (const file of await listFiles(targetRoot, path)) {
+      const hash = await hashFile(join(targetRoot, file));
+      if (hash) {
+        hashes[file] = hash;
+      }
+    }
+  }
+
+  await recordSyncedHashes(gitRoot, worktree, hashes);
+}
+
+/**
+ * Keep a worktree's sync state when it is moved
+ *
+ * @param gitRoot Root of the git repository
+ * @param from Old worktree name (path relative to the git root)
+ * @param to New worktree name (path relative to the git root)
+ */
+export async function moveSyncState(gitRoot: string, from: string, to: string): Promise<void> {
+  const state = await readSyncState(gitRoot);
+
+  if (state[from] === undefined) {
+    return;
+  }
+
+  state[to] = state[from];
+  delete state[from];
+  await Deno.writeTextFile(getSyncStatePath(gitRoot), JSON.stringify(state, null, 2) + '\n');
+}
+
+/**
+ * Forget the sync state of a worktree (e.g., after it was removed)
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ */
+export async function clearSyncState(gitRoot: string, worktree: string): Promise<void> {
+  const state = await readSyncState(gitRoot);
+
+  if (state[worktree] === undefined) {
+    return;
+  }
+
+  delete state[worktree];
+  await Deno.writeTextFile(getSyncStatePath(gitRoot), JSON.stringify(state, null, 2) + '\n');
+}
@@ -2,14 +2,39 @@
  * Type definitions for the gw CLI tool
  */
 
+/**
+ * A hook with per-hook options (object form)
+ */
+export interface HookDefinition {
+  /** Shell command to run (supports variable substitution) */
+  command: string;
+  /** Directory to run in (defaults to the directory of the hook phase) */
+  cwd?: 'worktree' | 'gitRoot';
+  /** Extra environment variables (values support variable substitution) */
+  env?: Record<string, string>;
+  /** Kill the hook after this many seconds and treat it as failed */
+  timeout?: number;
+  /** Don't fail the phase (or abort the command) when this hook fails */
+  continueOnError?: boolean;
+  /** Consecutive hooks with the same group name run concurrently */
+  parallel?: string;
+  /** Start the hook without waiting for it to finish */
+  background?: boolean;
+}
+
+/**
+ * A hook: either a plain shell command or a command with options
+ */
+export type Hook = string | HookDefinition;
+
 /**
  * Hook configuration for a command
  */
 export interface CommandHooks {
   /** Commands to run before the main command executes */
-  pre?: string[];
+  pre?: Hook[];
   /** Commands to run after the main command completes successfully */
-  post?: string[];
+  post?: Hook[];
 }
 
 /**
@@ -18,12 +43,118 @@ export interface CommandHooks {
 export interface HooksConfig {
   /** Hooks for the checkout command */
   checkout?: CommandHooks;
+  /** Hooks for the pr command */
+  pr?: CommandHooks;
+  /** Hooks for the remove command */
+  remove?: CommandHooks;
+  /** Hooks for the update command */
+  update?: CommandHooks;
+  /** Hooks for the pull command */
+  pull?: CommandHooks;
+  /** Hooks for the sync command */
+  sync?: CommandHooks;
+  /** Hooks for the clean command (run for each removed worktree) */
+  clean?: CommandHooks;
+  /** Hooks for the move command */
+  move?: CommandHooks;
+}
+
+/**
+ * Name of a command that supports hooks
+ */
+export type HookCommand = keyof HooksConfig;
+
+/**
+ * Per-worktree port allocation settings
+ */
+export interface PortsConfig {
+  /** First port handed out (default: 3000) */
+  base?: number;
+  /** Number of ports reserved per worktree (default: 10) */
+  rangeSize?: number;
+  /** Named ports as offsets within a worktree's range (e.g., { "api": 1 }) */
+  named?: Record<string, number>;
+}
+
+/**
+ * How a path is brought into the target worktree
+ * - copy: independent copy (default)
+ * - symlink: symbolic link to the source worktree's path (shared)
+ * - hardlink: hard links to the source files (shared content, no extra disk space)
+ * - reflink: copy-on-write clone where the filesystem supports it, otherwise a copy
+ */
+export type CopyMode = 'copy' | 'symlink' | 'hardlink' | 'reflink';
+
+/**
+ * An autoCopyFiles entry with options (object form)
+ */
+export interface CopyFileEntry {
+  /** Relative path or glob pattern */
+  path: string;
+  /** How matched paths are copied (default: "copy") */
+  mode?: CopyMode;
+}
+
+/**
+ * An autoCopyFiles entry: either a plain path (or glob pattern) or a path with options
+ */
+export type CopyFile = string | CopyFileEntry;
+
+/**
+ * Remotes used for fork workflows
+ */
+export interface RemotesConfig {
+  /** Remote the default branch and other shared branches are fetched from (default: "origin") */
+  base?: string;
+  /** Remote your own branches are pushed to and tracked on (default: "origin") */
+  push?: string;
+}
+
+/**
+ * Settings overridden for worktrees whose branch matches a glob pattern
+ */
+export interface ConfigOverride {
+  /** Branch glob pattern (e.g., "release/*"); "*" doesn't cross "/", "**" does */
+  branch: string;
+  /** Replaces autoCopyFiles */
+  autoCopyFiles?: CopyFile[];
+  /** Replaces the hooks of each command phase it sets (e.g., hooks.checkout.post) */
+  hooks?: HooksConfig;
+  /** Replaces cleanThreshold */
+  cleanThreshold?: number;
+  /** Replaces updateStrategy */
+  updateStrategy?: 'merge' | 'rebase';
+  /** Replaces defaultBranch */
+  defaultBranch?: string;
+}
+
+/**
+ * A named recipe for worktrees created with 'gw checkout <name> --template <template>'
+ */
+export interface WorktreeTemplate {
+  /**
+   * Branch or ref new branches start from (default: defaultBranch); a tag pattern
+   * (e.g., "v*") starts from the latest matching tag
+   */
+  from?: string;
+  /** Branch name pattern, "{name}" is replaced by the checkout name (default: "{name}") */
+  branch?: string;
+  /** Files copied in addition to autoCopyFiles */
+  autoCopyFiles?: CopyFile[];
+  /** Replaces the checkout hooks of each phase it sets (e.g., "post": [] skips the install step) */
+  hooks?: CommandHooks;
+  /** Lock new worktrees against removal; a string is used as the lock reason */
+  lock?: boolean | string;
+  /** Days before worktrees of this template are stale (instead of cleanThreshold), or "never" */
+  clean?: number | 'never';
 }
 
 /**
  * Per-repository configuration stored at .gw/config.json
  */
 export interface Config {
+  /** JSON Schema of the file, for editors (see schema/config.schema.json) */
+  $schema?: string;
   /** Config schema version for migrations (managed automatically) */
   configVersion?: number;
   /** Absolute path to the git repository root */
@@ -31,7 +162,7 @@ export interface Config {
   /** Default source worktree name (e.g., "main", "master") */
   defaultBranch?: string;
   /** Files to automatically copy when creating new worktrees */
-  autoCopyFiles?: string[];
+  autoCopyFiles?: CopyFile[];
   /** Command hooks configuration */
   hooks?: HooksConfig;
   /** Minimum age in days for worktrees to be cleaned (optional, default: 7) */
@@ -42,8 +173,38 @@ export interface Config {
   lastAutoCleanTime?: number;
   /** Default update strategy for the update command (optional, default: "merge") */
   updateStrategy?: 'merge' | 'rebase';
+  /** Stash uncommitted changes around 'gw update' instead of refusing to run (optional, default: false) */
+  updateAutostash?: boolean;
+  /** Per-worktree port ranges, exposed to hooks and templates as {port} and {port:name} */
+  ports?: PortsConfig;
+  /** Remotes to fetch from and push to, for working from a fork (optional, default: "origin" for both) */
+  remotes?: RemotesConfig;
+  /** Settings for worktrees of matching branches, applied in order (later overrides win) */
+  overrides?: ConfigOverride[];
+  /** Worktree templates by name, used by 'gw checkout <name> --template <template>' */
+  templates?: Record<string, WorktreeTemplate>;
 }
 
+/**
+ * Configuration layers, from lowest to highest precedence:
+ * - user: user-wide defaults in ~/.gw/config.json
+ * - repo: the repository's .gw/config.json
+ * - local: uncommitted, machine-specific .gw/config.local.json
+ * - env: GW_* environment variables (e.g., GW_DEFAULT_BRANCH)
+ */
+export type ConfigLayer = 'user' | 'repo' | 'local' | 'env';
+
+/**
+ * Configuration layers stored in a file (all but env)
+ */
+export type ConfigFileLayer = Exclude<ConfigLayer, 'env'>;
+
+/**
+ * Layer each effective config value came from, by key path
+ * (e.g., "defaultBranch", "remotes.base", "hooks.checkout.post[0]")
+ */
+export type ConfigOrigins = Record<string, ConfigLayer>;
+
 /**
  * Options for the copy command
  */
@@ -58,6 +219,12 @@ export interface CopyOptions {
   help?: boolean;
   /** Dry run mode - show what would be copied without actually copying */
   dryRun?: boolean;
+  /** Only report files that differ between the worktrees (exit code 1 on drift) */
+  check?: boolean;
+  /** Copy from the target worktree back into the source worktree */
+  reverse?: boolean;
+  /** Overwrite files that were modified locally without asking */
+  force?: boolean;
 }
 
 /**
@@ -70,6 +237,26 @@ export interface CopyResult {
   message: string;
   /** The path that was attempted to be copied */
   path: string;
+  /** Whether nothing was copied because a glob pattern matched no files (a warning, not a failure) */
+  skipped?: boolean;
+  /** Mode that was used (a failed reflink or hardlink falls back to "copy") */
+  mode?: CopyMode;
+}
+
+/**
+ * How an autoCopyFiles entry expanded against the source worktree
+ */
+export interface CopyPatternExpansion {
+  /** The entry as configured (e.g., "config/*.json" or "!config/local.json") */
+  pattern: string;
+  /** Whether the entry is a glob pattern (literal paths are copied as-is) */
+  glob: boolean;
+  /** Whether the entry is a "!" exclusion */
+  negated: boolean;
+  /** How matched paths are copied */
+  mode: CopyMode;
+  /** Matched relative paths (for exclusions: the paths that were removed) */
+  paths: string[];
 }
 
 /**
@@ -98,12 +285,42 @@ export interface UpdateOptions {
   dryRun: boolean;
   /** Branch to update from (overrides defaultBranch) */
   branch?: string;
-  /** Remote name (default: "origin") */
-  remote: string;
+  /** Remote name (default: the configured base remote) */
+  remote?: string;
   /** Force merge strategy (overrides config) */
   merge?: boolean;
   /** Force rebase strategy (overrides config) */
   rebase?: boolean;
+  /** Stash uncommitted changes before updating and re-apply them afterwards (overrides config) */
+  autostash?: boolean;
+  /** Update every worktree */
+  all?: boolean;
+  /** Worktrees to update (default: the current worktree) */
+  worktrees: string[];
+  /** Finish an in-progress merge or rebase */
+  continue?: boolean;
+  /** Roll back an in-progress merge or rebase */
+  abort?: boolean;
+  /** Show the in-progress merge or rebase and its conflicted files */
+  status?: boolean;
+}
+
+/**
+ * Options for the pull command
+ */
+export interface PullOptions {
+  /** Show help */
+  help: boolean;
+  /** Skip uncommitted changes check (dangerous) */
+  force: boolean;
+  /** Dry run mode - show what would happen without executing */
+  dryRun: boolean;
+  /** Also merge the default branch after fast-forwarding */
+  withDefault: boolean;
+  /** Branch to merge with --with-default (overrides defaultBranch) */
+  branch?: string;
+  /** Remote to fetch the default branch from (default: the configured base remote) */
+  remote?: string;
 }
 
 /**
@@ -116,6 +333,8 @@ export interface MergeResult {
   message?: string;
   /** Whether there are merge conflicts */
   conflicted?: boolean;
+  /** Files with unresolved conflicts (when conflicted) */
+  conflictedFiles?: string[];
   /** Number of files changed */
   filesChanged?: number;
   /** List of changed files with their stats */
@@ -132,8 +351,171 @@ export interface RebaseResult {
   message?: string;
   /** Whether there are rebase conflicts */
   conflicted?: boolean;
+  /** Files with unresolved conflicts (when conflicted) */
+  conflictedFiles?: string[];
   /** Number of files changed */
   filesChanged?: number;
   /** List of changed files with their stats */
   fileStats?: string[];
 }
+
+/**
+ * JSON output schema (--json)
+ *
+ * Every read command that supports --json prints a single JSON object to stdout
+ * with a `schemaVersion` and `command` field. The schema version is only bumped
+ * on breaking changes; new fields may be added without a version bump.
+ */
+
+/**
+ * Fields shared by all JSON outputs
+ */
+export interface JsonOutputBase {
+  /** Version of the JSON output schema */
+  schemaVersion: 1;
+  /** Command that produced the output */
+  command: 'list' | 'root' | 'cd' | 'clean' | 'prune' | 'show-init';
+}
+
+/**
+ * A worktree as reported in JSON output (mirrors git worktree metadata)
+ */
+export interface JsonWorktree {
+  /** Absolute path to the worktree */
+  path: string;
+  /** Checked-out branch, or null for detached HEAD */
+  branch: string | null;
+  /** Commit SHA of HEAD */
+  head: string;
+  /** Whether this is the bare repository entry */
+  bare: boolean;
+  /** Whether the worktree is locked */
+  locked: boolean;
+}
+
+/**
+ * A worktree with status information (gw list --json)
+ */
+export interface JsonWorktreeStatus extends JsonWorktree {
+  /** Worktree name (path relative to the git root) */
+  name: string;
+  /** Whether this is the worktree the command was run from */
+  current: boolean;
+  /** Commits ahead of the default branch (null if not comparable) */
+  ahead: number | null;
+  /** Commits behind the default branch (null if not comparable) */
+  behind: number | null;
+  /** Whether the worktree has uncommitted changes */
+  dirty: boolean;
+  /** Whether the worktree has commits not pushed to its upstream */
+  unpushed: boolean;
+  /** Age of the worktree in days */
+  ageDays: number;
+  /** Description set with `gw note`, or null */
+  description: string | null;
+  /** Tags set with `gw tag` */
+  tags: string[];
+  /** Command that created the worktree, or null if unknown */
+  createdBy: 'checkout' | 'pr' | null;
+  /** Branch the worktree's branch was created from, or null if unknown */
+  sourceBranch: string | null;
+  /** Pull request checked out with `gw pr`, or null */
+  prNumber: number | null;
+  /** When the worktree was created (ISO 8601), or null if unknown */
+  createdAt: string | null;
+}
+
+/**
+ * Output of `gw list --json`
+ */
+export interface ListJsonOutput extends JsonOutputBase {
+  command: 'list';
+  /** Branch used for ahead/behind counts */
+  defaultBranch: string;
+  worktrees: JsonWorktreeStatus[];
+}
+
+/**
+ * Output of `gw root --json`
+ */
+export interface RootJsonOutput extends JsonOutputBase {
+  command: 'root';
+  /** Absolute path to the git repository root */
+  root: string;
+}
+
+/**
+ * Output of `gw cd <worktree> --json`
+ */
+export interface CdJsonOutput extends JsonOutputBase {
+  command: 'cd';
+  /** Pattern that was searched for */
+  pattern: string;
+  /** Absolute path to the matched worktree */
+  path: string;
+  /** Branch of the matched worktree, or null for detached HEAD */
+  branch: string | null;
+}
+
+/**
+ * A worktree considered for removal by clean or prune
+ */
+export interface JsonCleanableWorktree extends JsonWorktree {
+  /** Whether the worktree would be removed */
+  canClean: boolean;
+  /** Why the worktree is protected (null if it can be cleaned) */
+  reason: string | null;
+  /** Whether the worktree has uncommitted changes */
+  hasUncommitted: boolean;
+  /** Whether the worktree has commits not pushed to its upstream */
+  hasUnpushed: boolean;
+}
+
+/**
+ * A branch without a worktree, considered for deletion by prune
+ */
+export interface JsonOrphanBranch {
+  /** Branch name */
+  name: string;
+  /** Whether the branch would be deleted */
+  canDelete: boolean;
+  /** Why the branch is protected (null if it can be deleted) */
+  reason: string | null;
+  /** Whether the branch has commits not pushed to its upstream */
+  hasUnpushed: boolean;
+}
+
+/**
+ * Output of `gw clean --dry-run --json`
+ */
+export interface CleanJsonOutput extends JsonOutputBase {
+  command: 'clean';
+  dryRun: true;
+  /** Age threshold in days (null unless --use-autoclean-threshold is set) */
+  threshold: number | null;
+  worktrees: (JsonCleanableWorktree & { ageDays: number })[];
+}
+
+/**
+ * Output of `gw prune --dry-run --json`
+ */
+export interface PruneJsonOutput extends JsonOutputBase {
+  command: 'prune';
+  dryRun: true;
+  worktrees: JsonCleanableWorktree[];
+  /** Orphan branches (empty with --no-branches) */
+  orphanBranches: JsonOrphanBranch[];
+}
+
+/**
+ * Output of `gw show-init --json`
+ */
+export interface ShowInitJsonOutput extends JsonOutputBase {
+  command: 'show-init';
+  /** Generated `gw init` command line */
+  initCommand: string;
+  /** URL of the origin remote (null if not configured) */
+  remoteUrl: string | null;
+  /** Current configuration the command was generated from */
+  config: Config;
+}
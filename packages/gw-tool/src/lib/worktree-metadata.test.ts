@@ -0,0 +1,97 @@
+/**
+ * Tests for worktree-metadata.ts
+ */
+
+import { assertEquals } from '$std/assert';
+import {
+  clearWorktreeMetadata,
+  getStackOrder,
+  getWorktreeMetadata,
+  moveWorktreeMetadata,
+  readWorktreeMetadata,
+  recordWorktreeCreation,
+  unstackBranch,
+  updateWorktreeMetadata,
+} from './worktree-metadata.ts';
+import { GitTestRepo } from '../test-utils/git-test-repo.ts';
+
+Deno.test('updateWorktreeMetadata - sets, moves and clears metadata per worktree', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+
+    assertEquals(await getWorktreeMetadata(repo.path, 'fix-123'), {});
+
+    await updateWorktreeMetadata(repo.path, 'fix-123', { description: 'Login loop', tags: ['review'] });
+    await updateWorktreeMetadata(repo.path, 'fix-123', { tags: undefined });
+    assertEquals(await getWorktreeMetadata(repo.path, 'fix-123'), { description: 'Login loop' });
+
+    await moveWorktreeMetadata(repo.path, 'fix-123', 'login-loop');
+    assertEquals(await getWorktreeMetadata(repo.path, 'fix-123'), {});
+    assertEquals(await getWorktreeMetadata(repo.path, 'login-loop'), { description: 'Login loop' });
+
+    await clearWorktreeMetadata(repo.path, 'login-loop');
+    assertEquals(await readWorktreeMetadata(repo.path), {});
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('recordWorktreeCreation - replaces metadata left behind by an earlier worktree', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await updateWorktreeMetadata(repo.path, 'feat', { description: 'Old worktree' });
+
+    await recordWorktreeCreation(repo.path, 'feat', { createdBy: 'pr', prNumber: 42, sourceBranch: undefined });
+
+    const metadata = await getWorktreeMetadata(repo.path, 'feat');
+    assertEquals(Object.keys(metadata).sort(), ['createdAt', 'createdBy', 'prNumber']);
+    assertEquals(metadata.prNumber, 42);
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('unstackBranch - moves branches stacked on a deleted branch onto its parent', async () => {
+  const repo = new GitTestRepo();
+  try {
+    await repo.init();
+    await updateWorktreeMetadata(repo.path, 'wt-c', { parent: 'feat-b' });
+    await updateWorktreeMetadata(repo.path, 'wt-d', { parent: 'feat-b', description: 'Docs' });
+
+    await unstackBranch(repo.path, 'feat-b', 'feat-a');
+    assertEquals(await readWorktreeMetadata(repo.path), {
+      'wt-c': { parent: 'feat-a' },
+      'wt-d': { parent: 'feat-a', description: 'Docs' },
+    });
+
+    // Without a parent of its own, the children become roots of their own stacks
+    await unstackBranch(repo.path, 'feat-a');
+    assertEquals(await readWorktreeMetadata(repo.path), { 'wt-d': { description: 'Docs' } });
+  } finally {
+    await repo.cleanup();
+  }
+});
+
+Deno.test('getStackOrder - lists every branch after its parent', () => {
+  assertEquals(
+    getStackOrder(
+      {
+        'wt-d': { parent: 'feat-a' },
+        'wt-c': { parent: 'feat-b' },
+        'wt-b': { parent: 'feat-a' },
+        'wt-y': { parent: 'fix-x' },
+        removed: { parent: 'feat-a' },
+        loop: { parent: 'loop' },
+      },
+      { 'wt-b': 'feat-b', 'wt-c': 'feat-c', 'wt-d': 'feat-d', 'wt-y': 'fix-y', loop: 'loop' }
+    ),
+    [
+      { worktree: 'wt-b', branch: 'feat-b', parent: 'feat-a' },
+      { worktree: 'wt-c', branch: 'feat-c', parent: 'feat-b' },
+      { worktree: 'wt-d', branch: 'feat-d', parent: 'feat-a' },
+      { worktree: 'wt-y', branch: 'fix-y', parent: 'fix-x' },
+    ]
+  );
+});
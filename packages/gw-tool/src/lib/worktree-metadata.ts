@@ -0,0 +1,234 @@
+/**
+ * Worktree metadata
+ * Records what gw knows about each worktree (description, tags, how it was created, and
+ * the parent branch of a stacked branch) in .gw/worktrees.json, keyed by worktree name.
+ */
+
+import { join } from '$std/path';
+
+/**
+ * Metadata of a worktree
+ */
+export interface WorktreeMetadata {
+  /** What the worktree is for (set by 'gw note') */
+  description?: string;
+  /** Tags (set by 'gw tag') */
+  tags?: string[];
+  /** Command that created the worktree */
+  createdBy?: 'checkout' | 'pr';
+  /** Branch the worktree's branch was created from (--from, defaultBranch or the PR's base branch) */
+  sourceBranch?: string;
+  /** Template the worktree was created with (set by 'gw checkout --template') */
+  template?: string;
+  /** Pull request checked out in the worktree (set by 'gw pr') */
+  prNumber?: number;
+  /** When the worktree was created (ISO 8601) */
+  createdAt?: string;
+  /** Branch the worktree's branch is stacked on (set by 'gw checkout <branch> --from <parent>') */
+  parent?: string;
+}
+
+/**
+ * Metadata of all worktrees (worktree name -> metadata)
+ */
+export type WorktreeMetadataStore = Record<string, WorktreeMetadata>;
+
+/**
+ * A stacked branch and the branch it is stacked on
+ */
+export interface StackEntry {
+  /** Worktree name (path relative to the git root) */
+  worktree: string;
+  branch: string;
+  parent: string;
+}
+
+/**
+ * Get the path of the worktree metadata file
+ */
+function getMetadataPath(gitRoot: string): string {
+  return join(gitRoot, '.gw', 'worktrees.json');
+}
+
+/**
+ * Read the worktree metadata (empty if it doesn't exist yet)
+ *
+ * @param gitRoot Root of the git repository
+ */
+export async function readWorktreeMetadata(gitRoot: string): Promise<WorktreeMetadataStore> {
+  try {
+    return JSON.parse(await Deno.readTextFile(getMetadataPath(gitRoot))) as WorktreeMetadataStore;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write the worktree metadata, dropping empty entries
+ */
+async function writeWorktreeMetadata(gitRoot: string, store: WorktreeMetadataStore): Promise<void> {
+  const entries = Object.entries(store).filter(([, metadata]) => Object.keys(metadata).length > 0);
+
+  await Deno.mkdir(join(gitRoot, '.gw'), { recursive: true });
+  await Deno.writeTextFile(getMetadataPath(gitRoot), JSON.stringify(Object.fromEntries(entries), null, 2) + '\n');
+}
+
+/**
+ * Get the metadata of a worktree
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ */
+export async function getWorktreeMetadata(gitRoot: string, worktree: string): Promise<WorktreeMetadata> {
+  return (await readWorktreeMetadata(gitRoot))[worktree] ?? {};
+}
+
+/**
+ * Update the metadata of a worktree
+ * Fields set to undefined are removed.
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ * @param changes Fields to set
+ */
+export async function updateWorktreeMetadata(
+  gitRoot: string,
+  worktree: string,
+  changes: Partial<WorktreeMetadata>
+): Promise<void> {
+  const store = await readWorktreeMetadata(gitRoot);
+  const metadata: WorktreeMetadata = { ...store[worktree], ...changes };
+
+  for (const key of Object.keys(metadata) as (keyof WorktreeMetadata)[]) {
+    if (metadata[key] === undefined) {
+      delete metadata[key];
+    }
+  }
+
+  store[worktree] = metadata;
+  await writeWorktreeMetadata(gitRoot, store);
+}
+
+/**
+ * Start the metadata of a newly created worktree
+ * Replaces anything left behind by an earlier worktree with the same name.
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ * @param metadata How the worktree was created (createdAt is set to now)
+ */
+export async function recordWorktreeCreation(
+  gitRoot: string,
+  worktree: string,
+  metadata: WorktreeMetadata
+): Promise<void> {
+  const store = await readWorktreeMetadata(gitRoot);
+  const entries = Object.entries({ ...metadata, createdAt: new Date().toISOString() });
+
+  store[worktree] = Object.fromEntries(entries.filter(([, value]) => value !== undefined));
+  await writeWorktreeMetadata(gitRoot, store);
+}
+
+/**
+ * Move the metadata of a worktree to its new name (e.g., after 'gw move')
+ *
+ * @param gitRoot Root of the git repository
+ * @param from Old worktree name
+ * @param to New worktree name
+ */
+export async function moveWorktreeMetadata(gitRoot: string, from: string, to: string): Promise<void> {
+  const store = await readWorktreeMetadata(gitRoot);
+
+  if (store[from] === undefined) {
+    return;
+  }
+
+  store[to] = store[from];
+  delete store[from];
+  await writeWorktreeMetadata(gitRoot, store);
+}
+
+/**
+ * Forget the metadata of a worktree (e.g., after it was removed)
+ *
+ * @param gitRoot Root of the git repository
+ * @param worktree Worktree name (path relative to the git root)
+ */
+export async function clearWorktreeMetadata(gitRoot: string, worktree: string): Promise<void> {
+  const store = await readWorktreeMetadata(gitRoot);
+
+  if (store[worktree] === undefined) {
+    return;
+  }
+
+  delete store[worktree];
+  await writeWorktreeMetadata(gitRoot, store);
+}
+
+/**
+ * Move the branches stacked on a deleted branch onto its parent, so the rest of the
+ * stack stays intact (without a parent, they become the roots of their own stacks)
+ *
+ * @param gitRoot Root of the git repository
+ * @param branch Deleted branch
+ * @param parent Branch the deleted branch was stacked on
+ */
+export async function unstackBranch(gitRoot: string, branch: string, parent?: string): Promise<void> {
+  const store = await readWorktreeMetadata(gitRoot);
+  const children = Object.values(store).filter((metadata) => metadata.parent === branch);
+
+  if (children.length === 0) {
+    return;
+  }
+
+  for (const metadata of children) {
+    if (parent) {
+      metadata.parent = parent;
+    } else {
+      delete metadata.parent;
+    }
+  }
+
+  await writeWorktreeMetadata(gitRoot, store);
+}
+
+/**
+ * Get the stacked branches in restack order: every branch comes after its parent,
+ * and branches stacked on the same parent are sorted by name
+ * Worktrees that no longer exist and branches caught in a parent cycle are left out.
+ *
+ * @param store Worktree metadata
+ * @param branches Branch checked out in each worktree (worktree name -> branch)
+ */
+export function getStackOrder(store: WorktreeMetadataStore, branches: Record<string, string>): StackEntry[] {
+  const children = new Map<string, StackEntry[]>();
+  const stacked = new Set<string>();
+  for (const [worktree, metadata] of Object.entries(store)) {
+    const branch = branches[worktree];
+    if (branch && metadata.parent) {
+      children.set(metadata.parent, [
+        ...(children.get(metadata.parent) ?? []),
+        { worktree, branch, parent: metadata.parent },
+      ]);
+      stacked.add(branch);
+    }
+  }
+
+  // Roots are parents that aren't stacked on anything themselves
+  const roots = [...children.keys()].filter((branch) => !stacked.has(branch)).sort();
+  const order: StackEntry[] = [];
+
+  const visit = (parent: string) => {
+    const entries = (children.get(parent) ?? []).sort((a, b) => a.branch.localeCompare(b.branch));
+    for (const entry of entries) {
+      order.push(entry);
+      visit(entry.branch);
+    }
+  };
+  roots.forEach(visit);
+
+  return order;
+}
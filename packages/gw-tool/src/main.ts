@@ -9,6 +9,11 @@ import { executeCd } from './commands/cd.ts';
 import { executeCheckout } from './commands/checkout.ts';
 import { executeCopy } from './commands/sync.ts';
 import { executeUpdate } from './commands/update.ts';
+import { executePull } from './commands/pull.ts';
+import { executeStack } from './commands/stack.ts';
+import { executeRestack } from './commands/restack.ts';
+import { executeNote } from './commands/note.ts';
+import { executeTag } from './commands/tag.ts';
 import { executeInit } from './commands/init.ts';
 import { executeInstallShell } from './commands/install-shell.ts';
 import { executeRoot } from './commands/root.ts';
@@ -21,7 +26,10 @@ import { executeUnlock } from './commands/unlock.ts';
 import { executeRepair } from './commands/repair.ts';
 import { executeClean } from './commands/clean.ts';
 import { executeShowInit } from './commands/show-init.ts';
+import { executeConfig } from './commands/config.ts';
 import { executePr } from './commands/pr.ts';
+import { executeHooksCommand } from './commands/hooks.ts';
+import { executeComplete } from './commands/complete.ts';
 import * as output from './lib/output.ts';
 
 /**
@@ -33,6 +41,11 @@ const COMMANDS = {
   add: executeCheckout, // Backwards-compatible alias
   cd: executeCd,
   update: executeUpdate,
+  pull: executePull,
+  stack: executeStack,
+  restack: executeRestack,
+  note: executeNote,
+  tag: executeTag,
   sync: executeCopy,
   init: executeInit,
   'install-shell': executeInstallShell,
@@ -49,7 +62,10 @@ const COMMANDS = {
   repair: executeRepair,
   clean: executeClean,
   'show-init': executeShowInit,
+  config: executeConfig,
   pr: executePr,
+  hooks: executeHooksCommand,
+  __complete: (args: string[]): Promise<void> => executeComplete(args, COMMANDS), // Hidden: shell completions
 };
 
 if (import.meta.main) {